@@ -26,6 +26,49 @@ export { PortainerFactory } from './src/factory.ts';
  * Handles authentication and axios instance configuration
  */
 export { PortainerAuth } from './src/auth.ts';
+export type {
+    PortainerCredentials,
+    PortainerAuthOptions,
+    PortainerValidationResult,
+    PortainerValidationFailureReason,
+    PortainerUserRole
+} from './src/auth.ts';
+export type { PortainerTlsOptions } from './src/tls.ts';
+export type { PortainerRetryOptions, PortainerCircuitBreakerOptions } from './src/retry.ts';
+export type { PortainerRequestOptions, PortainerWaitOptions } from './src/request.ts';
+export type { PortainerSchedulerOptions, PortainerRequestPriority } from './src/scheduler.ts';
+export { MemoryStackHistoryStore, JsonDirStackHistoryStore } from './src/history.ts';
+export type { PortainerStackHistoryStore, PortainerStackVersion } from './src/history.ts';
+
+/**
+ * Control client for Portainer
+ * Provides container, stack and shell (exec) controls
+ */
+export { PortainerControlApi } from './src/controls.ts';
+
+/**
+ * Creates independent clients for a Portainer instance
+ * Use instead of the singletons to manage several Portainer servers side by side
+ */
+export { createClient } from './src/client.ts';
+export type { PortainerClient, PortainerClientOptions } from './src/client.ts';
+
+/**
+ * Error classes raised in strict mode
+ * All extend PortainerError, which carries the HTTP status, endpoint, method and body
+ */
+export {
+    PortainerError,
+    NotFoundError,
+    AuthError,
+    ConflictError,
+    ValidationError,
+    EnvironmentUnavailableError,
+    TimeoutError,
+    AbortError,
+    toPortainerError
+} from './src/errors.ts';
+export type { PortainerErrorDetails } from './src/errors.ts';
 
 // ============================================
 // Type Definitions
@@ -36,10 +79,63 @@ export { PortainerAuth } from './src/auth.ts';
  */
 export type {
     PortainerEnvironment,
+    PortainerEnvironmentSnapshot,
+    PortainerEnvironmentFilter,
+    PortainerEnvironmentCreateOptions,
+    PortainerEnvironmentUpdate,
+    PortainerEnvironmentTls,
+    PortainerTag,
+    PortainerEndpointGroup,
+    PortainerEndpointGroupOptions,
+    PortainerEdgeGroup,
+    PortainerEdgeGroupOptions,
+    PortainerEdgeStack,
+    PortainerEdgeStackDeployment,
+    PortainerEdgeStackOptions,
+    PortainerEdgeStackUpdate,
+    PortainerEdgeStackState,
+    PortainerEdgeStackEnvironmentStatus,
+    PortainerFleetOptions,
+    PortainerFleetItem,
+    PortainerFleetFailure,
+    PortainerFleetResult,
     PortainerStack,
+    PortainerStackStatus,
+    PortainerStackService,
+    PortainerStackEnv,
+    PortainerStackEnvPatch,
+    PortainerStackUpdateOptions,
+    PortainerStackRedeployOptions,
+    PortainerStackRedeployResult,
+    PortainerResourceControl,
+    PortainerStackGitConfig,
+    PortainerStackAutoUpdate,
+    PortainerGitCredentials,
+    PortainerGitAutoUpdate,
+    PortainerGitStackOptions,
+    PortainerStackDeploymentType,
+    PortainerGitRedeployOptions,
+    PortainerStackManifest,
+    PortainerStackManifestEntry,
+    PortainerStackPlan,
+    PortainerStackPlanStep,
+    PortainerStackEnvDiff,
+    PortainerPlanOptions,
+    PortainerApplyOptions,
+    PortainerApplyEvent,
+    PortainerApplyResult,
+    PortainerStackBundle,
+    PortainerEnvironmentBundle,
+    PortainerStackExportOptions,
+    PortainerStackImportOptions,
+    PortainerEnvironmentImportResult,
     PortainerContainer,
     PortainerImage,
     PortainerStackContent,
+    PortainerUser,
+    PortainerSystemStatus,
+    PortainerDockerInfo,
+    PortainerDockerVersion,
     Constructor
 } from './src/types.ts';
 
@@ -58,6 +154,8 @@ export {
     verifyStackCreation,
     verifyContainerCreation
 } from './src/utils.ts';
+export { loadStackManifest } from './src/manifest.ts';
+export { serializeBundle, parseBundle } from './src/bundle.ts';
 
 // ============================================
 // Logging Functions
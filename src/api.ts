@@ -1,46 +1,76 @@
 import { PortainerAuth } from './auth.ts';
 import { EnvironmentsMixin } from './mixins/EnvironmentMixins.ts';
+import { EnvironmentManagementMixin } from './mixins/EnvironmentManagementMixin.ts';
+import { EnvironmentGroupsMixin } from './mixins/EnvironmentGroupsMixin.ts';
+import { EnvironmentHealthMixin } from './mixins/EnvironmentHealthMixin.ts';
+import { FleetMixin } from './mixins/FleetMixin.ts';
+import { EdgeGroupsMixin } from './mixins/EdgeGroupsMixin.ts';
+import { EdgeStacksMixin } from './mixins/EdgeStacksMixin.ts';
 import { ResourceFetchingMixin } from './mixins/ResourceFetchingMixin.ts';
 import { ResourceDeletionMixin } from './mixins/ResourceDeletionMixin.ts';
 import { StackControlsMixin } from './mixins/StackControlsMixin.ts';
+import { GitStacksMixin } from './mixins/GitStacksMixin.ts';
 
 class PortainerApiBase {
     auth: PortainerAuth;
     environmentId: number | null = null; // Environment ID, can be null on init but must be defined when used
+    environmentName: string | null = null; // Default environment name, resolved to an ID on first use
+    scoped: boolean = false; // Set on views returned by forEnvironment(), which only see their environment's stacks
     constructor(
-        environmentId: number | null = null
+        environment: number | string | null = null,
+        auth?: PortainerAuth
     ) {
-        this.environmentId = environmentId;
-        this.auth = PortainerAuth.getInstance();
+        this.environmentId = typeof environment === 'number' ? environment : null;
+        this.environmentName = typeof environment === 'string' ? environment : null;
+        this.auth = auth ?? PortainerAuth.getInstance();
     }
 }
 
-const ApiStack = StackControlsMixin(
-    ResourceDeletionMixin(
-        ResourceFetchingMixin(
-            EnvironmentsMixin(
-                PortainerApiBase
+const ApiStack = EdgeStacksMixin(
+    EdgeGroupsMixin(
+        GitStacksMixin(
+            StackControlsMixin(
+                ResourceDeletionMixin(
+                    ResourceFetchingMixin(
+                        FleetMixin(
+                            EnvironmentHealthMixin(
+                                EnvironmentGroupsMixin(
+                                    EnvironmentManagementMixin(
+                                        EnvironmentsMixin(
+                                            PortainerApiBase
+                                        )
+                                    )
+                                )
+                            )
+                        )
+                    )
+                )
             )
         )
     )
 )
 
-// Maintain singleton instance
+// Default singleton instance, independent clients can be constructed directly
 class PortainerApi extends ApiStack {
     public static instance: PortainerApi;
     
-    // Make constructor private to enforce singleton pattern
-    private constructor(
-        environmentId: number | null = null
+    /**
+     * Constructor for PortainerApi
+     * @param environment - Optional: The default environment ID or name for this client
+     * @param auth - Optional: The auth instance to use, defaults to the environment-configured singleton
+     */
+    public constructor(
+        environment: number | string | null = null,
+        auth?: PortainerAuth
     ) {
-        super(environmentId);
+        super(environment, auth);
     }
     
     public static getInstance(
-        environmentId: number | null = null
+        environment: number | string | null = null
     ): PortainerApi {
         if (!PortainerApi.instance) {
-            PortainerApi.instance = new PortainerApi(environmentId);
+            PortainerApi.instance = new PortainerApi(environment ?? (process.env.PORTAINER_ENVIRONMENT_NAME || null));
         }
         return PortainerApi.instance;
     }
@@ -1,26 +1,189 @@
-import axios, { type AxiosInstance } from 'axios';
-import https from 'https';
-import { logError } from '../logger.ts';
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+import { logError, logInfo, logWarn } from '../logger.ts';
+import { PortainerError } from './errors.ts';
+import { MemoryStackHistoryStore, getHistoryStoreFromEnv, type PortainerStackHistoryStore } from './history.ts';
+import { delay } from './request.ts';
+import { CircuitBreaker, RetryPolicy, getRetryOptionsFromEnv, type PortainerCircuitBreakerOptions, type PortainerRetryOptions } from './retry.ts';
+import { RequestScheduler, getSchedulerOptionsFromEnv, type PortainerSchedulerOptions } from './scheduler.ts';
+import { createHttpsAgent, getTlsOptionsFromEnv, type PortainerTlsOptions } from './tls.ts';
+import type { PortainerSystemStatus, PortainerUser } from './types.ts';
+
+/**
+ * Credentials used to authenticate against Portainer.
+ * Either a static API key (sent as `X-API-Key`) or a username/password pair
+ * that is exchanged for a JWT through `POST /api/auth`.
+ */
+export type PortainerCredentials =
+    | { apiKey: string }
+    | { username: string; password: string };
+
+/**
+ * Options for creating a standalone PortainerAuth instance.
+ * @property url - The URL of the Portainer instance.
+ * @property tls - Optional: CA bundle, client certificate, fingerprint pinning or insecure mode.
+ * @property strict - Optional: Throw PortainerErrors from every public method instead of returning undefined/false/null.
+ * @property retry - Optional: Retry policy for failed requests, or `false` to disable retries.
+ * @property circuitBreaker - Optional: Circuit breaker settings, or `false` to disable it.
+ * @property scheduler - Optional: Concurrency and rate limits for outgoing requests (`{}` for the defaults). Off unless given.
+ * @property history - Optional: Where stack versions are saved before updates, or `false` to not save them. Defaults to memory.
+ */
+export type PortainerAuthOptions = {
+    url: string;
+    tls?: PortainerTlsOptions;
+    strict?: boolean;
+    retry?: PortainerRetryOptions | false;
+    circuitBreaker?: PortainerCircuitBreakerOptions | false;
+    scheduler?: PortainerSchedulerOptions | false;
+    history?: PortainerStackHistoryStore | false;
+} & PortainerCredentials;
+
+/**
+ * Why validating the connection to Portainer failed.
+ * - `invalid-credentials`: The server rejected the API key or username/password.
+ * - `unreachable`: No response from the server (DNS, refused connection, timeout, ...).
+ * - `protocol-mismatch`: http:// used against an HTTPS server or the other way around.
+ * - `certificate`: The TLS certificate could not be verified or did not match the pinned fingerprint.
+ * - `unknown`: Anything else; see the message.
+ */
+export type PortainerValidationFailureReason =
+    | 'invalid-credentials'
+    | 'unreachable'
+    | 'protocol-mismatch'
+    | 'certificate'
+    | 'unknown';
+
+export type PortainerUserRole = 'administrator' | 'user' | 'unknown';
+
+/**
+ * Result of `PortainerAuth.validate()`.
+ */
+export type PortainerValidationResult =
+    | { valid: true; user: PortainerUser; role: PortainerUserRole; serverVersion: string | null }
+    | { valid: false; reason: PortainerValidationFailureReason; message: string };
+
+interface PortainerAuthResponse {
+    jwt: string;
+}
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean; _scheduled?: boolean };
+
+const AUTH_ENDPOINT = '/api/auth';
+// Log in again this long before the JWT actually expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+const UNREACHABLE_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'ETIMEDOUT', 'ECONNRESET', 'ECONNABORTED', 'EAI_AGAIN'];
+const CERTIFICATE_ERROR_CODES = [
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'CERT_HAS_EXPIRED',
+    'CERT_NOT_YET_VALID',
+    'ERR_TLS_CERT_ALTNAME_INVALID',
+];
+
+/**
+ * Maps a failed validation request to a failure reason.
+ * @param error - The error thrown by axios.
+ * @returns {PortainerValidationFailureReason} The reason the connection could not be validated.
+ */
+function classifyValidationError(error: unknown): PortainerValidationFailureReason {
+    const message = error instanceof Error ? error.message : '';
+    const code = axios.isAxiosError(error) ? error.code : undefined;
+    const response = axios.isAxiosError(error) ? error.response : undefined;
+    const responseBody = typeof response?.data === 'string' ? response.data : '';
+
+    if (
+        message.includes('Client sent an HTTP request to an HTTPS server') ||
+        responseBody.includes('Client sent an HTTP request to an HTTPS server') ||
+        code === 'EPROTO' ||
+        message.includes('wrong version number')
+    ) {
+        return 'protocol-mismatch';
+    }
+
+    const status = response?.status;
+    if (status === 401 || status === 403 || status === 422) {
+        return 'invalid-credentials';
+    }
+
+    if ((code !== undefined && CERTIFICATE_ERROR_CODES.includes(code)) || message.includes('pinned fingerprint')) {
+        return 'certificate';
+    }
+
+    if ((code !== undefined && UNREACHABLE_ERROR_CODES.includes(code)) || (axios.isAxiosError(error) && error.request && !response)) {
+        return 'unreachable';
+    }
+
+    return 'unknown';
+}
+
+/**
+ * Reads the expiry (in ms since epoch) from a JWT without verifying it.
+ * @param token - The JWT returned by Portainer.
+ * @returns {number | null} The expiry timestamp, or null if it cannot be determined.
+ */
+function getJwtExpiry(token: string): number | null {
+    const payload = token.split('.')[1];
+    if (!payload) {
+        return null;
+    }
+
+    try {
+        const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        return typeof decoded.exp === 'number' ? decoded.exp * 1000 : null;
+    } catch {
+        return null;
+    }
+}
 
 export class PortainerAuth {
     private static instance: PortainerAuth;
     private readonly portainerUrl: string; // Portainer URL, must be defined
-    private readonly apiKey: string; // Access token, must be defined for API calls
+    private readonly credentials: PortainerCredentials; // API key or username/password, must be defined for API calls
+    private jwt: string | null = null; // Current session token when using username/password
+    private jwtExpiresAt: number | null = null; // Expiry of the current session token (ms since epoch)
+    private loginPromise: Promise<string> | null = null; // In-flight login, shared by concurrent requests
+    private validationPromise: Promise<PortainerValidationResult> | null = null; // In-flight validation, shared by concurrent callers
+    private readonly retryPolicy: RetryPolicy | null; // Retries failed requests, null when disabled
+    public readonly circuitBreaker: CircuitBreaker | null; // Fails fast for unreachable environments, null when disabled
+    public readonly scheduler: RequestScheduler | null; // Limits requests in flight and their rate, null unless configured
+    public readonly history: PortainerStackHistoryStore | null; // Saves stack versions before updates, null when disabled
     public readonly axiosInstance: AxiosInstance;
-    public isValidated: boolean; // Indicates if authentication has been validated
+    public isValidated: boolean; // Indicates if the credentials have been verified against the server
+    public strict: boolean; // Throw PortainerErrors instead of returning undefined/false/null on failure
+    public user: PortainerUser | null = null; // The authenticated user, set by validate()
+    public role: PortainerUserRole | null = null; // The authenticated user's role, set by validate()
+    public serverVersion: string | null = null; // The Portainer server version, set by validate()
 
     /**
      * Constructor for PortainerAuth
-     * @param portainerUrl - The URL of the Portainer instance.
-     * @param apiKey - The API key for authentication.
+     * Creates an independent auth instance; use `getInstance()` for the environment-configured default.
+     * @param options - The Portainer URL plus either an API key or a username/password pair.
      */
-    private constructor(
-        portainerUrl: string,
-        apiKey: string
-    ) {
+    public constructor(options: PortainerAuthOptions) {
+        if (!options || typeof options.url !== 'string' || !options.url) {
+            throw new Error('A Portainer URL must be provided.');
+        }
+
+        const credentials: PortainerCredentials | null =
+            'apiKey' in options && options.apiKey ? { apiKey: options.apiKey } :
+            'username' in options && options.username && options.password ? { username: options.username, password: options.password } :
+            null;
+
+        if (!credentials) {
+            throw new Error('Either an API key or a username and password must be provided.');
+        }
+
+        const portainerUrl = options.url;
         this.portainerUrl = portainerUrl.endsWith('/') ? portainerUrl.slice(0, -1) : portainerUrl;
-        this.apiKey = apiKey;
+        this.credentials = credentials;
         this.isValidated = false;
+        this.strict = options.strict === true;
+        this.retryPolicy = options.retry === false ? null : new RetryPolicy(options.retry);
+        this.circuitBreaker = options.circuitBreaker === false ? null : new CircuitBreaker(options.circuitBreaker);
+        this.scheduler = options.scheduler ? new RequestScheduler(options.scheduler) : null;
+        this.history = options.history === false ? null : options.history ?? new MemoryStackHistoryStore();
 
         // Create an Axios instance with default configurations
         this.axiosInstance = axios.create({
@@ -28,23 +191,83 @@ export class PortainerAuth {
             headers: {
                 'Content-Type': 'application/json',
             },
-            // For development: ignore SSL certificate validation when using IP addresses
-            // TODO: CHANGE LATER - this is insecure for production use
-            httpsAgent: (process.env.NODE_ENV !== 'production') ?
-                new https.Agent({ rejectUnauthorized: false }) :
-                undefined,
+            // Certificates are validated unless TLS options say otherwise
+            httpsAgent: createHttpsAgent(options.tls),
         });
 
         // Set initial auth headers
         this.updateAuthHeaders();
 
+        // Wait for a free slot in the request's priority lane. Request interceptors run in reverse order,
+        // so this is the last step before sending: a request holds no slot while its JWT is fetched.
+        this.axiosInstance.interceptors.request.use(async (config: RetriableRequestConfig) => {
+            if (this.scheduler && !RequestScheduler.isStreaming(config.url, config.params, config.responseType)) {
+                const priority = RequestScheduler.getPriority(config.url, config.priority);
+                await this.scheduler.acquire(priority, config.signal as AbortSignal | undefined);
+                config._scheduled = true;
+            }
+            return config;
+        });
+
+        // Attach a fresh JWT to every request when logging in with username/password
+        this.axiosInstance.interceptors.request.use(async config => {
+            if (this.usesPasswordLogin && config.url !== AUTH_ENDPOINT) {
+                const token = await this.getValidToken();
+                config.headers.set('Authorization', `Bearer ${token}`);
+            }
+            return config;
+        });
+
+        // Fail fast while the target environment's circuit is open
+        this.axiosInstance.interceptors.request.use(config => {
+            this.circuitBreaker?.check(config);
+            return config;
+        });
+
         // Add an interceptor for common error handling or logging
         this.axiosInstance.interceptors.response.use(
-            response => response,
+            response => {
+                this.releaseSlot(response.config);
+                this.circuitBreaker?.record(response.config);
+                return response;
+            },
             async error => {
-                const config = error.config;
+                const config = error.config as RetriableRequestConfig | undefined;
                 const errorMessage = error.message || 'An unknown error occurred.';
 
+                // Free the slot before backing off; a retry or replay queues again
+                this.releaseSlot(config);
+
+                // Rejected by the circuit breaker before it was sent
+                if (error instanceof PortainerError) {
+                    logError(`Portainer API Error: ${errorMessage}`);
+                    return Promise.reject(error);
+                }
+
+                this.circuitBreaker?.record(config, error);
+
+                // Transient failure (proxy 502, connection reset, ...): back off and try again
+                const retryDelay = this.retryPolicy?.getRetryDelay(error) ?? null;
+                if (config && retryDelay !== null) {
+                    logWarn(`Portainer API Error: ${errorMessage}. Retrying ${config.method?.toUpperCase()} ${config.url} in ${Math.round(retryDelay)}ms...`);
+                    await delay(retryDelay, config.signal as AbortSignal | undefined);
+                    return this.axiosInstance.request(config);
+                }
+
+                // The session token was rejected (expired, revoked, server restarted): log in again and replay once
+                if (
+                    this.usesPasswordLogin &&
+                    error.response?.status === 401 &&
+                    config &&
+                    config.url !== AUTH_ENDPOINT &&
+                    !config._authRetried
+                ) {
+                    logWarn('Portainer rejected the session token, logging in again...');
+                    config._authRetried = true;
+                    this.clearToken();
+                    return this.axiosInstance.request(config);
+                }
+
                 logError(`Portainer API Error: ${errorMessage}`);
                 if (config) {
                     const fullUrl = `${config.baseURL || ''}${config.url || ''}`;
@@ -74,25 +297,181 @@ export class PortainerAuth {
         );
     }
 
-    // Singleton instance to improve performance by reusing the same auth instance
+    // Default singleton instance configured from environment variables
     public static getInstance(): PortainerAuth {
         if (!PortainerAuth.instance) {
             const portainerUrl = process.env.PORTAINER_URL;
             const apiKey = process.env.PORTAINER_API_KEY;
-            if (!portainerUrl || !apiKey) {
-                throw new Error('PORTAINER_URL and PORTAINER_API_KEY must be defined in environment variables.');
+            const username = process.env.PORTAINER_USERNAME;
+            const password = process.env.PORTAINER_PASSWORD;
+
+            if (!portainerUrl || (!apiKey && !(username && password))) {
+                throw new Error('PORTAINER_URL and PORTAINER_API_KEY must be defined in environment variables. Alternatively, set PORTAINER_USERNAME and PORTAINER_PASSWORD instead of PORTAINER_API_KEY.');
             }
-            PortainerAuth.instance = new PortainerAuth(portainerUrl, apiKey);
+
+            const credentials: PortainerCredentials = apiKey ?
+                { apiKey } :
+                { username: username!, password: password! };
+
+            const tls = getTlsOptionsFromEnv();
+            const retry = getRetryOptionsFromEnv();
+            const scheduler = getSchedulerOptionsFromEnv();
+            const history = getHistoryStoreFromEnv();
+            const strict = process.env.PORTAINER_STRICT === 'true';
+
+            PortainerAuth.instance = new PortainerAuth({
+                url: portainerUrl,
+                ...credentials,
+                strict,
+                ...(tls ? { tls } : {}),
+                ...(retry ? { retry } : {}),
+                ...(scheduler ? { scheduler } : {}),
+                ...(history ? { history } : {}),
+            });
         }
         return PortainerAuth.instance;
     }
 
     /**
-     * Updates the Axios instance headers with the current API key.
+     * Whether this instance authenticates with username/password (JWT) instead of an API key.
+     */
+    private get usesPasswordLogin(): boolean {
+        return !('apiKey' in this.credentials);
+    }
+
+    /**
+     * Returns the scheduler slot held by a finished request, if it holds one.
+     * @param config - The config of the finished request.
+     */
+    private releaseSlot(config?: RetriableRequestConfig) {
+        if (config?._scheduled) {
+            config._scheduled = false;
+            this.scheduler?.release();
+        }
+    }
+
+    /**
+     * Updates the Axios instance headers with the current credentials.
+     * API keys are sent as-is; username/password sessions are attached per request once logged in.
+     * Setting the headers does not validate them, see `validate()`.
      */
     private updateAuthHeaders() {
-        this.axiosInstance.defaults.headers['X-API-Key'] = this.apiKey;
-        this.isValidated = true;
+        if ('apiKey' in this.credentials) {
+            this.axiosInstance.defaults.headers['X-API-Key'] = this.credentials.apiKey;
+        }
+    }
+
+    /**
+     * Verifies the connection and credentials against the Portainer server.
+     * Calls `/api/system/status` to check reachability and read the server version, then `/api/users/me`
+     * to check the credentials and record the authenticated user and role.
+     * @returns {Promise<PortainerValidationResult>} A promise that resolves to the user details, or the reason validation failed.
+     */
+    public async validate(): Promise<PortainerValidationResult> {
+        if (!this.validationPromise) {
+            this.validationPromise = this.runValidation().finally(() => {
+                this.validationPromise = null;
+            });
+        }
+        return this.validationPromise;
+    }
+
+    /**
+     * Returns whether the credentials are validated, running `validate()` first if they have not been yet.
+     * @returns {Promise<boolean>} A promise that resolves to true if the credentials are valid.
+     */
+    public async ensureValidated(): Promise<boolean> {
+        if (this.isValidated) {
+            return true;
+        }
+        const result = await this.validate();
+        return result.valid;
+    }
+
+    /**
+     * Performs the validation requests and records the result.
+     */
+    private async runValidation(): Promise<PortainerValidationResult> {
+        try {
+            const status = await this.axiosInstance.get<PortainerSystemStatus>('/api/system/status');
+            const serverVersion = status.data?.Version ?? null;
+
+            const me = await this.axiosInstance.get<PortainerUser>('/api/users/me');
+            const user = me.data;
+            const role: PortainerUserRole = user?.Role === 1 ? 'administrator' : user?.Role === 2 ? 'user' : 'unknown';
+
+            this.user = user;
+            this.role = role;
+            this.serverVersion = serverVersion;
+            this.isValidated = true;
+
+            logInfo(`Authenticated to Portainer ${serverVersion ?? '(unknown version)'} as "${user?.Username}" (${role}).`);
+            return { valid: true, user, role, serverVersion };
+        } catch (error) {
+            const reason = classifyValidationError(error);
+            const message = (error instanceof Error && error.message) || 'An unknown error occurred.';
+
+            this.isValidated = false;
+            this.user = null;
+            this.role = null;
+
+            logError(`Failed to validate Portainer connection (${reason}): ${message}`);
+            return { valid: false, reason, message };
+        }
+    }
+
+    /**
+     * Logs in to Portainer with the configured username and password and stores the returned JWT.
+     * Concurrent callers share the same login request.
+     * @returns {Promise<string>} A promise that resolves to the new JWT.
+     */
+    public async login(): Promise<string> {
+        if (!('username' in this.credentials)) {
+            throw new Error('login() requires username/password credentials; this instance uses an API key.');
+        }
+
+        if (!this.loginPromise) {
+            const { username, password } = this.credentials;
+            logInfo(`Logging in to Portainer as "${username}"...`);
+
+            this.loginPromise = this.axiosInstance
+                .post<PortainerAuthResponse>(AUTH_ENDPOINT, { username, password })
+                .then(response => {
+                    const token = response.data?.jwt;
+                    if (!token) {
+                        throw new Error('Portainer did not return a JWT for the provided credentials.');
+                    }
+                    this.jwt = token;
+                    this.jwtExpiresAt = getJwtExpiry(token);
+                    logInfo('Logged in to Portainer successfully.');
+                    return token;
+                })
+                .finally(() => {
+                    this.loginPromise = null;
+                });
+        }
+
+        return this.loginPromise;
+    }
+
+    /**
+     * Returns the current JWT, logging in first if there is none or it is about to expire.
+     * @returns {Promise<string>} A promise that resolves to a usable JWT.
+     */
+    private async getValidToken(): Promise<string> {
+        const expiresSoon = this.jwtExpiresAt !== null && Date.now() >= this.jwtExpiresAt - TOKEN_REFRESH_MARGIN_MS;
+        if (this.jwt && !expiresSoon) {
+            return this.jwt;
+        }
+        return this.login();
+    }
+
+    /**
+     * Forgets the current JWT so the next request logs in again.
+     */
+    private clearToken() {
+        this.jwt = null;
+        this.jwtExpiresAt = null;
     }
 
     /**
@@ -102,4 +481,4 @@ export class PortainerAuth {
     public get PortainerUrl(): string {
         return this.portainerUrl;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,221 @@
+import { ValidationError } from './errors.ts';
+import type { PortainerEnvironmentBundle, PortainerStackBundle } from './types.ts';
+
+const BLOCK_SIZE = 512;
+const COMPOSE_FILE = 'docker-compose.yml';
+
+/**
+ * Writes the bundle of a stack or an environment as JSON, or as a tar archive with a directory per stack
+ * holding its `stack.json` and `docker-compose.yml`, e.g. to inspect or edit the compose files by hand.
+ * @param bundle - The bundle from `exportStack()` or `exportEnvironment()`.
+ * @param format - Optional: `json` (default) or `tar`.
+ * @returns {string | Buffer} The JSON text, or the tar archive.
+ */
+export function serializeBundle(bundle: PortainerStackBundle | PortainerEnvironmentBundle, format: 'tar'): Buffer;
+export function serializeBundle(bundle: PortainerStackBundle | PortainerEnvironmentBundle, format?: 'json'): string;
+export function serializeBundle(bundle: PortainerStackBundle | PortainerEnvironmentBundle, format: 'json' | 'tar' = 'json'): string | Buffer {
+    if (format === 'json') {
+        return JSON.stringify(bundle, null, 2);
+    }
+
+    const mtime = Math.floor(bundle.exportedAt / 1000);
+    if (bundle.format === 'writetainer-stack') {
+        return writeTar(stackFiles(bundle, ''), mtime);
+    }
+
+    const { stacks, ...environment } = bundle;
+    return writeTar([
+        ['environment.json', JSON.stringify(environment, null, 2)],
+        ...stacks.flatMap(stack => stackFiles(stack, `stacks/${stack.name}/`))
+    ], mtime);
+}
+
+/**
+ * Reads a bundle written by `serializeBundle()`, telling JSON and tar archives apart by their content.
+ * @param data - The JSON text, or the JSON or tar archive as bytes.
+ * @returns {PortainerStackBundle | PortainerEnvironmentBundle} The bundle.
+ * @throws {ValidationError} If the data is not a valid bundle.
+ */
+export function parseBundle(data: string | Uint8Array): PortainerStackBundle | PortainerEnvironmentBundle {
+    const bytes = typeof data === 'string' ? undefined : Buffer.from(data);
+    const bundle = bytes && isTar(bytes) ? fromTar(readTar(bytes)) : parseJson(bytes ? bytes.toString('utf8') : data as string);
+
+    const invalid = bundle?.format === 'writetainer-environment'
+        ? validateEnvironmentBundle(bundle)
+        : validateStackBundle(bundle as PortainerStackBundle);
+    if (invalid) {
+        throw invalid;
+    }
+    return bundle;
+}
+
+/**
+ * Checks a stack bundle, returning the problem found if any.
+ */
+export function validateStackBundle(bundle: PortainerStackBundle): ValidationError | undefined {
+    if (!bundle || typeof bundle !== 'object' || bundle.format !== 'writetainer-stack') {
+        return new ValidationError('Invalid bundle: not a stack bundle');
+    }
+
+    if (bundle.version !== 1) {
+        return new ValidationError(`Invalid bundle: version ${bundle.version} is not supported`);
+    }
+
+    if (!bundle.name || typeof bundle.name !== 'string' || typeof bundle.compose !== 'string' || !bundle.compose.trim()) {
+        return new ValidationError('Invalid bundle: the stack name and compose content are required');
+    }
+
+    if (bundle.type !== 'standalone' && bundle.type !== 'swarm') {
+        return new ValidationError(`Invalid bundle of stack "${bundle.name}": type must be "standalone" or "swarm"`);
+    }
+
+    if (!bundle.env || typeof bundle.env !== 'object' || !Object.values(bundle.env).every(value => typeof value === 'string')) {
+        return new ValidationError(`Invalid bundle of stack "${bundle.name}": env must map variable names to strings`);
+    }
+}
+
+/**
+ * Checks an environment bundle and every stack in it, returning the first problem found.
+ */
+export function validateEnvironmentBundle(bundle: PortainerEnvironmentBundle): ValidationError | undefined {
+    if (!bundle || typeof bundle !== 'object' || bundle.format !== 'writetainer-environment') {
+        return new ValidationError('Invalid bundle: not an environment bundle');
+    }
+
+    if (bundle.version !== 1) {
+        return new ValidationError(`Invalid bundle: version ${bundle.version} is not supported`);
+    }
+
+    if (!Array.isArray(bundle.stacks)) {
+        return new ValidationError('Invalid bundle: stacks must be an array');
+    }
+
+    for (const stack of bundle.stacks) {
+        const invalid = validateStackBundle(stack);
+        if (invalid) {
+            return invalid;
+        }
+    }
+}
+
+function parseJson(text: string): PortainerStackBundle | PortainerEnvironmentBundle {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new ValidationError(`Invalid bundle: ${(error as Error).message}`, { cause: error });
+    }
+}
+
+/**
+ * Splits a stack bundle into its metadata and its compose file, so the compose file stays readable in the archive.
+ */
+function stackFiles(bundle: PortainerStackBundle, directory: string): Array<[string, string]> {
+    const { compose, ...stack } = bundle;
+    return [
+        [`${directory}stack.json`, JSON.stringify(stack, null, 2)],
+        [`${directory}${COMPOSE_FILE}`, compose]
+    ];
+}
+
+function fromTar(files: Map<string, string>): PortainerStackBundle | PortainerEnvironmentBundle {
+    const readStack = (directory: string): PortainerStackBundle => {
+        const stack = files.get(`${directory}stack.json`);
+        if (stack === undefined) {
+            throw new ValidationError(`Invalid bundle: ${directory}stack.json is missing`);
+        }
+        return { ...parseJson(stack), compose: files.get(`${directory}${COMPOSE_FILE}`) ?? '' } as PortainerStackBundle;
+    };
+
+    const environment = files.get('environment.json');
+    if (environment === undefined) {
+        return readStack('');
+    }
+
+    const directories = [...files.keys()]
+        .map(path => /^(stacks\/[^/]+\/)stack\.json$/.exec(path)?.[1])
+        .filter((directory): directory is string => directory !== undefined);
+    return { ...parseJson(environment), stacks: directories.map(readStack) } as PortainerEnvironmentBundle;
+}
+
+function isTar(bytes: Buffer): boolean {
+    return bytes.length >= BLOCK_SIZE && bytes.toString('latin1', 257, 262) === 'ustar';
+}
+
+/**
+ * Splits a path into the prefix and name fields of a ustar header, which hold up to 155 and 100 bytes.
+ * Paths that fit the name field are not split.
+ */
+function splitTarPath(path: string): { prefix: string; name: string } {
+    if (Buffer.byteLength(path) <= 100) {
+        return { prefix: '', name: path };
+    }
+
+    for (let slash = path.indexOf('/'); slash !== -1; slash = path.indexOf('/', slash + 1)) {
+        const prefix = path.slice(0, slash);
+        const name = path.slice(slash + 1);
+        if (Buffer.byteLength(prefix) <= 155 && name && Buffer.byteLength(name) <= 100) {
+            return { prefix, name };
+        }
+    }
+    throw new ValidationError(`Cannot archive ${path}: the path does not fit a tar header`);
+}
+
+/**
+ * Writes regular files into a POSIX (ustar) tar archive.
+ */
+function writeTar(files: Array<[string, string]>, mtime: number): Buffer {
+    const blocks: Buffer[] = [];
+
+    for (const [path, content] of files) {
+        const { prefix, name } = splitTarPath(path);
+        const data = Buffer.from(content, 'utf8');
+        const header = Buffer.alloc(BLOCK_SIZE);
+        header.write(name, 0, 100, 'utf8');
+        header.write('0000644\0', 100, 'latin1');                                   // mode
+        header.write('0000000\0', 108, 'latin1');                                   // uid
+        header.write('0000000\0', 116, 'latin1');                                   // gid
+        header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124, 'latin1');
+        header.write(`${mtime.toString(8).padStart(11, '0')}\0`, 136, 'latin1');
+        header.write('        ', 148, 'latin1');                                    // checksum, counted as spaces
+        header.write('0', 156, 'latin1');                                           // regular file
+        header.write('ustar\0' + '00', 257, 'latin1');
+        header.write(prefix, 345, 155, 'utf8');
+
+        const checksum = header.reduce((sum, byte) => sum + byte, 0);
+        header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'latin1');
+
+        blocks.push(header, data, Buffer.alloc((BLOCK_SIZE - data.length % BLOCK_SIZE) % BLOCK_SIZE));
+    }
+
+    // Two empty blocks end the archive
+    blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+    return Buffer.concat(blocks);
+}
+
+/**
+ * Reads the regular files of a tar archive by path.
+ */
+function readTar(archive: Buffer): Map<string, string> {
+    const files = new Map<string, string>();
+    const field = (header: Buffer, start: number, length: number) => header.toString('utf8', start, start + length).replace(/\0.*$/s, '');
+
+    let offset = 0;
+    while (offset + BLOCK_SIZE <= archive.length) {
+        const header = archive.subarray(offset, offset + BLOCK_SIZE);
+        if (header.every(byte => byte === 0)) {
+            break;
+        }
+
+        const name = field(header, 0, 100);
+        const prefix = field(header, 345, 155);
+        const size = parseInt(field(header, 124, 12).trim() || '0', 8);
+        const type = field(header, 156, 1);
+        offset += BLOCK_SIZE;
+
+        if (type === '0' || type === '') {
+            files.set(prefix ? `${prefix}/${name}` : name, archive.toString('utf8', offset, offset + size));
+        }
+        offset += Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+    }
+    return files;
+}
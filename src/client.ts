@@ -0,0 +1,43 @@
+import { PortainerApi } from "./api.ts";
+import { PortainerAuth, type PortainerAuthOptions } from "./auth.ts";
+import { PortainerControlApi } from "./controls.ts";
+import { PortainerFactory } from "./factory.ts";
+
+/**
+ * Options for creating an independent Portainer client.
+ * @property url - The URL of the Portainer instance.
+ * @property apiKey - The API key for authentication (or `username`/`password`).
+ * @property environmentId - Optional: The default environment ID used by the client.
+ * @property environmentName - Optional: The default environment by name, used when no `environmentId` is given.
+ */
+export type PortainerClientOptions = PortainerAuthOptions & {
+    environmentId?: number | null;
+    environmentName?: string | null;
+};
+
+/**
+ * A set of clients bound to a single Portainer instance.
+ * All members share the same auth (and therefore the same axios instance and session).
+ */
+export interface PortainerClient {
+    auth: PortainerAuth;
+    api: PortainerApi;
+    controls: PortainerControlApi;
+    factory: PortainerFactory;
+}
+
+/**
+ * Creates a client for a Portainer instance that is independent of the environment-configured singletons.
+ * Use this to manage several Portainer servers from the same process.
+ * @param options - The Portainer URL, credentials and optional default environment ID or name.
+ * @returns {PortainerClient} The auth, API, controls and factory instances for that Portainer server.
+ */
+export function createClient(options: PortainerClientOptions): PortainerClient {
+    const environment = options.environmentId ?? options.environmentName ?? null;
+    const auth = new PortainerAuth(options);
+    const api = new PortainerApi(environment, auth);
+    const controls = new PortainerControlApi(environment, auth);
+    const factory = new PortainerFactory(environment, api);
+
+    return { auth, api, controls, factory };
+}
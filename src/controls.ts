@@ -1,27 +1,37 @@
 import { PortainerAuth } from "./auth.ts";
 import { ContainerControlsMixin } from "./mixins/ContainerControlsMixin.ts";
 import { EnvironmentsMixin } from "./mixins/EnvironmentMixins.ts";
+import { EnvironmentHealthMixin } from "./mixins/EnvironmentHealthMixin.ts";
 import { ResourceFetchingMixin } from "./mixins/ResourceFetchingMixin.ts";
 import { ShellControlsMixin } from "./mixins/ShellControlsMixin.ts";
 import { StackControlsMixin } from "./mixins/StackControlsMixin.ts";
+import { GitStacksMixin } from "./mixins/GitStacksMixin.ts";
 
 class PortainerControls {
     auth: PortainerAuth;
     environmentId: number | null = null; // Environment ID, can be null on init but must be defined when used
+    environmentName: string | null = null; // Default environment name, resolved to an ID on first use
+    scoped: boolean = false; // Set on views returned by forEnvironment(), which only see their environment's stacks
     constructor(
-        environmentId: number | null = null
+        environment: number | string | null = null,
+        auth?: PortainerAuth
     ) {
-        this.environmentId = environmentId;
-        this.auth = PortainerAuth.getInstance();
+        this.environmentId = typeof environment === 'number' ? environment : null;
+        this.environmentName = typeof environment === 'string' ? environment : null;
+        this.auth = auth ?? PortainerAuth.getInstance();
     }
 }
 
 const ControlsStack = ShellControlsMixin(
     ContainerControlsMixin(
-        StackControlsMixin(
-            ResourceFetchingMixin(
-                EnvironmentsMixin(
-                    PortainerControls
+        GitStacksMixin(
+            StackControlsMixin(
+                ResourceFetchingMixin(
+                    EnvironmentHealthMixin(
+                        EnvironmentsMixin(
+                            PortainerControls
+                        )
+                    )
                 )
             )
         )
@@ -30,16 +40,17 @@ const ControlsStack = ShellControlsMixin(
 
 class PortainerControlApi extends ControlsStack {
     public static instance: PortainerControlApi;
-    private constructor(
-        environmentId: number | null = null
+    public constructor(
+        environment: number | string | null = null,
+        auth?: PortainerAuth
     ) {
-        super(environmentId);
+        super(environment, auth);
     }
     public static getInstance(
-        environmentId: number | null = null
+        environment: number | string | null = null
     ): PortainerControlApi {
         if (!PortainerControlApi.instance) {
-            PortainerControlApi.instance = new PortainerControlApi(environmentId);
+            PortainerControlApi.instance = new PortainerControlApi(environment ?? (process.env.PORTAINER_ENVIRONMENT_NAME || null));
         }
         return PortainerControlApi.instance;
     }
@@ -0,0 +1,200 @@
+import axios from 'axios';
+import { logError } from '../logger.ts';
+
+/**
+ * Request details attached to a PortainerError.
+ * @property status - Optional: The HTTP status code returned by Portainer.
+ * @property endpoint - Optional: The API path that was called.
+ * @property method - Optional: The HTTP method that was used.
+ * @property body - Optional: The error body returned by Portainer.
+ * @property cause - Optional: The underlying error.
+ */
+export interface PortainerErrorDetails {
+    status?: number | null;
+    endpoint?: string | null;
+    method?: string | null;
+    body?: unknown;
+    cause?: unknown;
+}
+
+/**
+ * Base class for all errors raised by the library.
+ */
+export class PortainerError extends Error {
+    public readonly status: number | null;
+    public readonly endpoint: string | null;
+    public readonly method: string | null;
+    public readonly body: unknown;
+
+    constructor(message: string, details: PortainerErrorDetails = {}) {
+        super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+        this.name = new.target.name;
+        this.status = details.status ?? null;
+        this.endpoint = details.endpoint ?? null;
+        this.method = details.method ?? null;
+        this.body = details.body;
+    }
+}
+
+/** The requested resource (stack, container, environment, ...) does not exist. */
+export class NotFoundError extends PortainerError {}
+
+/** The credentials were rejected or lack the required permissions. */
+export class AuthError extends PortainerError {}
+
+/** The request conflicts with the current state, e.g. a stack with that name already exists. */
+export class ConflictError extends PortainerError {}
+
+/** The arguments were invalid, either locally or according to Portainer. */
+export class ValidationError extends PortainerError {}
+
+/** Portainer or the environment (Docker host) behind it could not be reached. */
+export class EnvironmentUnavailableError extends PortainerError {}
+
+/** The operation did not finish in time. */
+export class TimeoutError extends PortainerError {}
+
+/** The operation was cancelled through its `signal`. */
+export class AbortError extends PortainerError {}
+
+const TIMEOUT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+/**
+ * Builds a readable message from a Portainer error body (`{ message, details }`).
+ */
+function getBodyMessage(body: unknown): string | null {
+    if (typeof body === 'string' && body.trim()) {
+        return body.trim();
+    }
+
+    if (body && typeof body === 'object') {
+        const { message, details } = body as { message?: unknown; details?: unknown };
+        if (typeof message === 'string' && message) {
+            return typeof details === 'string' && details && details !== message ? `${message}: ${details}` : message;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Whether the value is a cancellation: an aborted request, an abort/timeout signal reason,
+ * or the AbortError/TimeoutError they were converted to.
+ * @param error - The thrown value.
+ * @returns {boolean} True if the operation was cancelled through its `signal` or `timeoutMs`.
+ */
+export function isCancellation(error: unknown): boolean {
+    if (error instanceof AbortError) {
+        return true;
+    }
+
+    if (error instanceof TimeoutError) {
+        return isCancellation(error.cause);
+    }
+
+    if (axios.isCancel(error)) {
+        return true;
+    }
+
+    const name = (error as { name?: unknown } | null)?.name;
+    return error instanceof Error && !(error instanceof PortainerError) && !axios.isAxiosError(error) &&
+        (name === 'AbortError' || name === 'TimeoutError');
+}
+
+/**
+ * Converts a cancellation into an AbortError, or a TimeoutError when a `timeoutMs` deadline caused it.
+ */
+function toCancellationError(error: unknown, withContext: (message: string) => string): PortainerError {
+    // Axios reports aborted requests as CanceledError; the signal holds the actual reason
+    const reason = axios.isCancel(error) ?
+        ((error as { config?: { signal?: { reason?: unknown } } }).config?.signal?.reason ?? error) :
+        error;
+    const details: PortainerErrorDetails = { cause: reason };
+
+    if ((reason as { name?: unknown } | null)?.name === 'TimeoutError') {
+        return new TimeoutError(withContext('The operation timed out'), details);
+    }
+    return new AbortError(withContext('The operation was aborted'), details);
+}
+
+/**
+ * Converts any thrown value into the matching PortainerError subclass.
+ * Axios errors are mapped by HTTP status: 404 NotFound, 401/403 Auth, 409 Conflict, 400/422 Validation,
+ * 502/503/504 or no response EnvironmentUnavailable, and request timeouts to TimeoutError.
+ * Cancelled calls become an AbortError, or a TimeoutError when their `timeoutMs` passed.
+ * @param error - The thrown value.
+ * @param context - Optional: What was being done, prefixed to the message (e.g. "Failed to fetch stacks").
+ * @returns {PortainerError} The converted error; PortainerErrors are returned unchanged.
+ */
+export function toPortainerError(error: unknown, context?: string): PortainerError {
+    if (error instanceof PortainerError) {
+        return error;
+    }
+
+    const withContext = (message: string) => context ? `${context}: ${message}` : message;
+
+    if (isCancellation(error)) {
+        return toCancellationError(error, withContext);
+    }
+
+    if (axios.isAxiosError(error)) {
+        const status = error.response?.status ?? null;
+        const body = error.response?.data;
+        const details: PortainerErrorDetails = {
+            status,
+            endpoint: error.config?.url ?? null,
+            method: error.config?.method?.toUpperCase() ?? null,
+            body,
+            cause: error,
+        };
+        const message = withContext(getBodyMessage(body) ?? error.message);
+
+        if (!error.response) {
+            if (TIMEOUT_ERROR_CODES.includes(error.code ?? '')) {
+                return new TimeoutError(message, details);
+            }
+            return new EnvironmentUnavailableError(message, details);
+        }
+
+        switch (status) {
+            case 400:
+            case 422:
+                return new ValidationError(message, details);
+            case 401:
+            case 403:
+                return new AuthError(message, details);
+            case 404:
+                return new NotFoundError(message, details);
+            case 409:
+                return new ConflictError(message, details);
+            case 408:
+            case 504:
+                return new TimeoutError(message, details);
+            case 502:
+            case 503:
+                return new EnvironmentUnavailableError(message, details);
+            default:
+                return new PortainerError(message, details);
+        }
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new PortainerError(withContext(message), { cause: error });
+}
+
+/**
+ * Logs a failed operation. In strict mode the error is then thrown; otherwise the fallback
+ * (`undefined`, `false`, `null`, ...) is returned so existing callers keep working.
+ * Cancellations (`signal` or `timeoutMs`) are always thrown, since the caller asked for them.
+ * @param strict - Whether strict mode is enabled for the client.
+ * @param error - The error describing the failure.
+ * @param fallback - The value to return outside strict mode.
+ * @returns {T} The fallback value.
+ */
+export function handleFailure<T>(strict: boolean | undefined, error: PortainerError, fallback: T): T {
+    logError(error.message);
+    if (strict || isCancellation(error)) {
+        throw error;
+    }
+    return fallback;
+}
@@ -1,26 +1,113 @@
 import { PortainerApi } from "./api.ts";
 import { getStackByName, verifyContainerCreation, verifyStackCreation } from "./utils.ts";
-import { logInfo, logWarn, logError } from "../logger.ts";
+import { logInfo, logWarn } from "../logger.ts";
+import { ConflictError, EnvironmentUnavailableError, PortainerError, TimeoutError, ValidationError, handleFailure, isCancellation, toPortainerError } from "./errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "./request.ts";
+import { toAutoUpdatePayload, toGitAuthPayload, validateGitSettings } from "./git.ts";
+import { diffEnv, diffLines, loadStackManifest, normalizeCompose } from "./manifest.ts";
+import { parseBundle, validateEnvironmentBundle, validateStackBundle } from "./bundle.ts";
+import { SWARM_STACK, isValidEnv, toEnvVars } from "./stacks.ts";
+import type {
+    PortainerApplyOptions,
+    PortainerApplyResult,
+    PortainerEnvironmentBundle,
+    PortainerEnvironmentImportResult,
+    PortainerGitStackOptions,
+    PortainerPlanOptions,
+    PortainerStack,
+    PortainerStackBundle,
+    PortainerStackDeploymentType,
+    PortainerStackExportOptions,
+    PortainerStackImportOptions,
+    PortainerStackManifest,
+    PortainerStackPlan,
+    PortainerStackPlanStep
+} from "./types.ts";
+
+/**
+ * Checks where a bundle is to be imported, returning the problem found if any.
+ */
+function validateImportTarget(environmentId?: number, nameOverride?: string): ValidationError | undefined {
+    if (environmentId !== undefined && (!Number.isInteger(environmentId) || environmentId <= 0)) {
+        return new ValidationError('Invalid environmentId: must be a positive integer');
+    }
+
+    if (nameOverride !== undefined && (typeof nameOverride !== 'string' || !nameOverride.trim())) {
+        return new ValidationError('Invalid nameOverride: must be a non-empty string');
+    }
+}
+
+/**
+ * Checks a manifest before anything is fetched, returning the first problem found.
+ */
+function validateManifest(manifest: PortainerStackManifest): ValidationError | undefined {
+    if (!manifest || typeof manifest !== 'object' || !Array.isArray(manifest.stacks)) {
+        return new ValidationError('Invalid manifest: must be an object with a "stacks" array');
+    }
+
+    for (const [index, stack] of manifest.stacks.entries()) {
+        if (!stack || typeof stack !== 'object') {
+            return new ValidationError(`Invalid manifest stack ${index}: must be an object`);
+        }
+
+        if (!stack.name || typeof stack.name !== 'string') {
+            return new ValidationError(`Invalid manifest stack ${index}: name must be a non-empty string`);
+        }
+
+        const validId = typeof stack.environment === 'number' && Number.isInteger(stack.environment) && stack.environment > 0;
+        const validName = typeof stack.environment === 'string' && stack.environment.trim() !== '';
+        if (!validId && !validName) {
+            return new ValidationError(`Invalid manifest stack "${stack.name}": environment must be a positive integer ID or a non-empty name`);
+        }
+
+        if (typeof stack.compose !== 'string' || !stack.compose.trim()) {
+            return new ValidationError(`Invalid manifest stack "${stack.name}": compose must be a non-empty string`);
+        }
+
+        if (stack.env !== undefined && !isValidEnv(stack.env)) {
+            return new ValidationError(`Invalid manifest stack "${stack.name}": env must map variable names to strings`);
+        }
+
+        if (stack.type !== undefined && stack.type !== 'standalone' && stack.type !== 'swarm') {
+            return new ValidationError(`Invalid manifest stack "${stack.name}": type must be "standalone" or "swarm"`);
+        }
+    }
+}
 
 export class PortainerFactory {
     public static instance: PortainerFactory;
     private portainerClient: PortainerApi;
 
-    private constructor(
-        environmentId: number | null = null
+    /**
+     * Constructor for PortainerFactory
+     * @param environment - Optional: The default environment ID or name, ignored when a client is given
+     * @param portainerClient - Optional: The API client to create resources with, defaults to the singleton
+     */
+    public constructor(
+        environment: number | string | null = null,
+        portainerClient?: PortainerApi
     ) {
-        this.portainerClient = PortainerApi.getInstance(environmentId);
+        this.portainerClient = portainerClient ?? PortainerApi.getInstance(environment);
     }
 
     public static getInstance(
-        environmentId: number | null = null
+        environment: number | string | null = null
     ): PortainerFactory {
         if (!PortainerFactory.instance) {
-            PortainerFactory.instance = new PortainerFactory(environmentId);
+            PortainerFactory.instance = new PortainerFactory(environment);
         }
         return PortainerFactory.instance;
     }
 
+    /**
+     * Returns a factory that creates resources in the given environment, see `PortainerApi.forEnvironment()`.
+     * @param environment - The ID or name of the environment.
+     * @returns {PortainerFactory} A factory bound to the environment.
+     */
+    public forEnvironment(environment: number | string): PortainerFactory {
+        return new PortainerFactory(null, this.portainerClient.forEnvironment(environment));
+    }
+
     /**
      * Creates a stack based on a given compose format
      * Valid for Portainer API >2.19.x
@@ -29,30 +116,31 @@ export class PortainerFactory {
      * @param stackData.ComposeFile - The Docker compose file as a single string, must be valid Docker notation
      * @param stackData.Env - Optional: An array of objects with a string key and string value. Can be omitted if none are present.
      * @param stackData.FromAppTemplate - Optional: Marks if current stack should be an app template.
+     * @param stackData.Type - Optional: "swarm" to deploy a Swarm stack, defaults to "standalone" (Docker Compose).
+     * @param stackData.SwarmID - Optional: The Swarm cluster ID for Swarm stacks, detected from the environment when omitted.
      * @param maxRetryCount - Optional: Number of times to retry making the stack if creation fails
      * @param timeoutMs - Optional: Time between each retry attempt (in ms)
+     * @param options - Optional: Cancellation options (`signal`, `timeoutMs` for the whole call, including verification).
      * @returns {Promise<Record<string, unknown>> | undefined} - A promise that resolves to the created stack object or undefined on failure.
      */
-    public async createStack(stackData: Record<string, unknown>, maxRetryCount?: number, timeoutMs?: number): Promise<Record<string, unknown> | undefined> {
+    public async createStack(stackData: Record<string, unknown>, maxRetryCount?: number, timeoutMs?: number, options?: PortainerRequestOptions): Promise<Record<string, unknown> | undefined> {
+        const request = withDeadline(options);
+
         if (!stackData || typeof stackData !== 'object' || Array.isArray(stackData)) {
-            logError('Invalid stackData: must be a non-null object');
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid stackData: must be a non-null object'), undefined);
         }
 
         if (maxRetryCount !== undefined && maxRetryCount !== null && (typeof maxRetryCount !== 'number' || isNaN(maxRetryCount))) {
-            logError('Invalid maxRetryCount: must be a number');
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid maxRetryCount: must be a number'), undefined);
         }
 
         if (timeoutMs !== undefined && timeoutMs !== null && (typeof timeoutMs !== 'number' || isNaN(timeoutMs))) {
-            logError('Invalid timeoutMs: must be a number');
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid timeoutMs: must be a number'), undefined);
         }
 
         const envCheck = await this.portainerClient.ensureEnvId();
         if (envCheck === null) {
-            logError('Environment ID is required to create a stack.');
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, new EnvironmentUnavailableError('Environment ID is required to create a stack.'), undefined);
         }
 
 
@@ -76,12 +164,16 @@ export class PortainerFactory {
         const composeContent = (stackData.ComposeFile) as string;
 
         if (!stackName || !composeContent) {
-            logError('Stack name and compose content are required');
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Stack name and compose content are required'), undefined);
+        }
+
+        const deploymentType = stackData.Type ?? 'standalone';
+        if (deploymentType !== 'standalone' && deploymentType !== 'swarm') {
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid Type: must be "standalone" or "swarm"'), undefined);
         }
 
         // Make sure the stack doesn't already exist
-        const existingStack = await getStackByName(stackName);
+        const existingStack = await getStackByName(stackName, this.portainerClient, request);
         if (existingStack) {
             logWarn(`Stack with name "${stackName}" already exists (ID: ${existingStack.Id}). Skipping creation.`);
             return existingStack as unknown as Record<string, unknown>;
@@ -91,7 +183,11 @@ export class PortainerFactory {
 
         // If no env id, return an error
         if (envId === null || typeof envId !== "number") {
-            logError("Environment ID is undefined or the wrong type when creating a stack.");
+            return handleFailure(this.portainerClient.auth.strict, new EnvironmentUnavailableError("Environment ID is undefined or the wrong type when creating a stack."), undefined);
+        }
+
+        const swarmId = deploymentType === 'swarm' ? await this.resolveSwarmId(stackData.SwarmID, envId, request) : undefined;
+        if (deploymentType === 'swarm' && !swarmId) {
             return undefined;
         }
 
@@ -99,28 +195,546 @@ export class PortainerFactory {
             for (let i = 0; i < maxRetryCount; i++) {
                 const payload = {
                     Name: stackName,
+                    ...(swarmId ? { SwarmID: swarmId } : {}),
                     StackFileContent: composeContent,
                     Env: stackData.Env || []
                 };
 
                 const response = await this.portainerClient.auth.axiosInstance.post(
-                    `/api/stacks/create/standalone/string?endpointId=${envId}&type=2`,
-                    payload
+                    swarmId ? `/api/stacks/create/swarm/string?endpointId=${envId}` : `/api/stacks/create/standalone/string?endpointId=${envId}&type=2`,
+                    payload,
+                    requestConfig(request)
                 );
 
                 logInfo(`Stack created, waiting ${timeoutMs} milliseconds (${timeoutMs / 1000} seconds) for verification.`)
 
-                if (!await verifyStackCreation(stackName, timeoutMs)) {
+                if (!await verifyStackCreation(stackName, timeoutMs, this.portainerClient, request)) {
                     logWarn(`Stack verification attempt ${i} / ${maxRetryCount} failed, retrying...`)
                 } else {
                     return response.data;
                 }
             }
-            return {};
         } catch (error) {
-            logError('Failed to create stack:', error);
+            return handleFailure(this.portainerClient.auth.strict, toPortainerError(error, 'Failed to create stack'), undefined);
+        }
+
+        return handleFailure(
+            this.portainerClient.auth.strict,
+            new TimeoutError(`Stack "${stackName}" could not be verified after ${maxRetryCount} attempts.`),
+            undefined
+        );
+    }
+
+    /**
+     * Returns the given Swarm ID, or detects it from the environment's Docker host.
+     */
+    private async resolveSwarmId(swarmId: unknown, envId: number, request: PortainerRequestOptions): Promise<string | undefined> {
+        if (swarmId !== undefined) {
+            if (typeof swarmId !== 'string' || !swarmId) {
+                return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid SwarmID: must be a non-empty string'), undefined);
+            }
+            return swarmId;
+        }
+
+        logInfo(`Detecting the Swarm ID of environment ${envId}...`);
+        return this.portainerClient.getSwarmId(envId, request);
+    }
+
+    /**
+     * Creates a stack from a compose file in a Git repository.
+     * Portainer clones the repository and deploys the stack before it answers; it can then keep the stack
+     * in sync by polling the repository or through a webhook, see `autoUpdate`.
+     * Valid for Portainer API >2.19.x
+     * @param stackData - The name, repository, reference, compose path, credentials, additional files, auto-update and environment variables of the stack.
+     * @param timeoutMs - Optional: How long to wait for the stack to show up after creation (in ms), defaults to 5000
+     * @param options - Optional: Cancellation options (`signal`, `timeoutMs` for the whole call, including verification).
+     * @returns {Promise<PortainerStack | undefined>} - A promise that resolves to the created stack or undefined on failure.
+     */
+    public async createStackFromGit(stackData: PortainerGitStackOptions, timeoutMs: number = 5000, options?: PortainerRequestOptions): Promise<PortainerStack | undefined> {
+        const request = withDeadline(options);
+        const strict = this.portainerClient.auth.strict;
+
+        if (!stackData || typeof stackData !== 'object' || Array.isArray(stackData)) {
+            return handleFailure(strict, new ValidationError('Invalid stackData: must be a non-null object'), undefined);
+        }
+
+        if (!stackData.name || typeof stackData.name !== 'string') {
+            return handleFailure(strict, new ValidationError('Invalid name: must be a non-empty string'), undefined);
+        }
+
+        if (!stackData.repositoryUrl || typeof stackData.repositoryUrl !== 'string') {
+            return handleFailure(strict, new ValidationError('Invalid repositoryUrl: must be a non-empty string'), undefined);
+        }
+
+        if (stackData.additionalFiles !== undefined && (!Array.isArray(stackData.additionalFiles) || !stackData.additionalFiles.every(file => typeof file === 'string' && file))) {
+            return handleFailure(strict, new ValidationError('Invalid additionalFiles: must be an array of file paths'), undefined);
+        }
+
+        const invalid = validateGitSettings(stackData.credentials, stackData.autoUpdate);
+        if (invalid) {
+            return handleFailure(strict, invalid, undefined);
+        }
+
+        const deploymentType = stackData.type ?? 'standalone';
+        if (deploymentType !== 'standalone' && deploymentType !== 'swarm') {
+            return handleFailure(strict, new ValidationError('Invalid type: must be "standalone" or "swarm"'), undefined);
+        }
+
+        if (typeof timeoutMs !== 'number' || isNaN(timeoutMs) || timeoutMs < 0) {
+            logWarn("timeoutMs is an invalid number, setting it to default value of 5000 ms.");
+            timeoutMs = 5000;
+        }
+
+        const envId = await this.portainerClient.ensureEnvId();
+        if (envId === null) {
+            return handleFailure(strict, new EnvironmentUnavailableError('Environment ID is required to create a stack.'), undefined);
+        }
+
+        // Make sure the stack doesn't already exist
+        const existingStack = await getStackByName(stackData.name, this.portainerClient, request);
+        if (existingStack) {
+            logWarn(`Stack with name "${stackData.name}" already exists (ID: ${existingStack.Id}). Skipping creation.`);
+            return existingStack;
+        }
+
+        const swarmId = deploymentType === 'swarm' ? await this.resolveSwarmId(stackData.swarmId, envId, request) : undefined;
+        if (deploymentType === 'swarm' && !swarmId) {
+            return undefined;
+        }
+
+        try {
+            logInfo(`Creating stack "${stackData.name}" from ${stackData.repositoryUrl}...`);
+            const response = await this.portainerClient.auth.axiosInstance.post<PortainerStack>(
+                `/api/stacks/create/${deploymentType}/repository?endpointId=${envId}`,
+                {
+                    Name: stackData.name,
+                    ...(swarmId ? { SwarmID: swarmId } : {}),
+                    RepositoryURL: stackData.repositoryUrl,
+                    RepositoryReferenceName: stackData.reference ?? 'refs/heads/main',
+                    ComposeFile: stackData.composePath ?? 'docker-compose.yml',
+                    AdditionalFiles: stackData.additionalFiles ?? [],
+                    ...toGitAuthPayload(stackData.credentials),
+                    AutoUpdate: toAutoUpdatePayload(stackData.autoUpdate),
+                    Env: stackData.env ?? [],
+                    TLSSkipVerify: stackData.tlsSkipVerify ?? false,
+                },
+                requestConfig(request)
+            );
+
+            if (!await verifyStackCreation(stackData.name, timeoutMs, this.portainerClient, request)) {
+                return handleFailure(strict, new TimeoutError(`Stack "${stackData.name}" could not be verified within ${timeoutMs} ms.`), undefined);
+            }
+
+            logInfo(`Stack "${stackData.name}" deployed at commit ${response.data.GitConfig?.ConfigHash ?? 'unknown'}`);
+            return response.data;
+        } catch (error) {
+            return handleFailure(strict, toPortainerError(error, `Failed to create stack "${stackData.name}" from Git`), undefined);
+        }
+    }
+
+    /**
+     * Compares a manifest of stacks with what is deployed and works out what `apply()` would do for each stack.
+     * Compose files are compared without trailing whitespace; stacks are matched by name within their environment.
+     * Stacks deployed from Git cannot be managed by a manifest.
+     * Variable values are masked in the env diffs unless `showValues` is set; the steps still carry the values to deploy.
+     * @param manifest - The stacks that should exist, or the path of a JSON manifest file, see `loadStackManifest()`.
+     * @param options - Optional: Whether to `showValues` in env diffs, and request options (`signal`, `timeoutMs`, `priority`).
+     * @returns {Promise<PortainerStackPlan | undefined>} A promise that resolves to the plan, with a diff for every stack.
+     */
+    public async plan(manifest: PortainerStackManifest | string, options?: PortainerPlanOptions): Promise<PortainerStackPlan | undefined> {
+        const { showValues, ...requestOptions } = options ?? {};
+        const request = withDeadline(requestOptions);
+        const strict = this.portainerClient.auth.strict;
+
+        let desired: PortainerStackManifest;
+        if (typeof manifest === 'string') {
+            try {
+                desired = await loadStackManifest(manifest);
+            } catch (error) {
+                return handleFailure(strict, toPortainerError(error), undefined);
+            }
+        } else {
+            desired = manifest;
+        }
+
+        const invalid = validateManifest(desired);
+        if (invalid) {
+            return handleFailure(strict, invalid, undefined);
+        }
+
+        // Resolve every environment once, then fetch the stacks of each
+        const environmentIds = new Map<number | string, number>();
+        for (const { environment } of desired.stacks) {
+            if (environmentIds.has(environment)) {
+                continue;
+            }
+
+            const resolved = typeof environment === 'number' ? environment : (await this.portainerClient.getEnvironmentByName(environment, request))?.Id;
+            if (resolved === undefined) {
+                return undefined;
+            }
+            environmentIds.set(environment, resolved);
+        }
+
+        const deployed = new Map<number, PortainerStack[]>();
+        for (const environmentId of new Set(environmentIds.values())) {
+            const stacks = await this.portainerClient.forEnvironment(environmentId).getStacks(request);
+            if (!stacks) {
+                return undefined;
+            }
+            deployed.set(environmentId, stacks);
+        }
+
+        const steps: PortainerStackPlanStep[] = [];
+        const listed = new Set<string>();
+        for (const entry of desired.stacks) {
+            const environmentId = environmentIds.get(entry.environment)!;
+            const key = `${environmentId}/${entry.name}`;
+            if (listed.has(key)) {
+                return handleFailure(strict, new ValidationError(`Stack "${entry.name}" is listed more than once for environment ${environmentId}`), undefined);
+            }
+            listed.add(key);
+
+            const compose = entry.compose!;
+            const env = entry.env ?? {};
+            const existing = deployed.get(environmentId)!.find(stack => stack.Name === entry.name);
+
+            if (!existing) {
+                steps.push({
+                    action: 'create',
+                    name: entry.name,
+                    environmentId,
+                    compose,
+                    env,
+                    type: entry.type ?? 'standalone',
+                    diff: { compose: diffLines('', normalizeCompose(compose)), env: diffEnv({}, env, showValues) }
+                });
+                continue;
+            }
+
+            if (existing.GitConfig) {
+                return handleFailure(strict, new ValidationError(`Stack "${entry.name}" in environment ${environmentId} is deployed from Git; use redeployGitStack() instead`), undefined);
+            }
+
+            const type: PortainerStackDeploymentType = existing.Type === SWARM_STACK ? 'swarm' : 'standalone';
+            if (entry.type && entry.type !== type) {
+                return handleFailure(strict, new ValidationError(`Stack "${entry.name}" in environment ${environmentId} is a ${type} stack; delete it to deploy it as ${entry.type}`), undefined);
+            }
+
+            const current = await this.portainerClient.getStackFileContent(existing.Id, request);
+            if (current === undefined) {
+                return undefined;
+            }
+
+            const composeDiff = diffLines(normalizeCompose(current), normalizeCompose(compose));
+            const envDiff = diffEnv(toEnvVars(existing.Env), env, showValues);
+            const unchanged = composeDiff.every(line => line.startsWith('  '))
+                && !Object.keys(envDiff.added).length && !Object.keys(envDiff.changed).length && !envDiff.removed.length;
+
+            steps.push({
+                action: unchanged ? 'noop' : 'update',
+                name: entry.name,
+                environmentId,
+                stackId: existing.Id,
+                compose,
+                env,
+                type,
+                diff: { compose: composeDiff, env: envDiff }
+            });
+        }
+
+        if (desired.prune) {
+            for (const [environmentId, stacks] of deployed) {
+                for (const stack of stacks) {
+                    if (listed.has(`${environmentId}/${stack.Name}`) || stack.GitConfig) {
+                        continue;
+                    }
+
+                    const current = await this.portainerClient.getStackFileContent(stack.Id, request);
+                    if (current === undefined) {
+                        return undefined;
+                    }
+
+                    steps.push({
+                        action: 'delete',
+                        name: stack.Name,
+                        environmentId,
+                        stackId: stack.Id,
+                        diff: { compose: diffLines(normalizeCompose(current), ''), env: diffEnv(toEnvVars(stack.Env), {}, showValues) }
+                    });
+                }
+            }
+        }
+
+        return { steps, changes: steps.filter(step => step.action !== 'noop').length };
+    }
+
+    /**
+     * Carries out a plan from `plan()`: creates, updates and deletes stacks in order.
+     * Updates replace the stack's environment variables with the planned ones. Stops at the first failed step unless
+     * `continueOnError` is set; failed steps are reported in the result rather than thrown, even in strict mode.
+     * @param plan - The plan to carry out.
+     * @param options - Optional: An `onProgress` callback, whether to `continueOnError`, `pullImage` (default: true) and
+     * `prune` on updates, and request options.
+     * @returns {Promise<PortainerApplyResult | undefined>} A promise that resolves to the steps that were applied, failed or skipped.
+     */
+    public async apply(plan: PortainerStackPlan, options?: PortainerApplyOptions): Promise<PortainerApplyResult | undefined> {
+        const { onProgress, continueOnError, pullImage, prune, ...requestOptions } = options ?? {};
+        const request = withDeadline(requestOptions);
+
+        if (!plan || !Array.isArray(plan.steps)) {
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid plan: must be the result of plan()'), undefined);
+        }
+
+        const result: PortainerApplyResult = { applied: [], failed: [], skipped: [] };
+        const total = plan.steps.length;
+
+        for (const [index, step] of plan.steps.entries()) {
+            if (step.action === 'noop' || (result.failed.length && !continueOnError)) {
+                result.skipped.push(step);
+                continue;
+            }
+
+            onProgress?.({ type: 'start', step, index, total });
+
+            let error: PortainerError | undefined;
+            try {
+                if (!await this.applyStep(step, pullImage ?? true, prune ?? false, request)) {
+                    error = new PortainerError(`Failed to ${step.action} stack "${step.name}" in environment ${step.environmentId}`);
+                }
+            } catch (thrown) {
+                if (isCancellation(thrown)) {
+                    throw thrown;
+                }
+                error = toPortainerError(thrown, `Failed to ${step.action} stack "${step.name}" in environment ${step.environmentId}`);
+            }
+
+            if (error) {
+                result.failed.push({ step, error });
+                onProgress?.({ type: 'failed', step, index, total, error });
+            } else {
+                result.applied.push(step);
+                onProgress?.({ type: 'done', step, index, total });
+            }
+        }
+
+        logInfo(`Applied ${result.applied.length} of ${total - plan.steps.filter(step => step.action === 'noop').length} stack changes, ${result.failed.length} failed`);
+        return result;
+    }
+
+    /**
+     * Carries out a single step of a plan.
+     * @returns {Promise<boolean>} Whether the step succeeded.
+     */
+    private async applyStep(step: PortainerStackPlanStep, pullImage: boolean, prune: boolean, request: PortainerRequestOptions): Promise<boolean> {
+        switch (step.action) {
+            case 'create':
+                return await this.forEnvironment(step.environmentId).createStack({
+                    Name: step.name,
+                    ComposeFile: step.compose,
+                    Env: Object.entries(step.env ?? {}).map(([name, value]) => ({ name, value })),
+                    Type: step.type ?? 'standalone'
+                }, undefined, 5000, request) !== undefined;
+            case 'update':
+                return await this.portainerClient.updateStack(step.stackId!, step.compose!, step.environmentId, { env: { replace: step.env ?? {} }, pullImage, prune }, request) !== undefined;
+            case 'delete':
+                return await this.portainerClient.deleteStack(step.stackId!, step.environmentId, request) !== undefined;
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Exports a stack as a portable bundle: its compose file, environment variables and metadata.
+     * Write it to a file with `serializeBundle()` and recreate the stack elsewhere with `importStack()`.
+     * @param stack - The ID or name of the stack.
+     * @param options - Optional: Whether to record the `images` its services run, and request options.
+     * @returns {Promise<PortainerStackBundle | undefined>} A promise that resolves to the bundle.
+     */
+    public async exportStack(stack: number | string, options?: PortainerStackExportOptions): Promise<PortainerStackBundle | undefined> {
+        const { images, ...requestOptions } = options ?? {};
+        const request = withDeadline(requestOptions);
+
+        const found = await this.portainerClient.resolveStack(stack, request);
+        if (!found) {
+            return undefined;
+        }
+        return this.bundleStack(found, images ?? false, request);
+    }
+
+    /**
+     * Exports every stack of an environment, see `exportStack()`.
+     * @param environment - Optional: The ID or name of the environment, defaults to the factory's environment.
+     * @param options - Optional: Whether to record the `images` the services run, and request options.
+     * @returns {Promise<PortainerEnvironmentBundle | undefined>} A promise that resolves to the bundle.
+     */
+    public async exportEnvironment(environment?: number | string, options?: PortainerStackExportOptions): Promise<PortainerEnvironmentBundle | undefined> {
+        const { images, ...requestOptions } = options ?? {};
+        const request = withDeadline(requestOptions);
+        const client = environment === undefined ? this.portainerClient : this.portainerClient.forEnvironment(environment);
+
+        const environmentId = await client.ensureEnvId();
+        if (environmentId === null) {
+            return handleFailure(this.portainerClient.auth.strict, new EnvironmentUnavailableError('Environment not found. Cannot export stacks.'), undefined);
+        }
+
+        const details = await client.getEnvironmentDetails(environmentId, request);
+        const stacks = details && await client.getStacks(request);
+        if (!details || !stacks) {
+            return undefined;
+        }
+
+        const bundles: PortainerStackBundle[] = [];
+        for (const stack of stacks.filter(candidate => candidate.EndpointId === environmentId)) {
+            const bundle = await this.bundleStack(stack, images ?? false, request);
+            if (!bundle) {
+                return undefined;
+            }
+            bundles.push(bundle);
+        }
+
+        logInfo(`Exported ${bundles.length} stacks of environment "${details.Name}"`);
+        return { format: 'writetainer-environment', version: 1, exportedAt: Date.now(), environment: { id: environmentId, name: details.Name }, stacks: bundles };
+    }
+
+    /**
+     * Builds the bundle of a stack from its compose file and, if asked, the images of its services.
+     */
+    private async bundleStack(stack: PortainerStack, images: boolean, request: PortainerRequestOptions): Promise<PortainerStackBundle | undefined> {
+        const compose = await this.portainerClient.getStackFileContent(stack.Id, request);
+        if (compose === undefined) {
             return undefined;
         }
+
+        let used: PortainerStackBundle['images'];
+        if (images) {
+            const services = await this.portainerClient.getStackServices(stack.Id, request);
+            if (!services) {
+                return undefined;
+            }
+
+            used = services.flatMap(service => {
+                const pairs = new Map(service.containers.filter(container => container.ImageID).map(container => [`${container.Image}@${container.ImageID}`, container]));
+                return [...pairs.values()].map(container => ({ service: service.name, image: container.Image, imageId: container.ImageID! }));
+            });
+        }
+
+        return {
+            format: 'writetainer-stack',
+            version: 1,
+            exportedAt: Date.now(),
+            name: stack.Name,
+            type: stack.Type === SWARM_STACK ? 'swarm' : 'standalone',
+            compose,
+            env: toEnvVars(stack.Env),
+            metadata: {
+                stackId: stack.Id,
+                environmentId: stack.EndpointId,
+                status: stack.Status === 1 ? 'active' : 'inactive',
+                createdBy: stack.CreatedBy,
+                creationDate: stack.CreationDate,
+                updatedBy: stack.UpdatedBy,
+                updateDate: stack.UpdateDate,
+                ...(stack.GitConfig ? { gitUrl: stack.GitConfig.URL } : {})
+            },
+            ...(used ? { images: used } : {})
+        };
+    }
+
+    /**
+     * Recreates a stack from a bundle made by `exportStack()`, with its compose file and environment variables.
+     * Swarm stacks join the Swarm of the target environment. Stacks that were deployed from Git are created from the exported compose file.
+     * @param bundle - The bundle, or its JSON or tar form from `serializeBundle()`.
+     * @param options - Optional: The `environmentId` to create the stack in (defaults to the factory's environment),
+     * a `nameOverride`, and request options.
+     * @returns {Promise<Record<string, unknown> | undefined>} A promise that resolves to the created stack, undefined on failure or if the name is taken.
+     */
+    public async importStack(bundle: PortainerStackBundle | string | Uint8Array, options?: PortainerStackImportOptions): Promise<Record<string, unknown> | undefined> {
+        const { environmentId, nameOverride, ...requestOptions } = options ?? {};
+        const request = withDeadline(requestOptions);
+        const strict = this.portainerClient.auth.strict;
+
+        let parsed: PortainerStackBundle;
+        try {
+            parsed = typeof bundle === 'string' || bundle instanceof Uint8Array ? parseBundle(bundle) as PortainerStackBundle : bundle;
+        } catch (error) {
+            return handleFailure(strict, toPortainerError(error), undefined);
+        }
+
+        const invalid = validateStackBundle(parsed) ?? validateImportTarget(environmentId, nameOverride);
+        if (invalid) {
+            return handleFailure(strict, invalid, undefined);
+        }
+
+        return this.restoreStack(parsed, nameOverride ?? parsed.name, environmentId, request);
+    }
+
+    /**
+     * Recreates every stack of a bundle made by `exportEnvironment()`. A stack that fails, e.g. because its name is
+     * taken, does not stop the others; failures are reported in the result rather than thrown, even in strict mode.
+     * @param bundle - The bundle, or its JSON or tar form from `serializeBundle()`.
+     * @param options - Optional: The `environmentId` to create the stacks in (defaults to the factory's environment), and request options.
+     * @returns {Promise<PortainerEnvironmentImportResult | undefined>} A promise that resolves to the imported and failed stacks.
+     */
+    public async importEnvironment(
+        bundle: PortainerEnvironmentBundle | string | Uint8Array,
+        options?: Omit<PortainerStackImportOptions, 'nameOverride'>
+    ): Promise<PortainerEnvironmentImportResult | undefined> {
+        const { environmentId, ...requestOptions } = options ?? {};
+        const request = withDeadline(requestOptions);
+        const strict = this.portainerClient.auth.strict;
+
+        let parsed: PortainerEnvironmentBundle;
+        try {
+            parsed = typeof bundle === 'string' || bundle instanceof Uint8Array ? parseBundle(bundle) as PortainerEnvironmentBundle : bundle;
+        } catch (error) {
+            return handleFailure(strict, toPortainerError(error), undefined);
+        }
+
+        const invalid = validateEnvironmentBundle(parsed) ?? validateImportTarget(environmentId);
+        if (invalid) {
+            return handleFailure(strict, invalid, undefined);
+        }
+
+        const result: PortainerEnvironmentImportResult = { imported: [], failed: [] };
+        for (const stack of parsed.stacks) {
+            try {
+                if (await this.restoreStack(stack, stack.name, environmentId, request)) {
+                    result.imported.push(stack.name);
+                } else {
+                    result.failed.push({ name: stack.name, error: new PortainerError(`Failed to import stack "${stack.name}"`) });
+                }
+            } catch (error) {
+                if (isCancellation(error)) {
+                    throw error;
+                }
+                result.failed.push({ name: stack.name, error: toPortainerError(error, `Failed to import stack "${stack.name}"`) });
+            }
+        }
+
+        logInfo(`Imported ${result.imported.length} of ${parsed.stacks.length} stacks from environment "${parsed.environment.name}"`);
+        return result;
+    }
+
+    /**
+     * Creates a stack from a bundle unless a stack with the name already exists.
+     */
+    private async restoreStack(bundle: PortainerStackBundle, name: string, environmentId: number | undefined, request: PortainerRequestOptions): Promise<Record<string, unknown> | undefined> {
+        const target = environmentId === undefined ? this : this.forEnvironment(environmentId);
+
+        // createStack() returns an existing stack as if it had created it, which would hide that nothing was imported
+        const existing = await getStackByName(name, target.portainerClient, request);
+        if (existing) {
+            return handleFailure(this.portainerClient.auth.strict, new ConflictError(`Stack "${name}" already exists in environment ${existing.EndpointId}`), undefined);
+        }
+
+        logInfo(`Importing stack "${name}"...`);
+        return target.createStack({
+            Name: name,
+            ComposeFile: bundle.compose,
+            Env: Object.entries(bundle.env).map(([variable, value]) => ({ name: variable, value })),
+            Type: bundle.type
+        }, undefined, 5000, request);
     }
 
     /**
@@ -131,22 +745,22 @@ export class PortainerFactory {
      * @param stackData.ContainerPayload - The Docker compose file as a single string, must be valid Docker notation
      * @param maxRetryCount - Optional: Number of times to retry making the container if creation fails
      * @param timeoutMs - Optional: Time between each retry attempt (in ms)
+     * @param options - Optional: Cancellation options (`signal`, `timeoutMs` for the whole call, including verification).
      * @returns {Promise<Record<string, unknown>> | undefined} - A promise that resolves to the created container object or undefined on failure.
      */
-    async createContainer(stackData: Record<string, unknown>, maxRetryCount?: number, timeoutMs: number = 5000): Promise<Record<string, unknown> | undefined> {
+    async createContainer(stackData: Record<string, unknown>, maxRetryCount?: number, timeoutMs: number = 5000, options?: PortainerRequestOptions): Promise<Record<string, unknown> | undefined> {
+        const request = withDeadline(options);
+
         if (!stackData || typeof stackData !== 'object' || Array.isArray(stackData)) {
-            logError('Invalid stackData: must be a non-null object');
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid stackData: must be a non-null object'), undefined);
         }
 
         if (maxRetryCount !== undefined && maxRetryCount !== null && (typeof maxRetryCount !== 'number' || isNaN(maxRetryCount))) {
-            logError('Invalid maxRetryCount: must be a number');
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid maxRetryCount: must be a number'), undefined);
         }
 
         if (timeoutMs !== undefined && timeoutMs !== null && (typeof timeoutMs !== 'number' || isNaN(timeoutMs))) {
-            logError('Invalid timeoutMs: must be a number');
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, new ValidationError('Invalid timeoutMs: must be a number'), undefined);
         }
 
         const stackName = stackData.Name as string;
@@ -172,14 +786,21 @@ export class PortainerFactory {
         }
 
         try {
+            // Resolve the environment once so every request goes to the same one
+            const envId = await this.portainerClient.ensureEnvId();
+            if (envId === null) {
+                return handleFailure(this.portainerClient.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot create container.'), undefined);
+            }
+
             // Clean up any existing container with the same name
-            await this.portainerClient.cleanupExistingContainer(serviceName);
+            await this.portainerClient.cleanupExistingContainer(serviceName, envId, request);
 
             for (let i = 0; i < maxRetryCount; i++) {
                 logInfo('Creating container...');
                 const response = await this.portainerClient.auth.axiosInstance.post(
-                    `/api/endpoints/${this.portainerClient.ensureEnvId()}/docker/containers/create?name=${serviceName}`,
-                    composeContent
+                    `/api/endpoints/${envId}/docker/containers/create?name=${serviceName}`,
+                    composeContent,
+                    requestConfig(request)
                 );
 
                 logInfo('Container created successfully!');
@@ -187,12 +808,12 @@ export class PortainerFactory {
 
                 // Start the container
                 logInfo('Starting container...');
-                await this.portainerClient.auth.axiosInstance.post(`/api/endpoints/${this.portainerClient.ensureEnvId()}/docker/containers/${containerId}/start`);
+                await this.portainerClient.auth.axiosInstance.post(`/api/endpoints/${envId}/docker/containers/${containerId}/start`, null, requestConfig(request));
 
                 // Verify container creation
                 logInfo(`Stack created, waiting ${timeoutMs} milliseconds (${timeoutMs / 1000} seconds) for verification.`)
 
-                if (!await verifyContainerCreation(serviceName, 10000)) {
+                if (!await verifyContainerCreation(serviceName, 10000, this.portainerClient, request)) {
                     logWarn(`Stack verification attempt ${i} / ${maxRetryCount} failed, retrying...`)
                 } else {
                     logInfo('Container started and verified successfully!');
@@ -206,11 +827,13 @@ export class PortainerFactory {
                 }
             }
 
-            logError(`Container could not be verfied after ${maxRetryCount} attempts over ${maxRetryCount * timeoutMs}.`)
-            return {}
+            return handleFailure(
+                this.portainerClient.auth.strict,
+                new TimeoutError(`Container could not be verfied after ${maxRetryCount} attempts over ${maxRetryCount * timeoutMs}.`),
+                undefined
+            );
         } catch (error) {
-            logError('Failed to create container:', error);
-            return undefined;
+            return handleFailure(this.portainerClient.auth.strict, toPortainerError(error, 'Failed to create container'), undefined);
         }
     }
 }
\ No newline at end of file
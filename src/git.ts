@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+import { ValidationError } from './errors.ts';
+import type { PortainerGitAutoUpdate, PortainerGitCredentials } from './types.ts';
+
+// Go duration as accepted by Portainer, e.g. "5m" or "1h30m"
+const INTERVAL_PATTERN = /^(\d+(ms|s|m|h))+$/;
+
+/**
+ * Builds the repository authentication fields of a Git stack payload.
+ * @param credentials - Optional: The credentials, omitted for public repositories.
+ * @returns The `Repository*` fields Portainer expects.
+ */
+export function toGitAuthPayload(credentials?: PortainerGitCredentials): Record<string, unknown> {
+    if (!credentials) {
+        return { RepositoryAuthentication: false };
+    }
+
+    if ('gitCredentialId' in credentials) {
+        return { RepositoryAuthentication: true, RepositoryGitCredentialID: credentials.gitCredentialId };
+    }
+
+    return {
+        RepositoryAuthentication: true,
+        RepositoryUsername: credentials.username,
+        RepositoryPassword: credentials.password,
+    };
+}
+
+/**
+ * Builds the `AutoUpdate` field of a Git stack payload. A webhook gets a fresh ID, which Portainer expects from the client.
+ * @param autoUpdate - Optional: The auto-update settings.
+ * @returns The `AutoUpdate` object, or null to disable auto-updates.
+ */
+export function toAutoUpdatePayload(autoUpdate?: PortainerGitAutoUpdate): Record<string, unknown> | null {
+    if (!autoUpdate) {
+        return null;
+    }
+
+    return {
+        Interval: autoUpdate.interval ?? '',
+        Webhook: autoUpdate.webhook ? randomUUID() : '',
+        ForceUpdate: autoUpdate.forceUpdate ?? false,
+        ForcePullImage: autoUpdate.forcePullImage ?? false,
+    };
+}
+
+/**
+ * Checks Git credentials and auto-update settings before they are sent to Portainer.
+ * @returns {ValidationError | null} The first problem found, or null if the settings are valid.
+ */
+export function validateGitSettings(credentials?: PortainerGitCredentials, autoUpdate?: PortainerGitAutoUpdate): ValidationError | null {
+    if (credentials !== undefined) {
+        const valid = credentials && typeof credentials === 'object' && ('gitCredentialId' in credentials ?
+            Number.isInteger(credentials.gitCredentialId) && credentials.gitCredentialId > 0 :
+            typeof credentials.username === 'string' && !!credentials.username && typeof credentials.password === 'string' && !!credentials.password);
+        if (!valid) {
+            return new ValidationError('Invalid credentials: must be a username and password or a gitCredentialId');
+        }
+    }
+
+    if (autoUpdate !== undefined) {
+        if (!autoUpdate || typeof autoUpdate !== 'object' || (!autoUpdate.interval && !autoUpdate.webhook)) {
+            return new ValidationError('Invalid autoUpdate: must set an interval and/or webhook');
+        }
+        if (autoUpdate.interval !== undefined && (typeof autoUpdate.interval !== 'string' || !INTERVAL_PATTERN.test(autoUpdate.interval))) {
+            return new ValidationError('Invalid autoUpdate.interval: must be a duration such as "5m" or "1h30m"');
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,115 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { PortainerStackEnv } from './types.ts';
+
+/**
+ * A saved state of a stack: its compose file and environment variables before an update.
+ * @property stackId - The ID of the stack.
+ * @property version - Counts up from 1 for each stack.
+ * @property composeContent - The compose file.
+ * @property env - The environment variables by name.
+ * @property savedAt - When the state was saved, in milliseconds since the epoch.
+ */
+export interface PortainerStackVersion {
+    stackId: number;
+    version: number;
+    composeContent: string;
+    env: PortainerStackEnv;
+    savedAt: number;
+}
+
+/**
+ * Where stack versions are kept. Implement it to keep them elsewhere, e.g. in a database or object storage.
+ * `list()` must return the versions of a stack oldest first.
+ */
+export interface PortainerStackHistoryStore {
+    add(version: PortainerStackVersion): Promise<void>;
+    list(stackId: number): Promise<PortainerStackVersion[]>;
+}
+
+const DEFAULT_HISTORY_LIMIT = 20;
+
+/**
+ * Keeps the latest versions of each stack in memory, for as long as the process runs.
+ */
+export class MemoryStackHistoryStore implements PortainerStackHistoryStore {
+    private readonly limit: number;
+    private readonly versions = new Map<number, PortainerStackVersion[]>();
+
+    /**
+     * @param limit - Optional: How many versions to keep per stack, defaults to 20.
+     */
+    constructor(limit: number = DEFAULT_HISTORY_LIMIT) {
+        this.limit = Math.max(1, limit);
+    }
+
+    public async add(version: PortainerStackVersion): Promise<void> {
+        const versions = [...(this.versions.get(version.stackId) ?? []), version];
+        this.versions.set(version.stackId, versions.slice(-this.limit));
+    }
+
+    public async list(stackId: number): Promise<PortainerStackVersion[]> {
+        return [...(this.versions.get(stackId) ?? [])];
+    }
+}
+
+/**
+ * Keeps the latest versions of each stack as JSON files in a directory, one file per stack.
+ * Use one directory per Portainer instance, since stacks are told apart by ID only.
+ */
+export class JsonDirStackHistoryStore implements PortainerStackHistoryStore {
+    private readonly directory: string;
+    private readonly limit: number;
+    private readonly writes = new Map<number, Promise<void>>(); // Last write per stack, so writes to a file never interleave
+
+    /**
+     * @param directory - The directory to keep the files in, created when needed.
+     * @param limit - Optional: How many versions to keep per stack, defaults to 20.
+     */
+    constructor(directory: string, limit: number = DEFAULT_HISTORY_LIMIT) {
+        this.directory = directory;
+        this.limit = Math.max(1, limit);
+    }
+
+    public async add(version: PortainerStackVersion): Promise<void> {
+        const write = (this.writes.get(version.stackId) ?? Promise.resolve())
+            .catch(() => undefined)
+            .then(async () => {
+                const versions = [...await this.list(version.stackId), version].slice(-this.limit);
+                const file = this.fileOf(version.stackId);
+
+                // Write a temporary file first so a crash never leaves a truncated history behind
+                await mkdir(this.directory, { recursive: true });
+                await writeFile(`${file}.tmp`, JSON.stringify(versions, null, 2));
+                await rename(`${file}.tmp`, file);
+            });
+
+        this.writes.set(version.stackId, write);
+        return write;
+    }
+
+    public async list(stackId: number): Promise<PortainerStackVersion[]> {
+        try {
+            return JSON.parse(await readFile(this.fileOf(stackId), 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    private fileOf(stackId: number): string {
+        return join(this.directory, `stack-${stackId}.json`);
+    }
+}
+
+/**
+ * Reads the history store from environment variables.
+ * PORTAINER_STACK_HISTORY_DIR: Keep stack versions as JSON files in this directory instead of in memory.
+ * @returns {PortainerStackHistoryStore | undefined} The store, or undefined if not configured.
+ */
+export function getHistoryStoreFromEnv(): PortainerStackHistoryStore | undefined {
+    const directory = process.env.PORTAINER_STACK_HISTORY_DIR;
+    return directory ? new JsonDirStackHistoryStore(directory) : undefined;
+}
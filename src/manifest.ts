@@ -0,0 +1,96 @@
+import { readFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { ValidationError } from './errors.ts';
+import type { PortainerStackEnv, PortainerStackEnvDiff, PortainerStackManifest } from './types.ts';
+
+/**
+ * Reads a stack manifest from a JSON file. `composeFile` paths are read relative to the manifest file.
+ * @param path - The path of the manifest file.
+ * @returns {Promise<PortainerStackManifest>} The manifest, with the compose content of every stack filled in.
+ */
+export async function loadStackManifest(path: string): Promise<PortainerStackManifest> {
+    let manifest: PortainerStackManifest;
+    try {
+        manifest = JSON.parse(await readFile(path, 'utf8'));
+    } catch (error) {
+        throw new ValidationError(`Failed to read stack manifest ${path}: ${(error as Error).message}`, { cause: error });
+    }
+
+    if (!manifest || !Array.isArray(manifest.stacks)) {
+        throw new ValidationError(`Invalid stack manifest ${path}: must be an object with a "stacks" array`);
+    }
+
+    const stacks = await Promise.all(manifest.stacks.map(async stack => {
+        if (!stack || stack.compose !== undefined || typeof stack.composeFile !== 'string') {
+            return stack;
+        }
+
+        const file = resolve(dirname(path), stack.composeFile);
+        try {
+            return { ...stack, compose: await readFile(file, 'utf8') };
+        } catch (error) {
+            throw new ValidationError(`Failed to read compose file ${file} of stack "${stack.name}": ${(error as Error).message}`, { cause: error });
+        }
+    }));
+    return { ...manifest, stacks };
+}
+
+/**
+ * Returns a compose file without carriage returns and trailing whitespace, so formatting alone is never a change.
+ */
+export function normalizeCompose(compose: string): string {
+    return compose.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim();
+}
+
+/**
+ * Compares two texts line by line.
+ * @returns {string[]} Every line prefixed with `- ` if only in `before`, `+ ` if only in `after`, or two spaces if in both.
+ */
+export function diffLines(before: string, after: string): string[] {
+    const a = before ? before.split('\n') : [];
+    const b = after ? after.split('\n') : [];
+
+    // Longest common subsequence, filled from the end so the walk below can go forward
+    const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            common[i]![j] = a[i] === b[j] ? common[i + 1]![j + 1]! + 1 : Math.max(common[i + 1]![j]!, common[i]![j + 1]!);
+        }
+    }
+
+    const lines: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push(`  ${a[i++]}`);
+            j++;
+        } else if (i < a.length && (j === b.length || common[i + 1]![j]! >= common[i]![j + 1]!)) {
+            lines.push(`- ${a[i++]}`);
+        } else {
+            lines.push(`+ ${b[j++]}`);
+        }
+    }
+    return lines;
+}
+
+// Shown instead of variable values in diffs, which often end up in logs
+const MASKED_VALUE = '********';
+
+/**
+ * Compares two sets of environment variables. Values are masked unless `showValues` is set, since variables often hold secrets.
+ */
+export function diffEnv(before: PortainerStackEnv, after: PortainerStackEnv, showValues: boolean = false): PortainerStackEnvDiff {
+    const diff: PortainerStackEnvDiff = { added: {}, changed: {}, removed: [] };
+    const shown = (value: string) => showValues ? value : MASKED_VALUE;
+
+    for (const [name, value] of Object.entries(after)) {
+        if (!Object.hasOwn(before, name)) {
+            diff.added[name] = shown(value);
+        } else if (before[name] !== value) {
+            diff.changed[name] = { from: shown(before[name]!), to: shown(value) };
+        }
+    }
+    diff.removed = Object.keys(before).filter(name => !Object.hasOwn(after, name));
+    return diff;
+}
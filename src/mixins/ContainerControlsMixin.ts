@@ -1,9 +1,12 @@
-import { logError, logInfo } from "../../logger.ts";
+import { logInfo } from "../../logger.ts";
+import { EnvironmentUnavailableError, ValidationError, handleFailure, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
 import type { Constructor } from "../types.ts";
 
 interface ContainerControlsMixinBase {
     auth: {
         axiosInstance: import("axios").AxiosInstance;
+        strict?: boolean;
     };
     ensureEnvId: () => Promise<number | null>;
 }
@@ -34,29 +37,24 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
          */
         validateContainerControls(controls: ContainerControls): boolean {
             if (!controls || typeof controls !== 'object') {
-                logError('Invalid controls: must be an object');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid controls: must be an object'), false);
             }
 
             if (!controls.action || typeof controls.action !== 'string') {
-                logError('Invalid action: must be a string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid action: must be a string'), false);
             }
 
             if (!this.VALID_ACTIONS.includes(controls.action)) {
-                logError(`Invalid action: must be one of ${this.VALID_ACTIONS.join(', ')}`);
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError(`Invalid action: must be one of ${this.VALID_ACTIONS.join(', ')}`), false);
             }
 
             if (!controls.containerId || typeof controls.containerId !== 'string') {
-                logError('Invalid containerId: must be a non-empty string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid containerId: must be a non-empty string'), false);
             }
 
             if (controls.environmentId !== undefined && controls.environmentId !== null && 
                 (typeof controls.environmentId !== 'number' || isNaN(controls.environmentId))) {
-                logError('Invalid environmentId: must be a number, null, or undefined');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), false);
             }
 
             return this.validateContainerOptions(controls.options);
@@ -69,29 +67,24 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
             if (!options) return true;
 
             if (typeof options !== 'object') {
-                logError('Invalid options: must be an object');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid options: must be an object'), false);
             }
 
             if (options.force !== undefined && typeof options.force !== 'boolean') {
-                logError('Invalid options.force: must be a boolean');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid options.force: must be a boolean'), false);
             }
 
             if (options.removeVolumes !== undefined && typeof options.removeVolumes !== 'boolean') {
-                logError('Invalid options.removeVolumes: must be a boolean');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid options.removeVolumes: must be a boolean'), false);
             }
 
             if (options.signal !== undefined && typeof options.signal !== 'string') {
-                logError('Invalid options.signal: must be a string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid options.signal: must be a string'), false);
             }
 
             if (options.timeout !== undefined && 
                 (typeof options.timeout !== 'number' || isNaN(options.timeout) || options.timeout < 0)) {
-                logError('Invalid options.timeout: must be a non-negative number');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid options.timeout: must be a non-negative number'), false);
             }
 
             return true;
@@ -111,29 +104,30 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
             action: ContainerAction,
             containerId: string,
             environmentId: number,
-            options?: ContainerActionOptions
+            options?: ContainerActionOptions,
+            request?: PortainerRequestOptions
         ): Promise<void> {
             switch (action) {
                 case 'start':
-                    await this.startContainer(containerId, environmentId);
+                    await this.startContainer(containerId, environmentId, request);
                     break;
                 case 'stop':
-                    await this.stopContainer(containerId, environmentId);
+                    await this.stopContainer(containerId, environmentId, request);
                     break;
                 case 'remove':
-                    await this.removeContainer(containerId, environmentId, options);
+                    await this.removeContainer(containerId, environmentId, options, request);
                     break;
                 case 'kill':
-                    await this.killContainer(containerId, environmentId, options?.signal);
+                    await this.killContainer(containerId, environmentId, options?.signal, request);
                     break;
                 case 'pause':
-                    await this.pauseContainer(containerId, environmentId);
+                    await this.pauseContainer(containerId, environmentId, request);
                     break;
                 case 'unpause':
-                    await this.unpauseContainer(containerId, environmentId);
+                    await this.unpauseContainer(containerId, environmentId, request);
                     break;
                 case 'restart':
-                    await this.restartContainer(containerId, environmentId, options?.timeout);
+                    await this.restartContainer(containerId, environmentId, options?.timeout, request);
                     break;
             }
         }
@@ -141,18 +135,18 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
         /**
          * Starts a container
          */
-        async startContainer(containerId: string, environmentId: number): Promise<void> {
+        async startContainer(containerId: string, environmentId: number, request?: PortainerRequestOptions): Promise<void> {
             logInfo(`Starting container ${containerId}...`);
-            await this.auth.axiosInstance.post(this.buildContainerUrl(environmentId, containerId, 'start'));
+            await this.auth.axiosInstance.post(this.buildContainerUrl(environmentId, containerId, 'start'), null, requestConfig(request));
             logInfo('Container started successfully');
         }
 
         /**
          * Stops a container
          */
-        async stopContainer(containerId: string, environmentId: number): Promise<void> {
+        async stopContainer(containerId: string, environmentId: number, request?: PortainerRequestOptions): Promise<void> {
             logInfo(`Stopping container ${containerId}...`);
-            await this.auth.axiosInstance.post(this.buildContainerUrl(environmentId, containerId, 'stop'));
+            await this.auth.axiosInstance.post(this.buildContainerUrl(environmentId, containerId, 'stop'), null, requestConfig(request));
             logInfo('Container stopped successfully');
         }
 
@@ -162,14 +156,15 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
         async removeContainer(
             containerId: string,
             environmentId: number,
-            options?: ContainerActionOptions
+            options?: ContainerActionOptions,
+            request?: PortainerRequestOptions
         ): Promise<void> {
             logInfo(`Removing container ${containerId}...`);
             const params = new URLSearchParams();
             if (options?.force) params.append('force', 'true');
             if (options?.removeVolumes) params.append('v', 'true');
             const url = `${this.buildContainerUrl(environmentId, containerId, '')}?${params.toString()}`;
-            await this.auth.axiosInstance.delete(url);
+            await this.auth.axiosInstance.delete(url, requestConfig(request));
             logInfo('Container removed successfully');
         }
 
@@ -179,11 +174,14 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
         async killContainer(
             containerId: string,
             environmentId: number,
-            signal: string = 'SIGKILL'
+            signal: string = 'SIGKILL',
+            request?: PortainerRequestOptions
         ): Promise<void> {
             logInfo(`Killing container ${containerId} with signal ${signal}...`);
             await this.auth.axiosInstance.post(
-                `${this.buildContainerUrl(environmentId, containerId, 'kill')}?signal=${signal}`
+                `${this.buildContainerUrl(environmentId, containerId, 'kill')}?signal=${signal}`,
+                null,
+                requestConfig(request)
             );
             logInfo('Container killed successfully');
         }
@@ -191,18 +189,18 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
         /**
          * Pauses a container
          */
-        async pauseContainer(containerId: string, environmentId: number): Promise<void> {
+        async pauseContainer(containerId: string, environmentId: number, request?: PortainerRequestOptions): Promise<void> {
             logInfo(`Pausing container ${containerId}...`);
-            await this.auth.axiosInstance.post(this.buildContainerUrl(environmentId, containerId, 'pause'));
+            await this.auth.axiosInstance.post(this.buildContainerUrl(environmentId, containerId, 'pause'), null, requestConfig(request));
             logInfo('Container paused successfully');
         }
 
         /**
          * Unpauses a container
          */
-        async unpauseContainer(containerId: string, environmentId: number): Promise<void> {
+        async unpauseContainer(containerId: string, environmentId: number, request?: PortainerRequestOptions): Promise<void> {
             logInfo(`Unpausing container ${containerId}...`);
-            await this.auth.axiosInstance.post(this.buildContainerUrl(environmentId, containerId, 'unpause'));
+            await this.auth.axiosInstance.post(this.buildContainerUrl(environmentId, containerId, 'unpause'), null, requestConfig(request));
             logInfo('Container unpaused successfully');
         }
 
@@ -212,12 +210,15 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
         async restartContainer(
             containerId: string,
             environmentId: number,
-            timeout: number = 10000
+            timeout: number = 10000,
+            request?: PortainerRequestOptions
         ): Promise<void> {
             logInfo(`Restarting container ${containerId}...`);
             const timeoutSeconds = (timeout / 1000).toPrecision(2);
             await this.auth.axiosInstance.post(
-                `${this.buildContainerUrl(environmentId, containerId, 'restart')}?t=${timeoutSeconds}`
+                `${this.buildContainerUrl(environmentId, containerId, 'restart')}?t=${timeoutSeconds}`,
+                null,
+                requestConfig(request)
             );
             logInfo('Container restarted successfully');
         }
@@ -225,10 +226,13 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
         /**
          * Handles container control actions
          * @param controls - Container control configuration
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns Promise resolving to true if successful, false otherwise
          */
 
-        async handleContainer(controls: ContainerControls): Promise<boolean> {
+        async handleContainer(controls: ContainerControls, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
             // Validate all parameters
             if (!this.validateContainerControls(controls)) {
                 return false;
@@ -241,8 +245,7 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
             }
 
             if (environmentId === null) {
-                logError('No Portainer environments found. Cannot perform container action.');
-                return false;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot perform container action.'), false);
             }
 
             // Execute the action
@@ -251,12 +254,12 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
                     controls.action,
                     controls.containerId,
                     environmentId,
-                    controls.options
+                    controls.options,
+                    request
                 );
                 return true;
             } catch (error) {
-                logError(`Failed to ${controls.action} container ${controls.containerId}:`, error);
-                return false;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to ${controls.action} container ${controls.containerId}`), false);
             }
         }
 
@@ -264,14 +267,17 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
  * Pull the latest image for a container
  * @param imageName - The name of the image to pull
  * @param environmentId - Optional: The ID of the Portainer environment
+ * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
  * @returns {Promise<boolean>} Promise resolving when image is pulled
  */
         async pullImage(
             imageName: string,
-            environmentId?: number | null): Promise<boolean> {
+            environmentId?: number | null,
+            options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
             if (!imageName || typeof imageName !== 'string') {
-                logError('Invalid imageName: must be a non-empty string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid imageName: must be a non-empty string'), false);
             }
 
             if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
@@ -279,20 +285,20 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
             }
 
             if (environmentId === null) {
-                logError('No Portainer environments found. Cannot pull image.');
-                return false;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot pull image.'), false);
             }
 
             try {
                 logInfo(`Pulling image ${imageName}...`);
                 await this.auth.axiosInstance.post(
-                    `/api/endpoints/${environmentId}/docker/images/create?fromImage=${encodeURIComponent(imageName)}`
+                    `/api/endpoints/${environmentId}/docker/images/create?fromImage=${encodeURIComponent(imageName)}`,
+                    null,
+                    requestConfig(request)
                 );
                 logInfo(`Image ${imageName} pulled successfully`);
                 return true;
             } catch (error) {
-                logError(`Failed to pull image ${imageName}:`, error);
-                return false;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to pull image ${imageName}`), false);
             }
         }
 
@@ -301,6 +307,7 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
          * @param containerId - The ID of the container to update
          * @param environmentId - The ID of the Portainer environment
          * @param resources - The resource limits to apply
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<boolean>} - Promise resolving when resources are updated
          */
         async updateContainerResources(
@@ -311,10 +318,12 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
                 memory?: number;   // Memory limit in bytes
             },
             environmentId?: number | null,
+            options?: PortainerRequestOptions
         ): Promise<boolean> {
+            const request = withDeadline(options);
+
             if (!containerId || typeof containerId !== 'string') {
-                logError('Invalid containerId: must be a non-empty string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid containerId: must be a non-empty string'), false);
             }
 
             if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
@@ -322,28 +331,23 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
             }
 
             if (environmentId === null) {
-                logError('No Portainer environments found. Cannot update container resources.');
-                return false;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot update container resources.'), false);
             }
 
             if (!resources || typeof resources !== 'object') {
-                logError('Invalid resources: must be an object');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid resources: must be an object'), false);
             }
 
             if (resources.cpuQuota !== undefined && (typeof resources.cpuQuota !== 'number' || isNaN(resources.cpuQuota) || resources.cpuQuota < 0)) {
-                logError('Invalid resources.cpuQuota: must be a non-negative number');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid resources.cpuQuota: must be a non-negative number'), false);
             }
 
             if (resources.cpuPeriod !== undefined && (typeof resources.cpuPeriod !== 'number' || isNaN(resources.cpuPeriod) || resources.cpuPeriod <= 0)) {
-                logError('Invalid resources.cpuPeriod: must be a positive number');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid resources.cpuPeriod: must be a positive number'), false);
             }
 
             if (resources.memory !== undefined && (typeof resources.memory !== 'number' || isNaN(resources.memory) || resources.memory < 0)) {
-                logError('Invalid resources.memory: must be a non-negative number');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid resources.memory: must be a non-negative number'), false);
             }
 
             try {
@@ -351,7 +355,8 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
 
                 // Get current container configuration
                 const containerInfo = await this.auth.axiosInstance.get(
-                    `/api/endpoints/${environmentId}/docker/containers/${containerId}/json`
+                    `/api/endpoints/${environmentId}/docker/containers/${containerId}/json`,
+                    requestConfig(request)
                 );
 
                 const updateConfig = {
@@ -364,14 +369,14 @@ export function ContainerControlsMixin<TBase extends Constructor<ContainerContro
 
                 await this.auth.axiosInstance.post(
                     `/api/endpoints/${environmentId}/docker/containers/${containerId}/update`,
-                    updateConfig
+                    updateConfig,
+                    requestConfig(request)
                 );
 
                 logInfo(`Container resources updated successfully`);
                 return true;
             } catch (error) {
-                logError(`Failed to update container resources for ${containerId}:`, error);
-                return false;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to update container resources for ${containerId}`), false);
             }
         }
     }
@@ -0,0 +1,167 @@
+import { logInfo } from "../../logger.ts";
+import { AuthError, NotFoundError, ValidationError, handleFailure, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
+import { isValidId } from "../validation.ts";
+import type { Constructor, PortainerEdgeGroup, PortainerEdgeGroupOptions } from "../types.ts";
+
+interface EdgeGroupsMixinBase {
+    auth: {
+        axiosInstance: import("axios").AxiosInstance;
+        ensureValidated: () => Promise<boolean>;
+        strict?: boolean;
+    };
+    resolveTagIds: (tags: Array<number | string>, options?: PortainerRequestOptions) => Promise<number[] | undefined>;
+}
+
+export function EdgeGroupsMixin<TBase extends Constructor<EdgeGroupsMixinBase>>(Base: TBase) {
+    return class extends Base {
+        /**
+         * Fetches all edge groups.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeGroup[] | undefined>} A promise that resolves to an array of edge groups.
+         */
+        async getEdgeGroups(options?: PortainerRequestOptions): Promise<PortainerEdgeGroup[] | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch edge groups.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerEdgeGroup[]>('/api/edge_groups', requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to fetch edge groups'), undefined);
+            }
+        }
+
+        /**
+         * Fetches an edge group by ID or name.
+         * @param group - The ID or name of the edge group.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeGroup | undefined>} A promise that resolves to the edge group, or undefined if it does not exist.
+         */
+        async getEdgeGroup(group: number | string, options?: PortainerRequestOptions): Promise<PortainerEdgeGroup | undefined> {
+            const request = withDeadline(options);
+
+            if (!isValidId(group) && (typeof group !== 'string' || !group)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid edge group: must be an edge group ID or a non-empty name'), undefined);
+            }
+
+            const groups = await this.getEdgeGroups(request);
+            if (!groups) {
+                return undefined;
+            }
+
+            const found = groups.find(candidate => typeof group === 'number' ? candidate.Id === group : candidate.Name === group);
+            if (!found) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Edge group "${group}" does not exist`), undefined);
+            }
+            return found;
+        }
+
+        /**
+         * Creates an edge group. A group with `tags` is dynamic and picks up every Edge environment carrying
+         * all of them (any of them with `partialMatch`); otherwise it holds exactly `environmentIds`.
+         * @param group - The name, plus either the environments or the tags of the group.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeGroup | undefined>} A promise that resolves to the created edge group.
+         */
+        async createEdgeGroup(group: PortainerEdgeGroupOptions, options?: PortainerRequestOptions): Promise<PortainerEdgeGroup | undefined> {
+            const request = withDeadline(options);
+
+            if (!group || typeof group !== 'object' || !group.name || typeof group.name !== 'string') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid edge group: name must be a non-empty string'), undefined);
+            }
+
+            if (group.environmentIds !== undefined && group.tags !== undefined) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid edge group: pass either environmentIds or tags, not both'), undefined);
+            }
+
+            if (group.environmentIds !== undefined && (!Array.isArray(group.environmentIds) || !group.environmentIds.every(isValidId))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentIds: must be an array of environment IDs'), undefined);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot create edge group.'), undefined);
+            }
+
+            const dynamic = group.tags !== undefined;
+            const tagIds = dynamic ? await this.resolveTagIds(group.tags!, request) : [];
+            if (!tagIds) {
+                return undefined;
+            }
+
+            try {
+                logInfo(`Creating ${dynamic ? 'dynamic' : 'static'} edge group "${group.name}"...`);
+                const response = await this.auth.axiosInstance.post<PortainerEdgeGroup>('/api/edge_groups', {
+                    Name: group.name,
+                    Dynamic: dynamic,
+                    TagIDs: tagIds,
+                    Endpoints: group.environmentIds ?? [],
+                    PartialMatch: group.partialMatch ?? false,
+                }, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to create edge group "${group.name}"`), undefined);
+            }
+        }
+
+        /**
+         * Deletes an edge group. Portainer refuses while an edge stack still targets it.
+         * @param groupId - The ID of the edge group.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true if the edge group was deleted.
+         */
+        async deleteEdgeGroup(groupId: number, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!isValidId(groupId)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid groupId: must be a positive integer'), false);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot delete edge group.'), false);
+            }
+
+            try {
+                logInfo(`Deleting edge group ${groupId}...`);
+                await this.auth.axiosInstance.delete(`/api/edge_groups/${groupId}`, requestConfig(request));
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to delete edge group ${groupId}`), false);
+            }
+        }
+
+        /**
+         * Resolves edge group names to IDs. IDs are passed through without a request.
+         * @param groups - Edge group IDs and/or names.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<number[] | undefined>} The edge group IDs, or undefined if a group does not exist.
+         */
+        async resolveEdgeGroupIds(groups: Array<number | string>, options?: PortainerRequestOptions): Promise<number[] | undefined> {
+            if (!Array.isArray(groups) || groups.some(group => !isValidId(group) && (typeof group !== 'string' || !group))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid edge groups: must be edge group IDs or non-empty names'), undefined);
+            }
+
+            if (groups.every(isValidId)) {
+                return groups;
+            }
+
+            const existing = await this.getEdgeGroups(options);
+            if (!existing) {
+                return undefined;
+            }
+
+            const ids: number[] = [];
+            for (const group of groups) {
+                const id = typeof group === 'number' ? group : existing.find(candidate => candidate.Name === group)?.Id;
+                if (id === undefined) {
+                    return handleFailure(this.auth.strict, new NotFoundError(`Edge group "${group}" does not exist`), undefined);
+                }
+                ids.push(id);
+            }
+            return ids;
+        }
+    }
+}
@@ -0,0 +1,395 @@
+import { logInfo, logWarn } from "../../logger.ts";
+import { AuthError, PortainerError, TimeoutError, ValidationError, handleFailure, isCancellation, toPortainerError } from "../errors.ts";
+import { delay, requestConfig, withDeadline, type PortainerRequestOptions, type PortainerWaitOptions } from "../request.ts";
+import { isValidId } from "../validation.ts";
+import type {
+    Constructor,
+    PortainerEdgeGroup,
+    PortainerEdgeStack,
+    PortainerEdgeStackDeployment,
+    PortainerEdgeStackEnvironmentStatus,
+    PortainerEdgeStackOptions,
+    PortainerEdgeStackState,
+    PortainerEdgeStackUpdate
+} from "../types.ts";
+
+interface EdgeStacksMixinBase {
+    auth: {
+        axiosInstance: import("axios").AxiosInstance;
+        ensureValidated: () => Promise<boolean>;
+        strict?: boolean;
+    };
+    getEdgeGroups: (options?: PortainerRequestOptions) => Promise<PortainerEdgeGroup[] | undefined>;
+    resolveEdgeGroupIds: (groups: Array<number | string>, options?: PortainerRequestOptions) => Promise<number[] | undefined>;
+}
+
+// Status types reported by Edge Agents, indexed by their number (Portainer 2.19 and later)
+const EDGE_STACK_STATES: PortainerEdgeStackState[] = [
+    'pending', 'received', 'error', 'acknowledged', 'removed', 'remoteUpdated', 'imagesPulled', 'running',
+    'deploying', 'removing', 'pausedDeploying', 'pausedRemoving', 'rollingBack', 'rolledBack', 'completed'
+];
+
+const DEPLOYED_STATES: PortainerEdgeStackState[] = ['running', 'completed'];
+const COMPOSE_DEPLOYMENT = 0;
+const DEFAULT_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_WAIT_INTERVAL_MS = 5000;
+
+/**
+ * Reduces an agent's status history to its latest state.
+ */
+function toEnvironmentStatus(environmentId: number, deployment?: PortainerEdgeStackDeployment): PortainerEdgeStackEnvironmentStatus {
+    const latest = deployment?.Status?.at(-1);
+    return {
+        environmentId,
+        state: latest ? EDGE_STACK_STATES[latest.Type] ?? 'unknown' : 'pending',
+        version: deployment?.DeploymentInfo?.Version ?? null,
+        error: latest?.Error || null,
+        updatedAt: latest?.Time ?? null,
+    };
+}
+
+export function EdgeStacksMixin<TBase extends Constructor<EdgeStacksMixinBase>>(Base: TBase) {
+    return class extends Base {
+        /**
+         * Validates edge stack ID parameter
+         */
+        validateEdgeStackId(edgeStackId: number): boolean {
+            if (!isValidId(edgeStackId)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid edgeStackId: must be a positive integer'), false);
+            }
+            return true;
+        }
+
+        /**
+         * Fetches all edge stacks.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeStack[] | undefined>} A promise that resolves to an array of edge stacks.
+         */
+        async getEdgeStacks(options?: PortainerRequestOptions): Promise<PortainerEdgeStack[] | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch edge stacks.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerEdgeStack[]>('/api/edge_stacks', requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to fetch edge stacks'), undefined);
+            }
+        }
+
+        /**
+         * Fetches an edge stack.
+         * @param edgeStackId - The ID of the edge stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeStack | undefined>} A promise that resolves to the edge stack.
+         */
+        async getEdgeStack(edgeStackId: number, options?: PortainerRequestOptions): Promise<PortainerEdgeStack | undefined> {
+            const request = withDeadline(options);
+
+            if (!this.validateEdgeStackId(edgeStackId)) {
+                return undefined;
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch edge stack.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerEdgeStack>(`/api/edge_stacks/${edgeStackId}`, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to fetch edge stack ${edgeStackId}`), undefined);
+            }
+        }
+
+        /**
+         * Fetches the compose file of an edge stack.
+         * @param edgeStackId - The ID of the edge stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<string | undefined>} A promise that resolves to the compose file content.
+         */
+        async getEdgeStackFileContent(edgeStackId: number, options?: PortainerRequestOptions): Promise<string | undefined> {
+            const request = withDeadline(options);
+
+            if (!this.validateEdgeStackId(edgeStackId)) {
+                return undefined;
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch edge stack file.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get(`/api/edge_stacks/${edgeStackId}/file`, requestConfig(request));
+                return response.data.StackFileContent || '';
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to fetch the file of edge stack ${edgeStackId}`), undefined);
+            }
+        }
+
+        /**
+         * Creates a Compose edge stack and deploys it to the given edge groups.
+         * @param stack - The name, compose content and edge groups (IDs or names) of the stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeStack | undefined>} A promise that resolves to the created edge stack.
+         */
+        async createEdgeStack(stack: PortainerEdgeStackOptions, options?: PortainerRequestOptions): Promise<PortainerEdgeStack | undefined> {
+            const request = withDeadline(options);
+
+            if (!stack || typeof stack !== 'object' || !stack.name || typeof stack.name !== 'string') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid edge stack: name must be a non-empty string'), undefined);
+            }
+
+            if (typeof stack.composeContent !== 'string' || !stack.composeContent.trim()) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid composeContent: must be a non-empty string'), undefined);
+            }
+
+            if (!Array.isArray(stack.edgeGroups) || stack.edgeGroups.length === 0) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid edgeGroups: must target at least one edge group'), undefined);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot create edge stack.'), undefined);
+            }
+
+            const edgeGroups = await this.resolveEdgeGroupIds(stack.edgeGroups, request);
+            if (!edgeGroups) {
+                return undefined;
+            }
+
+            try {
+                logInfo(`Creating edge stack "${stack.name}" for edge groups ${edgeGroups.join(', ')}...`);
+                const response = await this.auth.axiosInstance.post<PortainerEdgeStack>('/api/edge_stacks/create/string', {
+                    name: stack.name,
+                    stackFileContent: stack.composeContent,
+                    edgeGroups,
+                    deploymentType: COMPOSE_DEPLOYMENT,
+                }, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to create edge stack "${stack.name}"`), undefined);
+            }
+        }
+
+        /**
+         * Writes an edge stack back to Portainer, keeping whatever `changes` leaves out.
+         * With `redeploy`, the stack version is bumped so every targeted agent deploys it again.
+         */
+        async saveEdgeStack(edgeStackId: number, changes: PortainerEdgeStackUpdate, redeploy: boolean, request: PortainerRequestOptions): Promise<PortainerEdgeStack | undefined> {
+            const current = await this.getEdgeStack(edgeStackId, request);
+            if (!current) {
+                return undefined;
+            }
+
+            const edgeGroups = changes.edgeGroups ? await this.resolveEdgeGroupIds(changes.edgeGroups, request) : current.EdgeGroups;
+            if (!edgeGroups) {
+                return undefined;
+            }
+
+            const composeContent = changes.composeContent ?? await this.getEdgeStackFileContent(edgeStackId, request);
+            if (composeContent === undefined) {
+                return undefined;
+            }
+
+            try {
+                logInfo(`${redeploy ? 'Redeploying' : 'Updating'} edge stack ${edgeStackId}...`);
+                const response = await this.auth.axiosInstance.put<PortainerEdgeStack>(`/api/edge_stacks/${edgeStackId}`, {
+                    stackFileContent: composeContent,
+                    edgeGroups,
+                    deploymentType: current.DeploymentType,
+                    updateVersion: redeploy,
+                }, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to ${redeploy ? 'redeploy' : 'update'} edge stack ${edgeStackId}`), undefined);
+            }
+        }
+
+        /**
+         * Updates an edge stack. New compose content is rolled out to every targeted environment;
+         * changing only the edge groups deploys to added environments and removes the stack from dropped ones.
+         * @param edgeStackId - The ID of the edge stack.
+         * @param changes - The new compose content and/or edge groups (IDs or names).
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeStack | undefined>} A promise that resolves to the updated edge stack.
+         */
+        async updateEdgeStack(edgeStackId: number, changes: PortainerEdgeStackUpdate, options?: PortainerRequestOptions): Promise<PortainerEdgeStack | undefined> {
+            const request = withDeadline(options);
+
+            if (!this.validateEdgeStackId(edgeStackId)) {
+                return undefined;
+            }
+
+            if (!changes || typeof changes !== 'object' || (changes.composeContent === undefined && changes.edgeGroups === undefined)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid changes: must set composeContent and/or edgeGroups'), undefined);
+            }
+
+            if (changes.composeContent !== undefined && (typeof changes.composeContent !== 'string' || !changes.composeContent.trim())) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid composeContent: must be a non-empty string'), undefined);
+            }
+
+            if (changes.edgeGroups !== undefined && (!Array.isArray(changes.edgeGroups) || changes.edgeGroups.length === 0)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid edgeGroups: must target at least one edge group'), undefined);
+            }
+
+            return this.saveEdgeStack(edgeStackId, changes, changes.composeContent !== undefined, request);
+        }
+
+        /**
+         * Redeploys an edge stack unchanged to every targeted environment, e.g. to pick up new images.
+         * @param edgeStackId - The ID of the edge stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeStack | undefined>} A promise that resolves to the edge stack with its new version.
+         */
+        async redeployEdgeStack(edgeStackId: number, options?: PortainerRequestOptions): Promise<PortainerEdgeStack | undefined> {
+            const request = withDeadline(options);
+
+            if (!this.validateEdgeStackId(edgeStackId)) {
+                return undefined;
+            }
+
+            return this.saveEdgeStack(edgeStackId, {}, true, request);
+        }
+
+        /**
+         * Deletes an edge stack, removing it from every environment it was deployed to.
+         * @param edgeStackId - The ID of the edge stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true if the edge stack was deleted.
+         */
+        async deleteEdgeStack(edgeStackId: number, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!this.validateEdgeStackId(edgeStackId)) {
+                return false;
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot delete edge stack.'), false);
+            }
+
+            try {
+                logInfo(`Deleting edge stack ${edgeStackId}...`);
+                await this.auth.axiosInstance.delete(`/api/edge_stacks/${edgeStackId}`, requestConfig(request));
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to delete edge stack ${edgeStackId}`), false);
+            }
+        }
+
+        /**
+         * Fetches an edge stack together with the latest state of every environment it targets.
+         * Environments whose agent has not reported yet are included as `pending`.
+         */
+        async getEdgeStackDeployments(edgeStackId: number, request: PortainerRequestOptions): Promise<{ stack: PortainerEdgeStack; statuses: PortainerEdgeStackEnvironmentStatus[] } | undefined> {
+            const stack = await this.getEdgeStack(edgeStackId, request);
+            if (!stack) {
+                return undefined;
+            }
+
+            const groups = await this.getEdgeGroups(request);
+            if (!groups) {
+                return undefined;
+            }
+
+            const targets = new Set(groups.filter(group => stack.EdgeGroups.includes(group.Id)).flatMap(group => group.Endpoints));
+            for (const environmentId of Object.keys(stack.Status ?? {})) {
+                targets.add(Number(environmentId));
+            }
+
+            const statuses = [...targets]
+                .sort((a, b) => a - b)
+                .map(environmentId => toEnvironmentStatus(environmentId, stack.Status?.[environmentId]));
+            return { stack, statuses };
+        }
+
+        /**
+         * Fetches the deployment state of an edge stack on each environment it targets.
+         * @param edgeStackId - The ID of the edge stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEdgeStackEnvironmentStatus[] | undefined>} A promise that resolves to one status per targeted environment.
+         */
+        async getEdgeStackStatus(edgeStackId: number, options?: PortainerRequestOptions): Promise<PortainerEdgeStackEnvironmentStatus[] | undefined> {
+            const request = withDeadline(options);
+
+            if (!this.validateEdgeStackId(edgeStackId)) {
+                return undefined;
+            }
+
+            return (await this.getEdgeStackDeployments(edgeStackId, request))?.statuses;
+        }
+
+        /**
+         * Polls an edge stack until every targeted environment runs its current version.
+         * Agents only check in periodically, so expect this to take at least one check-in interval.
+         * @param edgeStackId - The ID of the edge stack.
+         * @param options - Optional: How long to wait (`timeoutMs`, default 5 minutes), how often to poll (`intervalMs`, default 5s) and a `signal`.
+         * @returns {Promise<boolean>} A promise that resolves to true once every environment runs the current version,
+         * or false if an environment reports an error or `timeoutMs` passes first.
+         */
+        async waitForEdgeStackDeployment(edgeStackId: number, options?: PortainerWaitOptions): Promise<boolean> {
+            const timeoutMs = options?.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+            const intervalMs = options?.intervalMs ?? DEFAULT_WAIT_INTERVAL_MS;
+            const signal = options?.signal;
+            const priority = options?.priority ? { priority: options.priority } : {};
+
+            if (!this.validateEdgeStackId(edgeStackId)) {
+                return false;
+            }
+
+            const context = `Failed to wait for edge stack ${edgeStackId}`;
+            const deadline = Date.now() + timeoutMs;
+            let waitingFor: number[] = [];
+
+            while (Date.now() < deadline) {
+                try {
+                    // Each poll may take at most the time that is left
+                    const request = withDeadline({ ...priority, ...(signal ? { signal } : {}), timeoutMs: deadline - Date.now() });
+                    const deployments = await this.getEdgeStackDeployments(edgeStackId, request);
+                    if (!deployments) {
+                        return false;
+                    }
+
+                    const { stack, statuses } = deployments;
+                    const failed = statuses.find(status => status.state === 'error');
+                    if (failed) {
+                        return handleFailure(
+                            this.auth.strict,
+                            new PortainerError(`Edge stack ${edgeStackId} failed on environment ${failed.environmentId}: ${failed.error ?? 'unknown error'}`),
+                            false
+                        );
+                    }
+
+                    // Agents that do not report a version are judged by their state alone
+                    waitingFor = statuses
+                        .filter(status => !DEPLOYED_STATES.includes(status.state) || (status.version !== null && status.version < stack.Version))
+                        .map(status => status.environmentId);
+
+                    if (waitingFor.length === 0) {
+                        if (statuses.length === 0) {
+                            logWarn(`Edge stack ${edgeStackId} does not target any environment`);
+                        }
+                        logInfo(`Edge stack ${edgeStackId} version ${stack.Version} is deployed on ${statuses.length} environments`);
+                        return true;
+                    }
+                } catch (error) {
+                    // Only the caller's signal ends the wait early; a poll cut short by the deadline just means "not deployed yet"
+                    if (signal?.aborted || !isCancellation(error)) {
+                        return handleFailure(this.auth.strict, toPortainerError(error, context), false);
+                    }
+                }
+
+                const pause = Math.min(intervalMs, deadline - Date.now());
+                if (pause > 0) {
+                    await delay(pause, signal).catch(error => { throw toPortainerError(error, context); });
+                }
+            }
+
+            const pending = waitingFor.length > 0 ? ` (still waiting for environments ${waitingFor.join(', ')})` : '';
+            return handleFailure(this.auth.strict, new TimeoutError(`Edge stack ${edgeStackId} was not deployed within ${timeoutMs}ms${pending}`), false);
+        }
+    }
+}
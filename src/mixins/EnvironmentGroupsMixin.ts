@@ -0,0 +1,394 @@
+import { logInfo } from "../../logger.ts";
+import { AuthError, NotFoundError, ValidationError, handleFailure, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
+import { isValidId } from "../validation.ts";
+import type { Constructor, PortainerEndpointGroup, PortainerEndpointGroupOptions, PortainerEnvironment, PortainerTag } from "../types.ts";
+
+interface EnvironmentGroupsMixinBase {
+    auth: {
+        axiosInstance: import("axios").AxiosInstance;
+        ensureValidated: () => Promise<boolean>;
+        strict?: boolean;
+    };
+}
+
+// The built-in group environments fall back to; Portainer refuses to delete it
+const UNASSIGNED_GROUP_ID = 1;
+
+export function EnvironmentGroupsMixin<TBase extends Constructor<EnvironmentGroupsMixinBase>>(Base: TBase) {
+    return class extends Base {
+        /**
+         * Fetches all tags.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerTag[] | undefined>} A promise that resolves to an array of tags.
+         */
+        async getTags(options?: PortainerRequestOptions): Promise<PortainerTag[] | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch tags.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerTag[]>('/api/tags', requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to fetch tags'), undefined);
+            }
+        }
+
+        /**
+         * Creates a tag. Portainer cannot rename tags; delete and recreate them instead.
+         * @param name - The tag name, unique across Portainer.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerTag | undefined>} A promise that resolves to the created tag.
+         */
+        async createTag(name: string, options?: PortainerRequestOptions): Promise<PortainerTag | undefined> {
+            const request = withDeadline(options);
+
+            if (!name || typeof name !== 'string') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid name: must be a non-empty string'), undefined);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot create tag.'), undefined);
+            }
+
+            try {
+                logInfo(`Creating tag "${name}"...`);
+                const response = await this.auth.axiosInstance.post<PortainerTag>('/api/tags', { Name: name }, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to create tag "${name}"`), undefined);
+            }
+        }
+
+        /**
+         * Deletes a tag, removing it from every environment and group that carries it.
+         * @param tag - The ID or name of the tag.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true if the tag was deleted.
+         */
+        async deleteTag(tag: number | string, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot delete tag.'), false);
+            }
+
+            const [tagId] = await this.resolveTagIds([tag], request) ?? [];
+            if (tagId === undefined) {
+                return false;
+            }
+
+            try {
+                logInfo(`Deleting tag ${tagId}...`);
+                await this.auth.axiosInstance.delete(`/api/tags/${tagId}`, requestConfig(request));
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to delete tag ${tagId}`), false);
+            }
+        }
+
+        /**
+         * Resolves tag names to IDs. IDs are passed through without a request.
+         * @param tags - Tag IDs and/or names.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<number[] | undefined>} The tag IDs, or undefined if a tag does not exist.
+         */
+        async resolveTagIds(tags: Array<number | string>, options?: PortainerRequestOptions): Promise<number[] | undefined> {
+            if (!Array.isArray(tags) || tags.some(tag => !isValidId(tag) && (typeof tag !== 'string' || !tag))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid tags: must be tag IDs or non-empty tag names'), undefined);
+            }
+
+            if (tags.every(isValidId)) {
+                return tags;
+            }
+
+            const existing = await this.getTags(options);
+            if (!existing) {
+                return undefined;
+            }
+
+            const ids: number[] = [];
+            for (const tag of tags) {
+                const id = typeof tag === 'number' ? tag : existing.find(candidate => candidate.Name === tag)?.ID;
+                if (id === undefined) {
+                    return handleFailure(this.auth.strict, new NotFoundError(`Tag "${tag}" does not exist`), undefined);
+                }
+                ids.push(id);
+            }
+            return ids;
+        }
+
+        /**
+         * Fetches all environment groups.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEndpointGroup[] | undefined>} A promise that resolves to an array of groups.
+         */
+        async getEnvironmentGroups(options?: PortainerRequestOptions): Promise<PortainerEndpointGroup[] | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch environment groups.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerEndpointGroup[]>('/api/endpoint_groups', requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to fetch environment groups'), undefined);
+            }
+        }
+
+        /**
+         * Fetches an environment group by ID or name.
+         * @param group - The ID or name of the group.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEndpointGroup | undefined>} A promise that resolves to the group, or undefined if it does not exist.
+         */
+        async getEnvironmentGroup(group: number | string, options?: PortainerRequestOptions): Promise<PortainerEndpointGroup | undefined> {
+            const request = withDeadline(options);
+
+            if (!isValidId(group) && (typeof group !== 'string' || !group)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid group: must be a group ID or a non-empty name'), undefined);
+            }
+
+            const groups = await this.getEnvironmentGroups(request);
+            if (!groups) {
+                return undefined;
+            }
+
+            const found = groups.find(candidate => typeof group === 'number' ? candidate.Id === group : candidate.Name === group);
+            if (!found) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Environment group "${group}" does not exist`), undefined);
+            }
+            return found;
+        }
+
+        /**
+         * Creates an environment group.
+         * @param group - The name, plus optional description, tags and environments to move into the group.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEndpointGroup | undefined>} A promise that resolves to the created group.
+         */
+        async createEnvironmentGroup(group: PortainerEndpointGroupOptions, options?: PortainerRequestOptions): Promise<PortainerEndpointGroup | undefined> {
+            const request = withDeadline(options);
+
+            if (!group || typeof group !== 'object' || !group.name || typeof group.name !== 'string') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid group: name must be a non-empty string'), undefined);
+            }
+
+            if (group.environmentIds !== undefined && (!Array.isArray(group.environmentIds) || !group.environmentIds.every(isValidId))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentIds: must be an array of environment IDs'), undefined);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot create environment group.'), undefined);
+            }
+
+            const tagIds = group.tags ? await this.resolveTagIds(group.tags, request) : [];
+            if (!tagIds) {
+                return undefined;
+            }
+
+            try {
+                logInfo(`Creating environment group "${group.name}"...`);
+                const response = await this.auth.axiosInstance.post<PortainerEndpointGroup>('/api/endpoint_groups', {
+                    Name: group.name,
+                    Description: group.description ?? '',
+                    TagIDs: tagIds,
+                    AssociatedEndpoints: group.environmentIds ?? [],
+                }, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to create environment group "${group.name}"`), undefined);
+            }
+        }
+
+        /**
+         * Changes the name, description or tags of an environment group.
+         * Use `addEnvironmentToGroup()` to move environments into it.
+         * @param groupId - The ID of the group.
+         * @param changes - The fields to change; omitted fields are kept.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEndpointGroup | undefined>} A promise that resolves to the updated group.
+         */
+        async updateEnvironmentGroup(groupId: number, changes: Omit<PortainerEndpointGroupOptions, 'environmentIds'>, options?: PortainerRequestOptions): Promise<PortainerEndpointGroup | undefined> {
+            const request = withDeadline(options);
+
+            if (!isValidId(groupId)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid groupId: must be a positive number'), undefined);
+            }
+
+            if (!changes || typeof changes !== 'object') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid changes: must be an object'), undefined);
+            }
+
+            if (changes.name !== undefined && (!changes.name || typeof changes.name !== 'string')) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid name: must be a non-empty string'), undefined);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot update environment group.'), undefined);
+            }
+
+            const tagIds = changes.tags ? await this.resolveTagIds(changes.tags, request) : undefined;
+            if (changes.tags && !tagIds) {
+                return undefined;
+            }
+
+            const payload: Record<string, unknown> = {};
+            if (changes.name !== undefined) payload.Name = changes.name;
+            if (changes.description !== undefined) payload.Description = changes.description;
+            if (tagIds !== undefined) payload.TagIDs = tagIds;
+
+            try {
+                logInfo(`Updating environment group ${groupId}...`);
+                const response = await this.auth.axiosInstance.put<PortainerEndpointGroup>(`/api/endpoint_groups/${groupId}`, payload, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to update environment group ${groupId}`), undefined);
+            }
+        }
+
+        /**
+         * Deletes an environment group. Its environments move to the Unassigned group.
+         * @param groupId - The ID of the group.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true if the group was deleted.
+         */
+        async deleteEnvironmentGroup(groupId: number, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!isValidId(groupId) || groupId === UNASSIGNED_GROUP_ID) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid groupId: must be the ID of a group other than Unassigned'), false);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot delete environment group.'), false);
+            }
+
+            try {
+                logInfo(`Deleting environment group ${groupId}...`);
+                await this.auth.axiosInstance.delete(`/api/endpoint_groups/${groupId}`, requestConfig(request));
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to delete environment group ${groupId}`), false);
+            }
+        }
+
+        /**
+         * Moves an environment into a group.
+         * @param groupId - The ID of the group.
+         * @param environmentId - The ID of the environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true if the environment was moved.
+         */
+        async addEnvironmentToGroup(groupId: number, environmentId: number, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!isValidId(groupId) || !isValidId(environmentId)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid groupId or environmentId: must be positive numbers'), false);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot add environment to group.'), false);
+            }
+
+            try {
+                await this.auth.axiosInstance.put(`/api/endpoint_groups/${groupId}/endpoints/${environmentId}`, null, requestConfig(request));
+                logInfo(`Moved environment ${environmentId} to group ${groupId}`);
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to add environment ${environmentId} to group ${groupId}`), false);
+            }
+        }
+
+        /**
+         * Removes an environment from a group, moving it back to Unassigned.
+         * @param groupId - The ID of the group.
+         * @param environmentId - The ID of the environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true if the environment was removed.
+         */
+        async removeEnvironmentFromGroup(groupId: number, environmentId: number, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!isValidId(groupId) || !isValidId(environmentId)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid groupId or environmentId: must be positive numbers'), false);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot remove environment from group.'), false);
+            }
+
+            try {
+                await this.auth.axiosInstance.delete(`/api/endpoint_groups/${groupId}/endpoints/${environmentId}`, requestConfig(request));
+                logInfo(`Removed environment ${environmentId} from group ${groupId}`);
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to remove environment ${environmentId} from group ${groupId}`), false);
+            }
+        }
+
+        /**
+         * Adds tags to an environment, keeping the tags it already has.
+         * @param environmentId - The ID of the environment.
+         * @param tags - Tag IDs and/or names to add.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEnvironment | undefined>} A promise that resolves to the updated environment.
+         */
+        async tagEnvironment(environmentId: number, tags: Array<number | string>, options?: PortainerRequestOptions): Promise<PortainerEnvironment | undefined> {
+            return this.changeEnvironmentTags(environmentId, tags, (current, changed) => [...new Set([...current, ...changed])], options);
+        }
+
+        /**
+         * Removes tags from an environment.
+         * @param environmentId - The ID of the environment.
+         * @param tags - Tag IDs and/or names to remove.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEnvironment | undefined>} A promise that resolves to the updated environment.
+         */
+        async untagEnvironment(environmentId: number, tags: Array<number | string>, options?: PortainerRequestOptions): Promise<PortainerEnvironment | undefined> {
+            return this.changeEnvironmentTags(environmentId, tags, (current, changed) => current.filter(id => !changed.includes(id)), options);
+        }
+
+        /**
+         * Reads an environment's tags, applies the change and writes them back.
+         */
+        async changeEnvironmentTags(
+            environmentId: number,
+            tags: Array<number | string>,
+            apply: (current: number[], changed: number[]) => number[],
+            options?: PortainerRequestOptions
+        ): Promise<PortainerEnvironment | undefined> {
+            const request = withDeadline(options);
+
+            if (!isValidId(environmentId)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a positive number'), undefined);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot change environment tags.'), undefined);
+            }
+
+            const tagIds = await this.resolveTagIds(tags, request);
+            if (!tagIds) {
+                return undefined;
+            }
+
+            try {
+                const current = await this.auth.axiosInstance.get<PortainerEnvironment>(`/api/endpoints/${environmentId}`, requestConfig(request));
+                const response = await this.auth.axiosInstance.put<PortainerEnvironment>(
+                    `/api/endpoints/${environmentId}`,
+                    { TagIDs: apply(current.data.TagIds ?? [], tagIds) },
+                    requestConfig(request)
+                );
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to change tags of environment ${environmentId}`), undefined);
+            }
+        }
+    }
+}
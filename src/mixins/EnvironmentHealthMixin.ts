@@ -0,0 +1,179 @@
+import { logInfo, logWarn } from "../../logger.ts";
+import { AuthError, EnvironmentUnavailableError, TimeoutError, ValidationError, handleFailure, isCancellation, toPortainerError } from "../errors.ts";
+import { delay, requestConfig, withDeadline, type PortainerRequestOptions, type PortainerWaitOptions } from "../request.ts";
+import type { Constructor, PortainerDockerInfo, PortainerDockerVersion } from "../types.ts";
+
+interface EnvironmentHealthMixinBase {
+    auth: {
+        axiosInstance: import("axios").AxiosInstance;
+        ensureValidated: () => Promise<boolean>;
+        strict?: boolean;
+    };
+    ensureEnvId: () => Promise<number | null>;
+}
+
+const DEFAULT_WAIT_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_WAIT_INTERVAL_MS = 2000;
+
+export function EnvironmentHealthMixin<TBase extends Constructor<EnvironmentHealthMixinBase>>(Base: TBase) {
+    return class extends Base {
+        /**
+         * Validates the environment ID and falls back to the client's environment.
+         */
+        async resolveHealthEnvironmentId(environmentId: number | null | undefined, action: string): Promise<number | null> {
+            if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), null);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError(`Authentication is not validated. Cannot ${action}.`), null);
+            }
+
+            const resolvedEnvId = environmentId ?? await this.ensureEnvId();
+            if (resolvedEnvId === null) {
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError(`No Portainer environments found. Cannot ${action}.`), null);
+            }
+
+            return resolvedEnvId;
+        }
+
+        /**
+         * Checks whether the Docker host behind an environment answers, using Docker's `/_ping` through Portainer.
+         * An unreachable host is an answer, so it returns false even in strict mode; other failures (e.g. auth) follow strict mode.
+         * @param environmentId - Optional: The ID of the environment, defaults to the client's environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true if the Docker host is reachable.
+         */
+        async pingEnvironment(environmentId?: number | null, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            const resolvedEnvId = await this.resolveHealthEnvironmentId(environmentId, 'ping environment');
+            if (resolvedEnvId === null) {
+                return false;
+            }
+
+            try {
+                // A health probe should answer now, not after the retry policy's backoff
+                await this.auth.axiosInstance.get(`/api/endpoints/${resolvedEnvId}/docker/_ping`, { ...requestConfig(request), retry: false });
+                return true;
+            } catch (error) {
+                const failure = toPortainerError(error, `Failed to ping environment ${resolvedEnvId}`);
+                if (!isCancellation(error) && (failure instanceof EnvironmentUnavailableError || failure instanceof TimeoutError)) {
+                    logWarn(`Environment ${resolvedEnvId} is not reachable: ${failure.message}`);
+                    return false;
+                }
+                return handleFailure(this.auth.strict, failure, false);
+            }
+        }
+
+        /**
+         * Fetches Docker's `/info` for the host behind an environment.
+         * @param environmentId - Optional: The ID of the environment, defaults to the client's environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerDockerInfo | undefined>} A promise that resolves to the engine info.
+         */
+        async getDockerInfo(environmentId?: number | null, options?: PortainerRequestOptions): Promise<PortainerDockerInfo | undefined> {
+            const request = withDeadline(options);
+
+            const resolvedEnvId = await this.resolveHealthEnvironmentId(environmentId, 'fetch Docker info');
+            if (resolvedEnvId === null) {
+                return undefined;
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerDockerInfo>(`/api/endpoints/${resolvedEnvId}/docker/info`, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to fetch Docker info for environment ${resolvedEnvId}`), undefined);
+            }
+        }
+
+        /**
+         * Fetches Docker's `/version` for the host behind an environment.
+         * @param environmentId - Optional: The ID of the environment, defaults to the client's environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerDockerVersion | undefined>} A promise that resolves to the engine version.
+         */
+        async getDockerVersion(environmentId?: number | null, options?: PortainerRequestOptions): Promise<PortainerDockerVersion | undefined> {
+            const request = withDeadline(options);
+
+            const resolvedEnvId = await this.resolveHealthEnvironmentId(environmentId, 'fetch Docker version');
+            if (resolvedEnvId === null) {
+                return undefined;
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerDockerVersion>(`/api/endpoints/${resolvedEnvId}/docker/version`, requestConfig(request));
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to fetch Docker version for environment ${resolvedEnvId}`), undefined);
+            }
+        }
+
+        /**
+         * Fetches the ID of the Swarm cluster an environment manages, as needed to deploy Swarm stacks.
+         * @param environmentId - Optional: The ID of the environment, defaults to the client's environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<string | undefined>} A promise that resolves to the Swarm ID, or undefined if the host is not a Swarm manager.
+         */
+        async getSwarmId(environmentId?: number | null, options?: PortainerRequestOptions): Promise<string | undefined> {
+            const request = withDeadline(options);
+
+            const info = await this.getDockerInfo(environmentId, request);
+            if (!info) {
+                return undefined;
+            }
+
+            // Only managers know the cluster ID; workers cannot deploy stacks
+            const swarmId = info.Swarm?.LocalNodeState === 'active' ? info.Swarm.Cluster?.ID : undefined;
+            if (!swarmId) {
+                const reason = info.Swarm?.LocalNodeState === 'active' ? 'is not a Swarm manager' : 'is not part of a Swarm';
+                return handleFailure(this.auth.strict, new ValidationError(`Docker host "${info.Name}" ${reason}`), undefined);
+            }
+            return swarmId;
+        }
+
+        /**
+         * Pings an environment until its Docker host answers.
+         * @param environmentId - Optional: The ID of the environment, defaults to the client's environment.
+         * @param options - Optional: How long to wait (`timeoutMs`, default 60s), how often to ping (`intervalMs`, default 2s) and a `signal`.
+         * @returns {Promise<boolean>} A promise that resolves to true once the environment is up, or false if `timeoutMs` passes first.
+         */
+        async waitForEnvironmentUp(environmentId?: number | null, options?: PortainerWaitOptions): Promise<boolean> {
+            const timeoutMs = options?.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+            const intervalMs = options?.intervalMs ?? DEFAULT_WAIT_INTERVAL_MS;
+            const signal = options?.signal;
+            const priority = options?.priority ? { priority: options.priority } : {};
+
+            const resolvedEnvId = await this.resolveHealthEnvironmentId(environmentId, 'wait for environment');
+            if (resolvedEnvId === null) {
+                return false;
+            }
+
+            const context = `Failed to wait for environment ${resolvedEnvId}`;
+            const deadline = Date.now() + timeoutMs;
+
+            while (Date.now() < deadline) {
+                try {
+                    // Each ping may take at most the time that is left
+                    if (await this.pingEnvironment(resolvedEnvId, { ...priority, ...(signal ? { signal } : {}), timeoutMs: deadline - Date.now() })) {
+                        logInfo(`Environment ${resolvedEnvId} is up`);
+                        return true;
+                    }
+                } catch (error) {
+                    // Only the caller's signal ends the wait early; a ping cut short by the deadline just means "not up yet"
+                    if (signal?.aborted || !isCancellation(error)) {
+                        return handleFailure(this.auth.strict, toPortainerError(error, context), false);
+                    }
+                }
+
+                const pause = Math.min(intervalMs, deadline - Date.now());
+                if (pause > 0) {
+                    await delay(pause, signal).catch(error => { throw toPortainerError(error, context); });
+                }
+            }
+
+            return handleFailure(this.auth.strict, new TimeoutError(`Environment ${resolvedEnvId} did not come up within ${timeoutMs}ms`), false);
+        }
+    }
+}
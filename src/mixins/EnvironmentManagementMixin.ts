@@ -0,0 +1,311 @@
+import { logInfo } from "../../logger.ts";
+import { AuthError, EnvironmentUnavailableError, NotFoundError, ValidationError, handleFailure, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
+import type {
+    Constructor,
+    PortainerEnvironment,
+    PortainerEnvironmentCreateOptions,
+    PortainerEnvironmentTls,
+    PortainerEnvironmentUpdate
+} from "../types.ts";
+
+interface EnvironmentManagementMixinBase {
+    auth: {
+        axiosInstance: import("axios").AxiosInstance;
+        ensureValidated: () => Promise<boolean>;
+        strict?: boolean;
+        PortainerUrl: string;
+    };
+    ensureEnvId: () => Promise<number | null>;
+}
+
+// EndpointCreationType values of POST /api/endpoints
+const CREATION_TYPES = { docker: 1, agent: 2, edge: 4 } as const;
+
+/**
+ * Appends a PEM certificate or key to the form as a file upload.
+ */
+function appendPem(form: FormData, field: string, pem: string | Buffer, fileName: string) {
+    form.append(field, new Blob([typeof pem === 'string' ? pem : new Uint8Array(pem)]), fileName);
+}
+
+/**
+ * Builds the TLS fields of the create form for a Docker API over TCP.
+ */
+function appendTls(form: FormData, tls: PortainerEnvironmentTls) {
+    form.append('TLS', 'true');
+    form.append('TLSSkipVerify', tls.insecure ? 'true' : 'false');
+    form.append('TLSSkipClientVerify', tls.cert && tls.key ? 'false' : 'true');
+
+    if (tls.ca) {
+        appendPem(form, 'TLSCACertFile', tls.ca, 'ca.pem');
+    }
+    if (tls.cert && tls.key) {
+        appendPem(form, 'TLSCertFile', tls.cert, 'cert.pem');
+        appendPem(form, 'TLSKeyFile', tls.key, 'key.pem');
+    }
+}
+
+export function EnvironmentManagementMixin<TBase extends Constructor<EnvironmentManagementMixinBase>>(Base: TBase) {
+    return class extends Base {
+        /**
+         * Validates the options for a new environment
+         */
+        validateEnvironmentOptions(environment: PortainerEnvironmentCreateOptions): boolean {
+            if (!environment || typeof environment !== 'object') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environment: must be an object'), false);
+            }
+
+            if (!(environment.type in CREATION_TYPES)) {
+                return handleFailure(this.auth.strict, new ValidationError(`Invalid type: must be one of ${Object.keys(CREATION_TYPES).join(', ')}`), false);
+            }
+
+            if (!environment.name || typeof environment.name !== 'string') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid name: must be a non-empty string'), false);
+            }
+
+            if (environment.type !== 'edge' && (!environment.url || typeof environment.url !== 'string')) {
+                return handleFailure(this.auth.strict, new ValidationError(`Invalid url: required for ${environment.type} environments`), false);
+            }
+
+            if (environment.type === 'docker' && environment.tls && !environment.tls.cert !== !environment.tls.key) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid tls: cert and key must be given together'), false);
+            }
+
+            if (environment.type === 'docker' && environment.tls && !environment.tls.ca && environment.tls.insecure !== true) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid tls: pass a ca to verify the Docker API with, or set insecure to skip verification'), false);
+            }
+
+            if (environment.tagIds !== undefined && (!Array.isArray(environment.tagIds) || environment.tagIds.some(id => typeof id !== 'number'))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid tagIds: must be an array of numbers'), false);
+            }
+
+            return true;
+        }
+
+        /**
+         * Registers a new environment with Portainer.
+         * Docker APIs are reached over TCP (with TLS if `tls` is set), agents over their agent port, and Edge Agents
+         * connect to Portainer themselves using the `EdgeKey` of the returned environment.
+         * @param environment - The kind of environment and its connection settings.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEnvironment | undefined>} A promise that resolves to the created environment.
+         */
+        async createEnvironment(environment: PortainerEnvironmentCreateOptions, options?: PortainerRequestOptions): Promise<PortainerEnvironment | undefined> {
+            const request = withDeadline(options);
+
+            if (!this.validateEnvironmentOptions(environment)) {
+                return undefined;
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot create environment.'), undefined);
+            }
+
+            const form = new FormData();
+            form.append('Name', environment.name);
+            form.append('EndpointCreationType', String(CREATION_TYPES[environment.type]));
+
+            switch (environment.type) {
+                case 'docker':
+                    form.append('URL', environment.url);
+                    if (environment.tls) {
+                        appendTls(form, environment.tls);
+                    }
+                    break;
+                case 'agent':
+                    // Agents always talk TLS with a certificate Portainer cannot verify
+                    form.append('URL', environment.url);
+                    form.append('TLS', 'true');
+                    form.append('TLSSkipVerify', 'true');
+                    form.append('TLSSkipClientVerify', 'true');
+                    break;
+                case 'edge':
+                    form.append('URL', environment.portainerUrl ?? this.auth.PortainerUrl);
+                    if (environment.tunnelServerAddress) {
+                        form.append('EdgeTunnelServerAddress', environment.tunnelServerAddress);
+                    }
+                    if (environment.checkinIntervalSeconds !== undefined) {
+                        form.append('EdgeCheckinInterval', String(environment.checkinIntervalSeconds));
+                    }
+                    break;
+            }
+
+            if (environment.publicUrl) {
+                form.append('PublicURL', environment.publicUrl);
+            }
+            if (environment.groupId !== undefined) {
+                form.append('GroupID', String(environment.groupId));
+            }
+            if (environment.tagIds !== undefined) {
+                form.append('TagIds', JSON.stringify(environment.tagIds));
+            }
+
+            try {
+                logInfo(`Creating ${environment.type} environment "${environment.name}"...`);
+                // The instance defaults to JSON, which would make axios serialize the form
+                const response = await this.auth.axiosInstance.post<PortainerEnvironment>('/api/endpoints', form, {
+                    ...requestConfig(request),
+                    headers: { 'Content-Type': 'multipart/form-data' },
+                });
+                logInfo(`Environment "${environment.name}" created with ID ${response.data.Id}`);
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to create environment "${environment.name}"`), undefined);
+            }
+        }
+
+        /**
+         * Changes the name, URL, public URL, group or tags of an environment.
+         * @param environmentId - The ID of the environment to update.
+         * @param changes - The fields to change; omitted fields are kept.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEnvironment | undefined>} A promise that resolves to the updated environment.
+         */
+        async updateEnvironment(environmentId: number, changes: PortainerEnvironmentUpdate, options?: PortainerRequestOptions): Promise<PortainerEnvironment | undefined> {
+            const request = withDeadline(options);
+
+            if (typeof environmentId !== 'number' || isNaN(environmentId) || environmentId <= 0) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a positive number'), undefined);
+            }
+
+            if (!changes || typeof changes !== 'object') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid changes: must be an object'), undefined);
+            }
+
+            if (changes.name !== undefined && (!changes.name || typeof changes.name !== 'string')) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid name: must be a non-empty string'), undefined);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot update environment.'), undefined);
+            }
+
+            const payload: Record<string, unknown> = {};
+            if (changes.name !== undefined) payload.Name = changes.name;
+            if (changes.url !== undefined) payload.URL = changes.url;
+            if (changes.publicUrl !== undefined) payload.PublicURL = changes.publicUrl;
+            if (changes.groupId !== undefined) payload.GroupID = changes.groupId;
+            if (changes.tagIds !== undefined) payload.TagIDs = changes.tagIds;
+
+            try {
+                logInfo(`Updating environment ${environmentId}...`);
+                const response = await this.auth.axiosInstance.put<PortainerEnvironment>(`/api/endpoints/${environmentId}`, payload, requestConfig(request));
+                logInfo('Environment updated successfully');
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to update environment ${environmentId}`), undefined);
+            }
+        }
+
+        /**
+         * Removes an environment from Portainer. The Docker host or agent itself is left untouched.
+         * @param environmentId - The ID of the environment to delete.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true if the environment was deleted.
+         */
+        async deleteEnvironment(environmentId: number, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (typeof environmentId !== 'number' || isNaN(environmentId) || environmentId <= 0) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a positive number'), false);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot delete environment.'), false);
+            }
+
+            try {
+                logInfo(`Deleting environment ${environmentId}...`);
+                await this.auth.axiosInstance.delete(`/api/endpoints/${environmentId}`, requestConfig(request));
+                logInfo('Environment deleted successfully');
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to delete environment ${environmentId}`), false);
+            }
+        }
+
+        /**
+         * Returns the key an Edge Agent needs to connect to an Edge environment (its `EDGE_KEY`).
+         * @param environmentId - Optional: The ID of the Edge environment, defaults to the client's environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<string | undefined>} A promise that resolves to the edge key.
+         */
+        async getEdgeKey(environmentId?: number | null, options?: PortainerRequestOptions): Promise<string | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot get edge key.'), undefined);
+            }
+
+            if (environmentId === null || environmentId === undefined) {
+                environmentId = await this.ensureEnvId();
+            }
+
+            if (environmentId === null) {
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot get edge key.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerEnvironment>(`/api/endpoints/${environmentId}`, requestConfig(request));
+                if (!response.data.EdgeKey) {
+                    return handleFailure(this.auth.strict, new NotFoundError(`Environment ${environmentId} is not an Edge environment`), undefined);
+                }
+                return response.data.EdgeKey;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to get edge key of environment ${environmentId}`), undefined);
+            }
+        }
+
+        /**
+         * Asks Portainer to refresh the snapshot (container, image and volume counts, Docker version, ...) of an environment.
+         * @param environmentId - Optional: The ID of the environment, defaults to the client's environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true once the snapshot was taken.
+         */
+        async snapshotEnvironment(environmentId?: number | null, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot take snapshot.'), false);
+            }
+
+            if (environmentId === null || environmentId === undefined) {
+                environmentId = await this.ensureEnvId();
+            }
+
+            if (environmentId === null) {
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot take snapshot.'), false);
+            }
+
+            try {
+                logInfo(`Refreshing snapshot of environment ${environmentId}...`);
+                await this.auth.axiosInstance.post(`/api/endpoints/${environmentId}/snapshot`, null, requestConfig(request));
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to snapshot environment ${environmentId}`), false);
+            }
+        }
+
+        /**
+         * Asks Portainer to refresh the snapshots of all environments.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} A promise that resolves to true once the snapshots were taken.
+         */
+        async snapshotEnvironments(options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot take snapshots.'), false);
+            }
+
+            try {
+                logInfo('Refreshing snapshots of all environments...');
+                await this.auth.axiosInstance.post('/api/endpoints/snapshot', null, requestConfig(request));
+                return true;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to snapshot environments'), false);
+            }
+        }
+    }
+}
@@ -1,60 +1,188 @@
-import { logError, logInfo, logWarn } from "../../logger.ts";
+import { logInfo, logWarn } from "../../logger.ts";
 import { PortainerAuth } from "../auth.ts";
-import type { Constructor, PortainerEnvironment } from "../types.ts";
+import { AuthError, EnvironmentUnavailableError, NotFoundError, ValidationError, handleFailure, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
+import type { Constructor, PortainerEndpointGroup, PortainerEnvironment, PortainerEnvironmentFilter, PortainerTag } from "../types.ts";
 import { getFirstEnvironmentId } from "../utils.ts";
 
 export interface EnvironmentsMixinBase {
     auth: PortainerAuth;
     environmentId: number | null;
+    environmentName?: string | null;
+    scoped?: boolean;
 }
 
+const ENVIRONMENT_STATUS = { up: 1, down: 2 } as const;
+
 export function EnvironmentsMixin<TBase extends Constructor<EnvironmentsMixinBase>>(Base: TBase) {
     return class extends Base {
+        /**
+         * Returns a view of this client bound to one environment.
+         * The view shares the auth (session, retries, scheduler) but has its own environment, so calls
+         * without an explicit environment ID go to that environment and `getStacks()` only lists its stacks.
+         * @param environment - The ID or name of the environment. Names are resolved on first use.
+         * @returns A client of the same kind bound to the environment.
+         */
+        forEnvironment(environment: number | string): this {
+            const validId = typeof environment === 'number' && Number.isInteger(environment) && environment > 0;
+            const validName = typeof environment === 'string' && environment.trim() !== '';
+
+            if (!validId && !validName) {
+                throw new ValidationError('Invalid environment: must be a positive integer ID or a non-empty name');
+            }
+
+            const ScopedClient = this.constructor as new (environment: number | string, auth: PortainerAuth) => this;
+            const view = new ScopedClient(environment, this.auth);
+            view.scoped = true;
+            return view;
+        }
+
         /**
          * Fetches details of a specific Portainer environment.
-         * @param environmentId - The ID of the environment to fetch.
+         * @param environmentId - Optional: The ID of the environment to fetch, defaults to the client's environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<PortainerEnvironment | undefined>} A promise that resolves to the environment object.
          */
-        async getEnvironmentDetails(): Promise<PortainerEnvironment | undefined> {
-            try {
-                if (!this.auth.isValidated) {
-                    return undefined;
-                }
+        async getEnvironmentDetails(environmentId?: number | null, options?: PortainerRequestOptions): Promise<PortainerEnvironment | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch environment details.'), undefined);
+            }
+
+            if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), undefined);
+            }
+
+            if (environmentId === null || environmentId === undefined) {
+                environmentId = await this.ensureEnvId();
+            }
 
-                const response = await this.auth.axiosInstance.get<PortainerEnvironment>(`/api/endpoints/${this.environmentId}`);
+            if (environmentId === null) {
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot fetch environment details.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerEnvironment>(`/api/endpoints/${environmentId}`, requestConfig(request));
                 return response.data;
             } catch (error) {
-                logError(`Failed to fetch environment ${this.environmentId}:`, error);
-                return undefined;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to fetch environment ${environmentId}`), undefined);
             }
         }
 
         /**
          * Fetches a list of all Portainer environments (endpoints).
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<PortainerEnvironment[] | undefined>} A promise that resolves to an array of environment objects.
          */
-        async getEnvironments(): Promise<PortainerEnvironment[] | undefined> {
-            try {
-                if (!this.auth.isValidated) {
-                    logError('Authentication is not validated. Cannot fetch environments.');
-                    return undefined;
-                }
+        async getEnvironments(options?: PortainerRequestOptions): Promise<PortainerEnvironment[] | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch environments.'), undefined);
+            }
 
+            try {
                 logInfo('Fetching environments from Portainer...');
 
-                const response = await this.auth.axiosInstance.get<PortainerEnvironment[]>('/api/endpoints');
+                const response = await this.auth.axiosInstance.get<PortainerEnvironment[]>('/api/endpoints', requestConfig(request));
 
                 logInfo(`Fetched ${response.data.length} environments from Portainer.`);
 
                 return response.data;
             } catch (error) {
-                logError('Failed to fetch environments:', error);
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to fetch environments'), undefined);
+            }
+        }
+
+        /**
+         * Fetches the environment with the given name.
+         * @param name - The exact name of the environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEnvironment | undefined>} A promise that resolves to the environment, or undefined if there is none with that name.
+         */
+        async getEnvironmentByName(name: string, options?: PortainerRequestOptions): Promise<PortainerEnvironment | undefined> {
+            const request = withDeadline(options);
+
+            if (!name || typeof name !== 'string') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environment name: must be a non-empty string'), undefined);
+            }
+
+            const environments = await this.getEnvironments(request);
+            if (!environments) {
                 return undefined;
             }
+
+            const environment = environments.find(env => env.Name === name);
+            if (!environment) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Environment "${name}" does not exist`), undefined);
+            }
+
+            return environment;
         }
 
         /**
-         * Ensures that an environment ID is set, fetching the first available if not.
+         * Fetches the environments matching all given criteria.
+         * An environment carries a tag if it is tagged itself or its group is. Tag and group names are resolved
+         * through `/api/tags` and `/api/endpoint_groups`.
+         * @param filter - The tags, group, type and/or status to match.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerEnvironment[] | undefined>} A promise that resolves to the matching environments.
+         */
+        async findEnvironments(filter: PortainerEnvironmentFilter, options?: PortainerRequestOptions): Promise<PortainerEnvironment[] | undefined> {
+            const request = withDeadline(options);
+
+            if (!filter || typeof filter !== 'object') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid filter: must be an object'), undefined);
+            }
+
+            if (filter.status !== undefined && !(filter.status in ENVIRONMENT_STATUS)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid status: must be "up" or "down"'), undefined);
+            }
+
+            const environments = await this.getEnvironments(request);
+            if (!environments) {
+                return undefined;
+            }
+
+            const tagRefs = [...(filter.tag !== undefined ? [filter.tag] : []), ...(filter.tags ?? [])];
+
+            try {
+                const tags = tagRefs.some(tag => typeof tag === 'string') ?
+                    (await this.auth.axiosInstance.get<PortainerTag[]>('/api/tags', requestConfig(request))).data :
+                    [];
+                const groups = typeof filter.group === 'string' || tagRefs.length > 0 ?
+                    (await this.auth.axiosInstance.get<PortainerEndpointGroup[]>('/api/endpoint_groups', requestConfig(request))).data :
+                    [];
+
+                const tagIds = tagRefs.map(ref => typeof ref === 'string' ? tags.find(tag => tag.Name === ref)?.ID : ref);
+                const groupId = typeof filter.group === 'string' ? groups.find(group => group.Name === filter.group)?.Id : filter.group;
+
+                // A tag or group name that does not exist matches nothing
+                if (tagIds.includes(undefined) || (filter.group !== undefined && groupId === undefined)) {
+                    return [];
+                }
+
+                const types = filter.type === undefined ? undefined : ([] as number[]).concat(filter.type);
+                const status = filter.status === undefined ? undefined : ENVIRONMENT_STATUS[filter.status];
+                const carriesTag = (env: PortainerEnvironment, tagId: number | undefined) =>
+                    (env.TagIds ?? []).includes(tagId!) ||
+                    (groups.find(group => group.Id === env.GroupId)?.TagIds ?? []).includes(tagId!);
+
+                return environments.filter(env =>
+                    tagIds.every(tagId => carriesTag(env, tagId)) &&
+                    (groupId === undefined || env.GroupId === groupId) &&
+                    (types === undefined || types.includes(env.Type)) &&
+                    (status === undefined || env.Status === status)
+                );
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to find environments'), undefined);
+            }
+        }
+
+        /**
+         * Ensures that an environment ID is set.
+         * Resolves the configured default environment name if there is one, otherwise falls back to the first environment.
          * @returns {Promise<number | null>} The environment ID or null if none available
          */
         public async ensureEnvId(): Promise<number | null> {
@@ -63,14 +191,31 @@ export function EnvironmentsMixin<TBase extends Constructor<EnvironmentsMixinBas
                 return this.environmentId;
             }
 
+            // Resolve the configured default environment; never fall back to another one
+            if (this.environmentName) {
+                const environment = await this.getEnvironmentByName(this.environmentName);
+                if (!environment) {
+                    return handleFailure(
+                        this.auth.strict,
+                        new EnvironmentUnavailableError(`Default environment "${this.environmentName}" not found. Any Portainer operations requiring an environment ID will fail until it exists.`),
+                        null
+                    );
+                }
+
+                this.environmentId = environment.Id;
+                return this.environmentId;
+            }
+
             // Attempt to get first available environment
-            logWarn('Environment ID is not set, getting default environment ID.');
-            const firstEnvId = await getFirstEnvironmentId();
+            logWarn('Environment ID is not set, getting default environment ID. Set a default environment ID or name to avoid using the wrong environment.');
+            const firstEnvId = await getFirstEnvironmentId(this);
             
             if (firstEnvId === null || firstEnvId === undefined) {
-                logWarn('No Portainer environments found.');
-                logError("ALERT: Any Portainer operations requiring an environment ID will fail until one is set.");
-                return null;
+                return handleFailure(
+                    this.auth.strict,
+                    new EnvironmentUnavailableError('No Portainer environments found. Any Portainer operations requiring an environment ID will fail until one is set.'),
+                    null
+                );
             }
 
             this.environmentId = firstEnvId;
@@ -0,0 +1,193 @@
+import { logInfo } from "../../logger.ts";
+import { AuthError, EnvironmentUnavailableError, NotFoundError, ValidationError, handleFailure, isCancellation, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
+import type {
+    Constructor,
+    PortainerContainer,
+    PortainerEnvironment,
+    PortainerEnvironmentFilter,
+    PortainerFleetFailure,
+    PortainerFleetItem,
+    PortainerFleetOptions,
+    PortainerFleetResult,
+    PortainerImage
+} from "../types.ts";
+
+interface FleetMixinBase {
+    auth: {
+        axiosInstance: import("axios").AxiosInstance;
+        ensureValidated: () => Promise<boolean>;
+        strict?: boolean;
+    };
+    getEnvironments: (options?: PortainerRequestOptions) => Promise<PortainerEnvironment[] | undefined>;
+    findEnvironments: (filter: PortainerEnvironmentFilter, options?: PortainerRequestOptions) => Promise<PortainerEnvironment[] | undefined>;
+}
+
+const DEFAULT_FLEET_CONCURRENCY = 5;
+const ENVIRONMENT_DOWN = 2;
+
+export function FleetMixin<TBase extends Constructor<FleetMixinBase>>(Base: TBase) {
+    return class extends Base {
+        /**
+         * Fetches the environments a fleet query should run against.
+         */
+        async getFleetEnvironments(environments: PortainerEnvironmentFilter | number[] | undefined, request: PortainerRequestOptions): Promise<PortainerEnvironment[] | undefined> {
+            if (Array.isArray(environments)) {
+                const all = await this.getEnvironments(request);
+                return all?.filter(env => environments.includes(env.Id));
+            }
+
+            return environments === undefined ? this.getEnvironments(request) : this.findEnvironments(environments, request);
+        }
+
+        /**
+         * Runs a query against every selected environment, at most `concurrency` at a time.
+         * Environments that are down are not queried. They and the environments whose query fails are
+         * reported in `unavailable`, so one bad environment never fails the whole call. Cancellation does.
+         * Requested IDs that match no environment are reported in `unavailable` too, with an empty `environmentName`.
+         * @param action - What the query does, used in error messages (e.g. "fetch containers").
+         * @param query - Fetches the items of one environment.
+         * @param options - Optional: The environments to query, the concurrency and request options.
+         * @returns {Promise<PortainerFleetResult<T> | undefined>} A promise that resolves to the tagged items and the unavailable environments.
+         */
+        async queryFleet<T>(
+            action: string,
+            query: (environment: PortainerEnvironment, request: PortainerRequestOptions) => Promise<T[]>,
+            options?: PortainerFleetOptions
+        ): Promise<PortainerFleetResult<T> | undefined> {
+            const request = withDeadline(options);
+            const concurrency = options?.concurrency ?? DEFAULT_FLEET_CONCURRENCY;
+
+            if (!Number.isInteger(concurrency) || concurrency < 1) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid concurrency: must be a positive integer'), undefined);
+            }
+
+            if (Array.isArray(options?.environments) && !options.environments.every(id => Number.isInteger(id) && id > 0)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environments: must be a filter or an array of environment IDs'), undefined);
+            }
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError(`Authentication is not validated. Cannot ${action} across environments.`), undefined);
+            }
+
+            const environments = await this.getFleetEnvironments(options?.environments, request);
+            if (!environments) {
+                return undefined;
+            }
+
+            // Requested IDs that match no environment are reported rather than silently left out
+            const missing = Array.isArray(options?.environments)
+                ? [...new Set(options.environments)].filter(id => !environments.some(environment => environment.Id === id))
+                : [];
+
+            logInfo(`Running "${action}" across ${environments.length} environments...`);
+
+            // One slot per environment keeps the output in environment order whatever order the answers arrive in
+            const outcomes: Array<PortainerFleetItem<T>[] | PortainerFleetFailure> = [];
+            const queue = environments.map((environment, index) => ({ environment, index }));
+
+            for (const { environment, index } of queue) {
+                if (environment.Status === ENVIRONMENT_DOWN) {
+                    outcomes[index] = {
+                        environmentId: environment.Id,
+                        environmentName: environment.Name,
+                        error: new EnvironmentUnavailableError(`Environment ${environment.Id} (${environment.Name}) is down`)
+                    };
+                }
+            }
+
+            const pending = queue.filter(({ index }) => outcomes[index] === undefined);
+            const worker = async () => {
+                for (let next = pending.shift(); next; next = pending.shift()) {
+                    const { environment, index } = next;
+                    const tag = { environmentId: environment.Id, environmentName: environment.Name };
+
+                    try {
+                        const items = await query(environment, request);
+                        outcomes[index] = items.map(item => ({ ...item, ...tag }));
+                    } catch (error) {
+                        if (isCancellation(error)) {
+                            throw toPortainerError(error, `Failed to ${action} across environments`);
+                        }
+                        outcomes[index] = { ...tag, error: toPortainerError(error, `Failed to ${action} in environment ${environment.Id}`) };
+                    }
+                }
+            };
+
+            await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+
+            const results: PortainerFleetItem<T>[] = [];
+            const unavailable: PortainerFleetFailure[] = [];
+            for (const outcome of outcomes) {
+                if (Array.isArray(outcome)) {
+                    results.push(...outcome);
+                } else if (outcome) {
+                    unavailable.push(outcome);
+                }
+            }
+            for (const environmentId of missing) {
+                unavailable.push({ environmentId, environmentName: '', error: new NotFoundError(`Environment ${environmentId} not found`) });
+            }
+
+            const total = environments.length + missing.length;
+            logInfo(`"${action}" answered by ${total - unavailable.length} of ${total} environments.`);
+
+            return { results, unavailable };
+        }
+
+        /**
+         * Fetches the containers of every environment.
+         * @param includeAll - Whether to include all containers (running, stopped, etc.).
+         * @param options - Optional: The `environments` to query (a filter or IDs, defaults to all), the `concurrency` (default 5) and request options.
+         * @returns {Promise<PortainerFleetResult<PortainerContainer> | undefined>} A promise that resolves to the containers, tagged with their environment, and the unavailable environments.
+         */
+        async getFleetContainers(includeAll: boolean, options?: PortainerFleetOptions): Promise<PortainerFleetResult<PortainerContainer> | undefined> {
+            if (typeof includeAll !== 'boolean') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid includeAll: must be a boolean'), undefined);
+            }
+
+            return this.queryFleet('fetch containers', async (environment, request) => {
+                const params = { all: includeAll };
+                const response = await this.auth.axiosInstance.get<PortainerContainer[]>(`/api/endpoints/${environment.Id}/docker/containers/json`, { ...requestConfig(request), params });
+                return response.data;
+            }, options);
+        }
+
+        /**
+         * Fetches the Docker images of every environment.
+         * @param options - Optional: The `environments` to query (a filter or IDs, defaults to all), the `concurrency` (default 5) and request options.
+         * @returns {Promise<PortainerFleetResult<PortainerImage> | undefined>} A promise that resolves to the images, tagged with their environment, and the unavailable environments.
+         */
+        async getFleetImages(options?: PortainerFleetOptions): Promise<PortainerFleetResult<PortainerImage> | undefined> {
+            return this.queryFleet('fetch images', async (environment, request) => {
+                const response = await this.auth.axiosInstance.get<PortainerImage[]>(`/api/endpoints/${environment.Id}/docker/images/json`, requestConfig(request));
+                return response.data;
+            }, options);
+        }
+
+        /**
+         * Fetches the details of a container from every environment that has it.
+         * @param identifier - The ID or exact name of the container.
+         * @param options - Optional: The `environments` to query (a filter or IDs, defaults to all), the `concurrency` (default 5) and request options.
+         * @returns {Promise<PortainerFleetResult<PortainerContainer> | undefined>} A promise that resolves to one entry per environment the container exists in, and the unavailable environments.
+         */
+        async getFleetContainerDetails(identifier: string, options?: PortainerFleetOptions): Promise<PortainerFleetResult<PortainerContainer> | undefined> {
+            if (!identifier || typeof identifier !== 'string') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid identifier: must be a non-empty string'), undefined);
+            }
+
+            return this.queryFleet('fetch container details', async (environment, request) => {
+                try {
+                    const response = await this.auth.axiosInstance.get<PortainerContainer>(`/api/endpoints/${environment.Id}/docker/containers/${encodeURIComponent(identifier)}/json`, requestConfig(request));
+                    return [response.data];
+                } catch (error) {
+                    // Not having the container is an answer, not a failure
+                    if (toPortainerError(error) instanceof NotFoundError) {
+                        return [];
+                    }
+                    throw error;
+                }
+            }, options);
+        }
+    }
+}
@@ -0,0 +1,131 @@
+import { logInfo } from "../../logger.ts";
+import { NotFoundError, ValidationError, handleFailure, toPortainerError } from "../errors.ts";
+import { toGitAuthPayload, validateGitSettings } from "../git.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
+import type { Constructor, PortainerGitRedeployOptions, PortainerStack } from "../types.ts";
+
+interface GitStacksMixinBase {
+    auth: {
+        axiosInstance: import("axios").AxiosInstance;
+        strict?: boolean;
+        PortainerUrl: string;
+    };
+    getStack: (stackId: number, options?: PortainerRequestOptions) => Promise<PortainerStack | undefined>;
+}
+
+export function GitStacksMixin<TBase extends Constructor<GitStacksMixinBase>>(Base: TBase) {
+    return class extends Base {
+        /**
+         * Fetches a stack and fails unless it is deployed from a Git repository.
+         */
+        async getGitStack(stackId: number, request: PortainerRequestOptions): Promise<PortainerStack | undefined> {
+            const stack = await this.getStack(stackId, request);
+            if (!stack) {
+                return undefined;
+            }
+
+            if (!stack.GitConfig) {
+                return handleFailure(this.auth.strict, new ValidationError(`Stack ${stackId} is not deployed from a Git repository`), undefined);
+            }
+            return stack;
+        }
+
+        /**
+         * Pulls the latest commit of a Git-backed stack and redeploys it.
+         * Without new `credentials`, the ones saved with the stack are used; without `env`, the current variables are kept.
+         * @param stackId - The ID of the stack.
+         * @param redeploy - Optional: Another branch or tag, credentials, environment variables, and whether to pull images (default) or prune services.
+         * @param environmentId - Optional: The ID of the Portainer environment, defaults to the one the stack runs in
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerStack | undefined>} A promise that resolves to the redeployed stack, with the new commit in `GitConfig.ConfigHash`.
+         */
+        async redeployGitStack(
+            stackId: number,
+            redeploy: PortainerGitRedeployOptions = {},
+            environmentId?: number | null,
+            options?: PortainerRequestOptions
+        ): Promise<PortainerStack | undefined> {
+            const request = withDeadline(options);
+
+            if (typeof stackId !== 'number' || isNaN(stackId) || stackId <= 0) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid stackId: must be a positive number'), undefined);
+            }
+
+            if (!redeploy || typeof redeploy !== 'object') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid redeploy options: must be an object'), undefined);
+            }
+
+            const invalid = validateGitSettings(redeploy.credentials);
+            if (invalid) {
+                return handleFailure(this.auth.strict, invalid, undefined);
+            }
+
+            if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), undefined);
+            }
+
+            const stack = await this.getGitStack(stackId, request);
+            if (!stack) {
+                return undefined;
+            }
+            const resolvedEnvId = environmentId ?? stack.EndpointId;
+
+            // Portainer falls back to the saved password when authentication is on but no password is sent
+            const saved = stack.GitConfig!.Authentication;
+            const auth = redeploy.credentials ? toGitAuthPayload(redeploy.credentials) : saved ? {
+                RepositoryAuthentication: true,
+                RepositoryUsername: saved.Username,
+                ...(saved.GitCredentialID ? { RepositoryGitCredentialID: saved.GitCredentialID } : {}),
+            } : toGitAuthPayload();
+
+            try {
+                logInfo(`Pulling and redeploying stack ${stackId} from ${stack.GitConfig!.URL}...`);
+                const response = await this.auth.axiosInstance.put<PortainerStack>(`/api/stacks/${stackId}/git/redeploy?endpointId=${resolvedEnvId}`, {
+                    RepositoryReferenceName: redeploy.reference ?? stack.GitConfig!.ReferenceName,
+                    ...auth,
+                    Env: redeploy.env ?? stack.Env ?? [],
+                    Prune: redeploy.prune ?? false,
+                    PullImage: redeploy.pullImage ?? true,
+                }, requestConfig(request));
+                logInfo(`Stack ${stackId} redeployed at commit ${response.data.GitConfig?.ConfigHash ?? 'unknown'}`);
+                return response.data;
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to redeploy stack ${stackId} from Git`), undefined);
+            }
+        }
+
+        /**
+         * Fetches the commit a Git-backed stack is deployed at.
+         * @param stackId - The ID of the stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<string | undefined>} A promise that resolves to the commit hash.
+         */
+        async getDeployedCommit(stackId: number, options?: PortainerRequestOptions): Promise<string | undefined> {
+            const request = withDeadline(options);
+
+            const stack = await this.getGitStack(stackId, request);
+            return stack?.GitConfig!.ConfigHash;
+        }
+
+        /**
+         * Returns the URL that redeploys a Git-backed stack when called, e.g. from a repository's push webhook.
+         * The stack must have been created with `autoUpdate.webhook`.
+         * @param stackId - The ID of the stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<string | undefined>} A promise that resolves to the webhook URL.
+         */
+        async getStackWebhookUrl(stackId: number, options?: PortainerRequestOptions): Promise<string | undefined> {
+            const request = withDeadline(options);
+
+            const stack = await this.getGitStack(stackId, request);
+            if (!stack) {
+                return undefined;
+            }
+
+            if (!stack.AutoUpdate?.Webhook) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Stack ${stackId} has no webhook`), undefined);
+            }
+            return `${this.auth.PortainerUrl}/api/stacks/webhooks/${stack.AutoUpdate.Webhook}`;
+        }
+    }
+}
@@ -1,13 +1,17 @@
 import { logError, logInfo, logWarn } from "../../logger.ts";
-import type { Constructor, PortainerContainer } from "../types.ts";
+import { EnvironmentUnavailableError, NotFoundError, ValidationError, handleFailure, isCancellation, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
+import type { Constructor, PortainerContainer, PortainerStack } from "../types.ts";
 import { getStackById, getStackByName } from "../utils.ts";
 
 interface ResourceDeletionMixinBase {
     auth: {
         axiosInstance: import("axios").AxiosInstance;
+        strict?: boolean;
     };
     ensureEnvId: () => Promise<number | null>;
-    getContainers: (includeAll: boolean, environmentId?: number | null) => Promise<PortainerContainer[] | undefined>;
+    getContainers: (includeAll: boolean, environmentId?: number | null, options?: PortainerRequestOptions) => Promise<PortainerContainer[] | undefined>;
+    getStacks: (options?: PortainerRequestOptions) => Promise<PortainerStack[] | undefined>;
 }
 
 export function ResourceDeletionMixin<TBase extends Constructor<ResourceDeletionMixinBase>>(Base: TBase) {
@@ -17,14 +21,12 @@ export function ResourceDeletionMixin<TBase extends Constructor<ResourceDeletion
          */
         validateCleanupParams(containerName: string, environmentId?: number | null): boolean {
             if (!containerName || typeof containerName !== 'string') {
-                logError('Invalid containerName: must be a non-empty string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid containerName: must be a non-empty string'), false);
             }
 
             if (environmentId !== undefined && environmentId !== null && 
                 (typeof environmentId !== 'number' || isNaN(environmentId))) {
-                logError('Invalid environmentId: must be a number, null, or undefined');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), false);
             }
 
             return true;
@@ -47,17 +49,21 @@ export function ResourceDeletionMixin<TBase extends Constructor<ResourceDeletion
          */
         async stopAndRemoveContainer(
             container: PortainerContainer,
-            environmentId: number
+            environmentId: number,
+            options?: PortainerRequestOptions
         ): Promise<void> {
             if (container.State === 'running') {
                 await this.auth.axiosInstance.post(
-                    `/api/endpoints/${environmentId}/docker/containers/${container.Id}/stop`
+                    `/api/endpoints/${environmentId}/docker/containers/${container.Id}/stop`,
+                    null,
+                    requestConfig(options)
                 );
                 logInfo('Container stopped');
             }
 
             await this.auth.axiosInstance.delete(
-                `/api/endpoints/${environmentId}/docker/containers/${container.Id}`
+                `/api/endpoints/${environmentId}/docker/containers/${container.Id}`,
+                requestConfig(options)
             );
             logInfo('Container removed');
         }
@@ -65,9 +71,12 @@ export function ResourceDeletionMixin<TBase extends Constructor<ResourceDeletion
          * Clean up any existing container with the same name
          * @param containerName - The name of the container to clean up
          * @param environmentId - Optional: The ID of the Portainer environment
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<boolean>} Promise resolving to true if a container was cleaned up, false otherwise
          */
-        async cleanupExistingContainer(containerName: string, environmentId?: number | null): Promise<boolean> {
+        async cleanupExistingContainer(containerName: string, environmentId?: number | null, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
             // Validate parameters
             if (!this.validateCleanupParams(containerName, environmentId)) {
                 return false;
@@ -81,12 +90,11 @@ export function ResourceDeletionMixin<TBase extends Constructor<ResourceDeletion
                 }
     
                 if (resolvedEnvId === null) {
-                    logError('No Portainer environments found. Cannot cleanup container.');
-                    return false;
+                    return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot cleanup container.'), false);
                 }
     
                 // Get containers and find target
-                const containers = await this.getContainers(true);
+                const containers = await this.getContainers(true, resolvedEnvId, request);
                 if (!containers) {
                     logError("No containers found, canceled cleanup operation.")
                     return false;
@@ -96,12 +104,15 @@ export function ResourceDeletionMixin<TBase extends Constructor<ResourceDeletion
     
                 if (existingContainer) {
                     logInfo(`Cleaning up existing container "${containerName}" (ID: ${existingContainer.Id})`);
-                    await this.stopAndRemoveContainer(existingContainer, resolvedEnvId);
+                    await this.stopAndRemoveContainer(existingContainer, resolvedEnvId, request);
                     return true;
                 }
                 
                 return false;
             } catch (error) {
+                if (isCancellation(error)) {
+                    return handleFailure(this.auth.strict, toPortainerError(error, `Failed to cleanup existing container "${containerName}"`), false);
+                }
                 logWarn(`Warning: Failed to cleanup existing container "${containerName}":`, error);
                 return false;
             }
@@ -110,42 +121,43 @@ export function ResourceDeletionMixin<TBase extends Constructor<ResourceDeletion
          * Delete a stack from Portainer using the given stack id.
          * @param stackId - The ID of the stack to delete
          * @param environmentId - Optional: The ID of the Portainer environment
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<Record<string, unknown> | undefined>} Promise resolving to the delete operation result
          */
-        deleteStack(stackId: number, environmentId?: number | null): Promise<Record<string, unknown> | undefined>;
+        deleteStack(stackId: number, environmentId?: number | null, options?: PortainerRequestOptions): Promise<Record<string, unknown> | undefined>;
         /**
         * Delete a stack from Portainer using the given stack id.
         * @param stackId - The ID of the stack to delete
         * @param environmentId - Optional: The ID of the Portainer environment
+        * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
         * @returns {Promise<Record<string, unknown> | undefined>} Promise resolving to the delete operation result
         */
-        deleteStack(stackName: string, environmentId?: number | null): Promise<Record<string, unknown> | undefined>;
+        deleteStack(stackName: string, environmentId?: number | null, options?: PortainerRequestOptions): Promise<Record<string, unknown> | undefined>;
 
         /**
          * Delete a stack from Portainer using the given stack id.
          * @param stackId - The ID of the stack to delete
          * @param environmentId - Optional: The ID of the Portainer environment
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<Record<string, unknown> | undefined>} Promise resolving to the delete operation result
          */
-        async deleteStack(stackId: number | string, environmentId?: number | null): Promise<Record<string, unknown> | undefined> {
+        async deleteStack(stackId: number | string, environmentId?: number | null, options?: PortainerRequestOptions): Promise<Record<string, unknown> | undefined> {
+            const request = withDeadline(options);
+
             if (typeof stackId !== 'number' && typeof stackId !== 'string') {
-                logError('Invalid stackId: must be a number or string');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid stackId: must be a number or string'), undefined);
             }
 
             if (typeof stackId === 'number' && (isNaN(stackId) || stackId <= 0)) {
-                logError('Invalid stackId: must be a positive number');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid stackId: must be a positive number'), undefined);
             }
 
             if (typeof stackId === 'string' && !stackId.trim()) {
-                logError('Invalid stackId: string must not be empty');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid stackId: string must not be empty'), undefined);
             }
 
             if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
-                logError('Invalid environmentId: must be a number, null, or undefined');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), undefined);
             }
 
             if (environmentId === null || environmentId === undefined) {
@@ -153,35 +165,31 @@ export function ResourceDeletionMixin<TBase extends Constructor<ResourceDeletion
             }
 
             if (environmentId === null) {
-                logError('No Portainer environments found. Cannot delete stack.');
-                return undefined;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot delete stack.'), undefined);
             }
 
             if (typeof stackId === "number") {
-                const stack = await getStackById(stackId, environmentId);
+                const stack = await getStackById(stackId, environmentId, this, request);
                 if (!stack) {
-                    logError(`Stack ID ${stackId} does not exist in environment ${environmentId}`);
-                    return undefined;
+                    return handleFailure(this.auth.strict, new NotFoundError(`Stack ID ${stackId} does not exist in environment ${environmentId}`), undefined);
                 }
             }
 
             if (typeof stackId === "string") {
-                const stack = await getStackByName(stackId);
+                const stack = await getStackByName(stackId, this, request);
                 if (!stack) {
-                    logError(`Stack with name "${stackId}" does not exist in environment ${environmentId}`);
-                    return undefined;
+                    return handleFailure(this.auth.strict, new NotFoundError(`Stack with name "${stackId}" does not exist in environment ${environmentId}`), undefined);
                 }
                 stackId = stack.Id;
             }
 
             try {
                 logInfo(`Deleting stack ${stackId} from environment ${environmentId}...`);
-                const response = await this.auth.axiosInstance.delete(`/api/stacks/${stackId}?endpointId=${environmentId}`);
+                const response = await this.auth.axiosInstance.delete(`/api/stacks/${stackId}?endpointId=${environmentId}`, requestConfig(request));
                 logInfo('Stack deleted successfully');
                 return response.data;
             } catch (error) {
-                logError(`Failed to delete stack ${stackId}:`, error);
-                return undefined;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to delete stack ${stackId}`), undefined);
             }
         }
     }
@@ -1,32 +1,85 @@
-import { logError } from "../../logger.ts";
-import type { Constructor, PortainerContainer, PortainerImage, PortainerStack } from "../types.ts";
+import { AuthError, EnvironmentUnavailableError, NotFoundError, ValidationError, handleFailure, isCancellation, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
+import { SWARM_STACK } from "../stacks.ts";
+import type { Constructor, PortainerContainer, PortainerImage, PortainerStack, PortainerStackService, PortainerSystemStatus } from "../types.ts";
 
 interface ResourceFetchingMixinBase {
     auth: {
         axiosInstance: import("axios").AxiosInstance;
         isValidated: boolean;
+        ensureValidated: () => Promise<boolean>;
+        strict?: boolean;
     };
     ensureEnvId: () => Promise<number | null>;
+    scoped?: boolean;
+}
+
+/**
+ * Returns the service of a stack a container belongs to, or undefined if it is not part of the stack.
+ * Compose lowercases project names, so they are compared case-insensitively.
+ */
+function stackServiceName(container: PortainerContainer, stack: PortainerStack): string | undefined {
+    const labels = container.Labels ?? {};
+
+    if (stack.Type === SWARM_STACK) {
+        // Swarm service names are prefixed with the stack name, e.g. "web_api"
+        const service = labels['com.docker.swarm.service.name'];
+        return labels['com.docker.stack.namespace'] === stack.Name && service ? service.replace(`${stack.Name}_`, '') : undefined;
+    }
+
+    return labels['com.docker.compose.project']?.toLowerCase() === stack.Name.toLowerCase() ? labels['com.docker.compose.service'] : undefined;
 }
 
 export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetchingMixinBase>>(Base: TBase) {
     return class extends Base {
         /**
          * Fetches a list of all stacks managed by Portainer.
+         * On a view from `forEnvironment()`, only the stacks of that environment are returned.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<PortainerStack[] | undefined>} A promise that resolves to an array of stack objects.
          */
-        async getStacks(): Promise<PortainerStack[] | undefined> {
+        async getStacks(options?: PortainerRequestOptions): Promise<PortainerStack[] | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch stacks.'), undefined);
+            }
+
+            const environmentId = this.scoped ? await this.ensureEnvId() : null;
+            if (this.scoped && environmentId === null) {
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('Environment not found. Cannot fetch stacks.'), undefined);
+            }
+
             try {
-                if (!this.auth.isValidated) {
-                    logError('Authentication is not validated. Cannot fetch stacks.');
-                    return undefined;
-                }
+                const response = await this.auth.axiosInstance.get<PortainerStack[]>('/api/stacks', requestConfig(request));
+                return environmentId === null ? response.data : response.data.filter(stack => stack.EndpointId === environmentId);
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to fetch stacks'), undefined);
+            }
+        }
+
+        /**
+         * Fetches a single stack.
+         * @param stackId - The ID of the stack.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerStack | undefined>} A promise that resolves to the stack.
+         */
+        async getStack(stackId: number, options?: PortainerRequestOptions): Promise<PortainerStack | undefined> {
+            const request = withDeadline(options);
+
+            if (typeof stackId !== 'number' || isNaN(stackId) || stackId <= 0) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid stackId: must be a positive number'), undefined);
+            }
 
-                const response = await this.auth.axiosInstance.get<PortainerStack[]>('/api/stacks');
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch stack.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerStack>(`/api/stacks/${stackId}`, requestConfig(request));
                 return response.data;
             } catch (error) {
-                logError('Failed to fetch stacks:', error);
-                return undefined;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to fetch stack ${stackId}`), undefined);
             }
         }
 
@@ -35,22 +88,22 @@ export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetching
          * This proxies the Docker API's /containers/json endpoint.
          * @param includeAll - Whether to include all containers (running, stopped, etc.).
          * @param environmentId - Optional: The ID of the Portainer environment. Defaults to `this.defaultEnvironmentId`.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<PortainerContainer[] | undefined>} A promise that resolves to an array of container objects.
          */
-        async getContainers(includeAll: boolean, environmentId?: number | null): Promise<PortainerContainer[] | undefined> {
+        async getContainers(includeAll: boolean, environmentId?: number | null, options?: PortainerRequestOptions): Promise<PortainerContainer[] | undefined> {
+            const request = withDeadline(options);
+
             if (typeof includeAll !== 'boolean') {
-                logError('Invalid includeAll: must be a boolean');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid includeAll: must be a boolean'), undefined);
             }
 
-            if (!this.auth.isValidated) {
-                logError('Authentication is not validated. Cannot fetch containers.');
-                return undefined;
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch containers.'), undefined);
             }
 
             if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
-                logError('Invalid environmentId: must be a number, null, or undefined');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), undefined);
             }
 
             // If no environment ID is provided and no default is set, try to get the first one
@@ -59,84 +112,164 @@ export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetching
             }
 
             if (environmentId === null) {
-                logError('No Portainer environments found. Cannot fetch containers.');
-                return undefined;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot fetch containers.'), undefined);
             }
 
             try {
                 const params = { all: includeAll };
-                const response = await this.auth.axiosInstance.get<PortainerContainer[]>(`/api/endpoints/${environmentId}/docker/containers/json`, { params });
+                const response = await this.auth.axiosInstance.get<PortainerContainer[]>(`/api/endpoints/${environmentId}/docker/containers/json`, { ...requestConfig(request), params });
                 return response.data;
             } catch (error) {
-                logError(`Failed to fetch containers: ${error}`);
-                return undefined;
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to fetch containers'), undefined);
             }
         }
 
         /**
          * Fetches the overall system status of the Portainer instance.
-         * @returns {Promise<any | undefined>} A promise that resolves to the system status object.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerSystemStatus | undefined>} A promise that resolves to the system status object.
          */
-        async getStatus(): Promise<any | undefined> {
-            try {
-                if (!this.auth.isValidated) {
-                    logError('Authentication is not validated. Cannot fetch system status.');
-                    return undefined;
-                }
+        async getStatus(options?: PortainerRequestOptions): Promise<PortainerSystemStatus | undefined> {
+            const request = withDeadline(options);
+
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch system status.'), undefined);
+            }
 
-                const response = await this.auth.axiosInstance.get('/api/system/status');
+            try {
+                const response = await this.auth.axiosInstance.get<PortainerSystemStatus>('/api/system/status', requestConfig(request));
                 return response.data;
             } catch (error) {
-                logError('Failed to fetch system status:', error);
-                return undefined;
+                return handleFailure(this.auth.strict, toPortainerError(error, 'Failed to fetch system status'), undefined);
             }
         }
 
         /**
          * Get stack file content
          * @param stackId - The ID of the stack
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<string | undefined>} Promise resolving to the compose file content
          */
-        async getStackFileContent(stackId: number): Promise<string | undefined> {
-            try {
-                if (typeof stackId !== 'number' || isNaN(stackId) || stackId <= 0) {
-                    logError('Invalid stackId: must be a positive number');
-                    return undefined;
-                }
+        async getStackFileContent(stackId: number, options?: PortainerRequestOptions): Promise<string | undefined> {
+            const request = withDeadline(options);
 
-                if (!this.auth.isValidated) {
-                    logError('Authentication is not validated. Cannot fetch stack file content.');
-                    return undefined;
-                }
+            if (typeof stackId !== 'number' || isNaN(stackId) || stackId <= 0) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid stackId: must be a positive number'), undefined);
+            }
 
-                const response = await this.auth.axiosInstance.get(`/api/stacks/${stackId}/file`);
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch stack file content.'), undefined);
+            }
+
+            try {
+                const response = await this.auth.axiosInstance.get(`/api/stacks/${stackId}/file`, requestConfig(request));
                 return response.data.StackFileContent || '';
             } catch (error) {
-                logError(`Error getting stack file for ${stackId}:`, error);
+                return handleFailure(this.auth.strict, toPortainerError(error, `Error getting stack file for ${stackId}`), undefined);
+            }
+        }
+
+        /**
+         * Finds a stack by ID or name. A name must be unique across the environments in view.
+         */
+        async resolveStack(stack: number | string, request: PortainerRequestOptions): Promise<PortainerStack | undefined> {
+            if (typeof stack === 'number') {
+                return this.getStack(stack, request);
+            }
+
+            if (typeof stack !== 'string' || !stack) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid stack: must be a stack ID or a non-empty name'), undefined);
+            }
+
+            const stacks = await this.getStacks(request);
+            if (!stacks) {
+                return undefined;
+            }
+
+            const matches = stacks.filter(candidate => candidate.Name === stack);
+            if (matches.length === 0) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Stack "${stack}" not found`), undefined);
+            }
+            if (matches.length > 1) {
+                return handleFailure(this.auth.strict, new ValidationError(`Stack name "${stack}" is used in environments ${matches.map(match => match.EndpointId).join(', ')}; use the stack ID`), undefined);
+            }
+            return matches[0];
+        }
+
+        /**
+         * Fetches the containers of a stack, running or not, from the stack's environment.
+         * For a Swarm stack only the containers on the Docker host of the environment are returned.
+         * @param stack - The ID or name of the stack
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerContainer[] | undefined>} Promise resolving to the stack's containers
+         */
+        async getStackContainers(stack: number | string, options?: PortainerRequestOptions): Promise<PortainerContainer[] | undefined> {
+            const request = withDeadline(options);
+
+            const found = await this.resolveStack(stack, request);
+            if (!found) {
+                return undefined;
+            }
+
+            const containers = await this.getContainers(true, found.EndpointId, request);
+            return containers?.filter(container => stackServiceName(container, found) !== undefined);
+        }
+
+        /**
+         * Fetches the services of a stack with their containers and how many of them are in each state.
+         * @param stack - The ID or name of the stack
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerStackService[] | undefined>} Promise resolving to the services, sorted by name
+         */
+        async getStackServices(stack: number | string, options?: PortainerRequestOptions): Promise<PortainerStackService[] | undefined> {
+            const request = withDeadline(options);
+
+            const found = await this.resolveStack(stack, request);
+            if (!found) {
+                return undefined;
+            }
+
+            const containers = await this.getContainers(true, found.EndpointId, request);
+            if (!containers) {
                 return undefined;
             }
+
+            const services = new Map<string, PortainerStackService>();
+            for (const container of containers) {
+                const name = stackServiceName(container, found);
+                if (name === undefined) {
+                    continue;
+                }
+
+                const service = services.get(name) ?? { name, containers: [], states: {} };
+                service.containers.push(container);
+                service.states[container.State] = (service.states[container.State] ?? 0) + 1;
+                services.set(name, service);
+            }
+
+            return [...services.values()].sort((a, b) => a.name.localeCompare(b.name));
         }
 
         /**
          * Fetches detailed information about a specific container within a Portainer environment.
          * @param containerId - The ID of the container to fetch details for.
          * @param environmentId - Optional: The ID of the Portainer environment, uses the set environmentId by default
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<PortainerContainer | undefined>} A promise that resolves to the container object.
          */
-        async getContainerDetails(identifier: string, environmentId?: number | null): Promise<PortainerContainer | undefined> {
+        async getContainerDetails(identifier: string, environmentId?: number | null, options?: PortainerRequestOptions): Promise<PortainerContainer | undefined> {
+            const request = withDeadline(options);
+
             if (!identifier || typeof identifier !== 'string') {
-                logError('Invalid identifier: must be a non-empty string');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid identifier: must be a non-empty string'), undefined);
             }
 
-            if (!this.auth.isValidated) {
-                logError('Authentication is not validated. Cannot fetch container details.');
-                return undefined;
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch container details.'), undefined);
             }
 
             if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
-                logError('Invalid environmentId: must be a number, null, or undefined');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), undefined);
             }
 
             if (environmentId === null || environmentId === undefined) {
@@ -144,18 +277,18 @@ export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetching
             }
 
             if (environmentId === null) {
-                logError('No Portainer environments found. Cannot fetch container details.');
-                return undefined;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot fetch container details.'), undefined);
             }
 
-            const containers = await this.getContainers(true, environmentId);
+            const containers = await this.getContainers(true, environmentId, request);
 
             if (!containers) {
-                logError('No containers found in the specified environment.');
-                return undefined;
+                return handleFailure(this.auth.strict, new NotFoundError('No containers found in the specified environment.'), undefined);
             }
 
-            let container: PortainerContainer | undefined = await this.auth.axiosInstance.get<PortainerContainer>(`/api/endpoints/${environmentId}/docker/containers/${identifier}/json`).then(res => res.data).catch(() => undefined);
+            let container: PortainerContainer | undefined = await this.auth.axiosInstance.get<PortainerContainer>(`/api/endpoints/${environmentId}/docker/containers/${identifier}/json`, requestConfig(request))
+                .then(res => res.data)
+                .catch(error => isCancellation(error) ? handleFailure(this.auth.strict, toPortainerError(error, `Failed to fetch container ${identifier}`), undefined) : undefined);
 
             // If not found by ID, try to find by name
             if (!container) {
@@ -176,6 +309,10 @@ export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetching
                 );
             }
 
+            if (!container) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Container "${identifier}" not found in environment ${environmentId}`), undefined);
+            }
+
             return container;
         }
 
@@ -183,22 +320,23 @@ export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetching
          * Get container statistics (CPU, memory usage, network I/O)
          * @param containerId - The ID of the container
          * @param environmentId - The ID of the Portainer environment
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns Promise resolving to container statistics
          */
-        async getContainerStats(containerId: string, environmentId?: number | null): Promise<{
+        async getContainerStats(containerId: string, environmentId?: number | null, options?: PortainerRequestOptions): Promise<{
             memory_stats: { usage: number; limit: number };
             cpu_stats: { cpu_usage: { total_usage: number }; system_cpu_usage: number; online_cpus?: number };
             precpu_stats: { cpu_usage: { total_usage: number }; system_cpu_usage: number };
             networks: Record<string, { rx_bytes: number; tx_bytes: number }>;
         } | null> {
+            const request = withDeadline(options);
+
             if (!containerId || typeof containerId !== 'string') {
-                logError('Invalid containerId: must be a non-empty string');
-                return null;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid containerId: must be a non-empty string'), null);
             }
 
-            if (!this.auth.isValidated) {
-                logError('Authentication is not validated. Cannot fetch container stats.');
-                return null;
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch container stats.'), null);
             }
 
             if (environmentId === null || environmentId === undefined) {
@@ -206,18 +344,17 @@ export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetching
             }
 
             if (environmentId === null) {
-                logError('No Portainer environments found. Cannot fetch container stats.');
-                return null;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot fetch container stats.'), null);
             }
 
             try {
                 const response = await this.auth.axiosInstance.get(
-                    `/api/endpoints/${environmentId}/docker/containers/${containerId}/stats?stream=false`
+                    `/api/endpoints/${environmentId}/docker/containers/${containerId}/stats?stream=false`,
+                    requestConfig(request)
                 );
                 return response.data;
             } catch (error) {
-                logError(`Failed to get container stats for ${containerId}:`, error);
-                return null;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to get container stats for ${containerId}`), null);
             }
         }
 
@@ -225,17 +362,18 @@ export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetching
          * Fetches a list of all Docker images within a specific Portainer environment.
          * This proxies the Docker API's /images/json endpoint.
          * @param environmentId - Optional: The ID of the Portainer environment.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<PortainerImage[] | undefined>} A promise that resolves to an array of image objects.
          */
-        async getImages(environmentId?: number | null): Promise<PortainerImage[] | undefined> {
+        async getImages(environmentId?: number | null, options?: PortainerRequestOptions): Promise<PortainerImage[] | undefined> {
+            const request = withDeadline(options);
+
             if (environmentId !== undefined && environmentId !== null && (typeof environmentId !== 'number' || isNaN(environmentId))) {
-                logError('Invalid environmentId: must be a number, null, or undefined');
-                return undefined;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), undefined);
             }
 
-            if (!this.auth.isValidated) {
-                logError('Authentication is not validated. Cannot fetch images.');
-                return undefined;
+            if (!await this.auth.ensureValidated()) {
+                return handleFailure(this.auth.strict, new AuthError('Authentication is not validated. Cannot fetch images.'), undefined);
             }
 
             if (environmentId === null || environmentId === undefined) {
@@ -243,16 +381,14 @@ export function ResourceFetchingMixin<TBase extends Constructor<ResourceFetching
             }
 
             if (environmentId === null) {
-                logError('No Portainer environments found. Cannot fetch images.');
-                return undefined;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot fetch images.'), undefined);
             }
 
             try {
-                const response = await this.auth.axiosInstance.get<PortainerImage[]>(`/api/endpoints/${environmentId}/docker/images/json`);
+                const response = await this.auth.axiosInstance.get<PortainerImage[]>(`/api/endpoints/${environmentId}/docker/images/json`, requestConfig(request));
                 return response.data;
             } catch (error) {
-                logError(`Failed to fetch images for environment ${environmentId}:`, error);
-                return undefined;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to fetch images for environment ${environmentId}`), undefined);
             }
         }
     }
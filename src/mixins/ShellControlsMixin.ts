@@ -1,10 +1,13 @@
 import axios from "axios";
 import { logError, logWarn, logInfo } from "../../logger.ts";
+import { EnvironmentUnavailableError, ValidationError, handleFailure, isCancellation, toPortainerError } from "../errors.ts";
+import { requestConfig, withDeadline, type PortainerRequestOptions } from "../request.ts";
 import type { Constructor } from "../types.ts";
 
 interface ShellControlsMixinBase {
     auth: {
         axiosInstance: import("axios").AxiosInstance;
+        strict?: boolean;
     };
     ensureEnvId: () => Promise<number | null>;
 }
@@ -36,19 +39,16 @@ export function ShellControlsMixin<TBase extends Constructor<ShellControlsMixinB
             environmentId?: number | null
         ): boolean {
             if (typeof containerId !== 'string' || containerId.trim() === '') {
-                logError('Invalid containerId: must be a non-empty string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid containerId: must be a non-empty string'), false);
             }
 
             if (typeof command !== 'string' || command.trim() === '') {
-                logError('Invalid command: must be a non-empty string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid command: must be a non-empty string'), false);
             }
 
             if (environmentId !== undefined && environmentId !== null && 
                 (typeof environmentId !== 'number' || isNaN(environmentId))) {
-                logError('Invalid environmentId: must be a number, null, or undefined');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), false);
             }
 
             return true;
@@ -81,13 +81,15 @@ export function ShellControlsMixin<TBase extends Constructor<ShellControlsMixinB
         async executeCommandInEnvironment(
             containerId: string,
             command: string,
-            envId: number
+            envId: number,
+            options?: PortainerRequestOptions
         ): Promise<CommandExecutionResult> {
             // Create exec instance
             const execConfig = this.createExecConfig(command);
             const execResponse = await this.auth.axiosInstance.post(
                 `/api/endpoints/${envId}/docker/containers/${containerId}/exec`,
-                execConfig
+                execConfig,
+                requestConfig(options)
             );
 
             const execId = execResponse.data.Id;
@@ -96,7 +98,8 @@ export function ShellControlsMixin<TBase extends Constructor<ShellControlsMixinB
             const startConfig = this.createExecStartConfig();
             const startResponse = await this.auth.axiosInstance.post(
                 `/api/endpoints/${envId}/docker/exec/${execId}/start`,
-                startConfig
+                startConfig,
+                requestConfig(options)
             );
 
             return {
@@ -111,7 +114,8 @@ export function ShellControlsMixin<TBase extends Constructor<ShellControlsMixinB
         async retryWithNewEnvironment(
             containerId: string,
             command: string,
-            originalEnvId: number
+            originalEnvId: number,
+            options?: PortainerRequestOptions
         ): Promise<CommandExecutionResult | null> {
             logWarn(
                 `Failed to execute command in container ${containerId} on environment ${originalEnvId} (404). ` +
@@ -127,12 +131,15 @@ export function ShellControlsMixin<TBase extends Constructor<ShellControlsMixinB
 
                 logInfo(`Found valid environment ${newEnvId}. Retrying executeCommand...`);
                 
-                const result = await this.executeCommandInEnvironment(containerId, command, newEnvId);
+                const result = await this.executeCommandInEnvironment(containerId, command, newEnvId, options);
                 
                 logInfo(`Successfully executed command with environment ${newEnvId}`);
                 
                 return result;
             } catch (retryError) {
+                if (isCancellation(retryError)) {
+                    throw retryError;
+                }
                 logError('Retry with new environment ID failed:', retryError);
                 return null;
             }
@@ -143,13 +150,17 @@ export function ShellControlsMixin<TBase extends Constructor<ShellControlsMixinB
          * @param containerId - The ID of the container
          * @param command - The command to execute
          * @param environmentId - Optional: The ID of the Portainer environment
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns Promise resolving to command execution result, or null on validation failure
          */
         async executeCommand(
             containerId: string,
             command: string,
-            environmentId?: number | null
+            environmentId?: number | null,
+            options?: PortainerRequestOptions
         ): Promise<CommandExecutionResult | null> {
+            const request = withDeadline(options);
+
             // Validate parameters
             if (!this.validateExecuteCommandParams(containerId, command, environmentId)) {
                 return null;
@@ -162,20 +173,20 @@ export function ShellControlsMixin<TBase extends Constructor<ShellControlsMixinB
             }
 
             if (resolvedEnvId === null) {
-                logError('No Portainer environments found. Cannot execute command.');
-                return null;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot execute command.'), null);
             }
 
             try {
                 // Execute command in the resolved environment
-                return await this.executeCommandInEnvironment(containerId, command, resolvedEnvId);
+                return await this.executeCommandInEnvironment(containerId, command, resolvedEnvId, request);
             } catch (error: any) {
                 // Handle 404 errors by attempting to discover a valid environment and retry
                 if (axios.isAxiosError(error) && error.response?.status === 404) {
                     const retryResult = await this.retryWithNewEnvironment(
                         containerId,
                         command,
-                        resolvedEnvId
+                        resolvedEnvId,
+                        request
                     );
                     
                     if (retryResult !== null) {
@@ -185,7 +196,7 @@ export function ShellControlsMixin<TBase extends Constructor<ShellControlsMixinB
 
                 // Log and rethrow the error if retry failed or wasn't attempted
                 logError(`Failed to execute command in container ${containerId}:`, error);
-                throw error;
+                throw this.auth.strict || isCancellation(error) ? toPortainerError(error, `Failed to execute command in container ${containerId}`) : error;
             }
         }
     }
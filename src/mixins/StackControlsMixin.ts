@@ -1,12 +1,49 @@
-import { logError, logInfo, logWarn } from "../../logger.ts";
-import type { Constructor, PortainerStack } from "../types.ts";
+import { logInfo, logWarn } from "../../logger.ts";
+import { EnvironmentUnavailableError, NotFoundError, PortainerError, TimeoutError, ValidationError, handleFailure, isCancellation, toPortainerError } from "../errors.ts";
+import { delay, requestConfig, withDeadline, type PortainerRequestOptions, type PortainerWaitOptions } from "../request.ts";
+import { SWARM_STACK, isValidEnv, toEnvVars } from "../stacks.ts";
+import type { PortainerStackHistoryStore, PortainerStackVersion } from "../history.ts";
+import type {
+    Constructor,
+    PortainerStack,
+    PortainerStackEnv,
+    PortainerStackEnvPatch,
+    PortainerStackRedeployOptions,
+    PortainerStackRedeployResult,
+    PortainerStackService,
+    PortainerStackStatus,
+    PortainerStackUpdateOptions
+} from "../types.ts";
 
 interface StackControlsMixinBase {
     auth: {
         axiosInstance: import("axios").AxiosInstance;
+        strict?: boolean;
+        history?: PortainerStackHistoryStore | null;
     };
     ensureEnvId: () => Promise<number | null>;
-    getStacks: () => Promise<PortainerStack[] | undefined>;
+    getStack: (stackId: number, options?: PortainerRequestOptions) => Promise<PortainerStack | undefined>;
+    getStackFileContent: (stackId: number, options?: PortainerRequestOptions) => Promise<string | undefined>;
+    getStackServices: (stack: number | string, options?: PortainerRequestOptions) => Promise<PortainerStackService[] | undefined>;
+}
+
+// Indexed by PortainerStack.Status
+const STACK_STATUSES: Array<PortainerStackStatus | undefined> = [undefined, 'active', 'inactive'];
+
+const DEFAULT_WAIT_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_ROLLOUT_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_WAIT_INTERVAL_MS = 2000;
+
+// Docker appends the health state to a container's status, e.g. "Up 5 seconds (health: starting)"
+const UNHEALTHY = /\((unhealthy|health: starting)\)/;
+
+/**
+ * Lists the images a service's running containers use (all containers if none is running), in a comparable form.
+ */
+function imageIds(service: PortainerStackService): string {
+    const running = service.containers.filter(container => container.State === 'running');
+    const containers = running.length > 0 ? running : service.containers;
+    return [...new Set(containers.map(container => container.ImageID ?? container.Image))].sort().join(',');
 }
 
 export function StackControlsMixin<TBase extends Constructor<StackControlsMixinBase>>(Base: TBase) {
@@ -16,8 +53,7 @@ export function StackControlsMixin<TBase extends Constructor<StackControlsMixinB
          */
         validateStackId(stackId: number): boolean {
             if (typeof stackId !== 'number' || isNaN(stackId) || stackId <= 0) {
-                logError('Invalid stackId: must be a positive number');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid stackId: must be a positive number'), false);
             }
             return true;
         }
@@ -28,8 +64,7 @@ export function StackControlsMixin<TBase extends Constructor<StackControlsMixinB
         async validateAndResolveEnvironmentId(environmentId?: number | null): Promise<number | null> {
             if (environmentId !== undefined && environmentId !== null && 
                 (typeof environmentId !== 'number' || isNaN(environmentId))) {
-                logError('Invalid environmentId: must be a number, null, or undefined');
-                return null;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid environmentId: must be a number, null, or undefined'), null);
             }
 
             let resolvedEnvId = environmentId;
@@ -46,171 +81,616 @@ export function StackControlsMixin<TBase extends Constructor<StackControlsMixinB
         async executeStackAction(
             stackId: number,
             action: 'start' | 'stop',
-            environmentId: number
+            environmentId: number,
+            options?: PortainerRequestOptions
         ): Promise<void> {
             const actionVerb = action === 'start' ? 'Starting' : 'Stopping';
             const actionPastTense = action === 'start' ? 'started' : 'stopped';
             
             logInfo(`${actionVerb} stack ${stackId}...`);
-            await this.auth.axiosInstance.post(`/api/stacks/${stackId}/${action}?endpointId=${environmentId}`);
+            await this.auth.axiosInstance.post(`/api/stacks/${stackId}/${action}?endpointId=${environmentId}`, null, requestConfig(options));
             logInfo(`Stack ${actionPastTense} successfully`);
         }
 
 
         /**
-         * Start a stack
+         * Start a stack. For a Swarm stack this deploys its services to the cluster again.
          * @param stackId - The ID of the stack to start
          * @param environmentId - Optional: The ID of the Portainer environment
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<boolean>} Promise resolving to true if successful, false otherwise
          */
-        async startStack(stackId: number, environmentId?: number | null): Promise<boolean> {
+        async startStack(stackId: number, environmentId?: number | null, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
             if (!this.validateStackId(stackId)) {
                 return false;
             }
 
             const resolvedEnvId = await this.validateAndResolveEnvironmentId(environmentId);
             if (resolvedEnvId === null) {
-                logError('No Portainer environments found. Cannot start stack.');
-                return false;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot start stack.'), false);
             }
 
             try {
-                await this.executeStackAction(stackId, 'start', resolvedEnvId);
+                await this.executeStackAction(stackId, 'start', resolvedEnvId, request);
                 return true;
             } catch (error) {
-                logError(`Failed to start stack ${stackId}:`, error);
-                return false;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to start stack ${stackId}`), false);
             }
         }
 
         /**
-         * Stop a stack
+         * Stop a stack. For a Swarm stack this removes its services from the cluster but keeps the stack.
          * @param stackId - The ID of the stack to stop
          * @param environmentId - Optional: The ID of the Portainer environment
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
          * @returns {Promise<boolean>} Promise resolving to true if successful, false otherwise
          */
-        async stopStack(stackId: number, environmentId?: number | null): Promise<boolean> {
+        async stopStack(stackId: number, environmentId?: number | null, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
             if (!this.validateStackId(stackId)) {
                 return false;
             }
 
             const resolvedEnvId = await this.validateAndResolveEnvironmentId(environmentId);
             if (resolvedEnvId === null) {
-                logError('No Portainer environments found. Cannot stop stack.');
-                return false;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot stop stack.'), false);
             }
 
             try {
-                await this.executeStackAction(stackId, 'stop', resolvedEnvId);
+                await this.executeStackAction(stackId, 'stop', resolvedEnvId, request);
                 return true;
             } catch (error) {
-                logError(`Failed to stop stack ${stackId}:`, error);
-                return false;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to stop stack ${stackId}`), false);
+            }
+        }
+
+        /**
+         * Saves the current compose file and environment variables of a stack to the history store,
+         * unless they are unchanged since the last saved version.
+         * @returns The saved state, or undefined if it could not be read or saved.
+         */
+        async saveStackVersion(stack: PortainerStack, request: PortainerRequestOptions): Promise<Pick<PortainerStackVersion, 'composeContent' | 'env'> | undefined> {
+            const composeContent = await this.getStackFileContent(stack.Id, request);
+            if (!composeContent) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Stack file of stack ${stack.Id} not found`), undefined);
+            }
+
+            const env = toEnvVars(stack.Env);
+            const history = this.auth.history;
+            if (!history) {
+                return { composeContent, env };
+            }
+
+            try {
+                const latest = (await history.list(stack.Id)).at(-1);
+                if (!latest || latest.composeContent !== composeContent || JSON.stringify(latest.env) !== JSON.stringify(env)) {
+                    const version = (latest?.version ?? 0) + 1;
+                    await history.add({ stackId: stack.Id, version, composeContent, env, savedAt: Date.now() });
+                    logInfo(`Saved version ${version} of stack ${stack.Id}`);
+                }
+                return { composeContent, env };
+            } catch (error) {
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to save the history of stack ${stack.Id}`), undefined);
             }
         }
 
         /**
-         * Update a stack with new compose file content
+         * Update a stack with new compose file content. Swarm stacks are updated in place with a rolling update.
+         * The stack's environment variables are kept unless `update.env` replaces or merges them.
+         * The previous compose file and variables are saved to the history store first, see `getStackHistory()`.
          * @param stackId - The ID of the stack to update
          * @param composeContent - The new docker-compose content
          * @param environmentId - Optional: The ID of the Portainer environment
-         * @param pullImage - Whether to pull the latest image (default: true)
-         * @returns Promise resolving to true if successful, false otherwise
+         * @param update - Optional: Whether to `pullImage` (default: true), `prune` services no longer in the compose file,
+         * force `repullAndRedeploy` of unchanged images, and how to handle `env`. With `wait`, every service must then run
+         * healthy on its image within `waitTimeoutMs`; with `rollbackOnFailure`, the previous version is restored if it does not.
+         * A boolean is taken as `pullImage`.
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerStack | undefined>} Promise resolving to the updated stack, undefined on failure
          */
         async updateStack(
             stackId: number,
             composeContent: string,
             environmentId?: number | null,
-            pullImage: boolean = true
-        ): Promise<boolean> {
+            update: PortainerStackUpdateOptions | boolean = {},
+            options?: PortainerRequestOptions
+        ): Promise<PortainerStack | undefined> {
+            const request = withDeadline(options);
+            const settings = typeof update === 'boolean' ? { pullImage: update } : update;
+
             if (!this.validateStackId(stackId)) {
-                return false;
+                return undefined;
             }
 
             if (typeof composeContent !== 'string' || !composeContent.trim()) {
-                logError('Invalid composeContent: must be a non-empty string');
-                return false;
+                return handleFailure(this.auth.strict, new ValidationError('Invalid composeContent: must be a non-empty string'), undefined);
+            }
+
+            if (!settings || typeof settings !== 'object') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid update options: must be an object'), undefined);
+            }
+
+            // Own fields only, so members of Object.prototype are never taken for variables to replace or merge
+            const env = settings.env ?? 'keep';
+            const option: { replace?: unknown; merge?: unknown } = env !== 'keep' && env && typeof env === 'object' ? env : {};
+            const replaced = Object.hasOwn(option, 'replace') ? option.replace as PortainerStackEnv : undefined;
+            const merged = Object.hasOwn(option, 'merge') ? option.merge as PortainerStackEnv : undefined;
+            if (env !== 'keep' && !(replaced !== undefined ? isValidEnv(replaced) : isValidEnv(merged))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid env: must be "keep", { replace: vars } or { merge: vars }'), undefined);
+            }
+
+            if (settings.waitTimeoutMs !== undefined && (typeof settings.waitTimeoutMs !== 'number' || isNaN(settings.waitTimeoutMs) || settings.waitTimeoutMs < 0)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid waitTimeoutMs: must be a non-negative number'), undefined);
             }
 
             const resolvedEnvId = await this.validateAndResolveEnvironmentId(environmentId);
             if (resolvedEnvId === null) {
-                logError('No Portainer environments found. Cannot update stack.');
-                return false;
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot update stack.'), undefined);
             }
 
+            const keepPrevious = !!this.auth.history || !!settings.rollbackOnFailure;
+
+            // Portainer replaces the stack's variables with the ones sent, so the current ones are needed unless all are replaced
+            let vars: PortainerStackEnv;
+            let previous: Pick<PortainerStackVersion, 'composeContent' | 'env'> | undefined;
+            if (replaced && !keepPrevious) {
+                vars = replaced;
+            } else {
+                const stack = await this.getStack(stackId, request);
+                if (!stack) {
+                    return undefined;
+                }
+
+                if (keepPrevious) {
+                    previous = await this.saveStackVersion(stack, request);
+                    if (!previous) {
+                        return undefined;
+                    }
+                }
+                vars = replaced ?? (merged ? { ...toEnvVars(stack.Env), ...merged } : toEnvVars(stack.Env));
+            }
+
+            let updated: PortainerStack;
             try {
                 logInfo(`Updating stack ${stackId}...`);
-                await this.auth.axiosInstance.put(
+                const response = await this.auth.axiosInstance.put<PortainerStack>(
                     `/api/stacks/${stackId}?endpointId=${resolvedEnvId}`,
                     {
                         StackFileContent: composeContent,
-                        Prune: false,
-                        PullImage: pullImage
-                    }
+                        Env: Object.entries(vars).map(([name, value]) => ({ name, value })),
+                        Prune: settings.prune ?? false,
+                        PullImage: settings.pullImage ?? true,
+                        RepullImageAndRedeploy: settings.repullAndRedeploy ?? false
+                    },
+                    requestConfig(request)
                 );
+                updated = response.data;
                 logInfo('Stack updated successfully');
-                return true;
             } catch (error) {
-                logError(`Failed to update stack ${stackId}:`, error);
-                return false;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to update stack ${stackId}`), undefined);
+            }
+
+            if (!settings.wait && !settings.rollbackOnFailure) {
+                return updated;
+            }
+
+            const verified = await this.waitForHealthyServices(stackId, resolvedEnvId, settings, request);
+            if (!(verified instanceof PortainerError)) {
+                return updated;
+            }
+
+            if (!settings.rollbackOnFailure || !previous) {
+                return handleFailure(this.auth.strict, verified, undefined);
             }
+
+            logWarn(`Stack ${stackId} failed verification, rolling back: ${verified.message}`);
+            let restored: PortainerStack | undefined;
+            try {
+                restored = await this.updateStack(stackId, previous.composeContent, resolvedEnvId, { pullImage: false, env: { replace: previous.env } }, request);
+            } catch (error) {
+                if (isCancellation(error)) {
+                    throw error;
+                }
+            }
+
+            const outcome = restored ? 'was rolled back' : 'could not be rolled back';
+            return handleFailure(this.auth.strict, new PortainerError(`Stack ${stackId} failed verification and ${outcome}: ${verified.message}`, { cause: verified }), undefined);
+        }
+
+        /**
+         * Looks up the ID of the image a reference such as "nginx:latest" points to on the environment's Docker host.
+         */
+        async resolveImageId(image: string, environmentId: number, request: PortainerRequestOptions): Promise<string | undefined> {
+            try {
+                const response = await this.auth.axiosInstance.get<{ Id: string }>(`/api/endpoints/${environmentId}/docker/images/${encodeURIComponent(image)}/json`, requestConfig(request));
+                return response.data.Id;
+            } catch (error) {
+                const failure = toPortainerError(error, `Failed to inspect image ${image}`);
+                if (failure instanceof NotFoundError) {
+                    return undefined;
+                }
+                throw failure;
+            }
+        }
+
+        /**
+         * Polls the services of a stack until each has running containers, all healthy and on the image their reference now points to.
+         * Failures are returned rather than raised, so the caller can roll back; only cancellation throws.
+         */
+        async waitForHealthyServices(
+            stackId: number,
+            environmentId: number,
+            settings: { waitTimeoutMs?: number; intervalMs?: number },
+            request: PortainerRequestOptions
+        ): Promise<PortainerStackService[] | PortainerError> {
+            const timeoutMs = settings.waitTimeoutMs ?? DEFAULT_ROLLOUT_WAIT_TIMEOUT_MS;
+            const intervalMs = settings.intervalMs ?? DEFAULT_WAIT_INTERVAL_MS;
+            const signal = request.signal;
+            const priority = request.priority ? { priority: request.priority } : {};
+
+            const context = `Failed to wait for stack ${stackId}`;
+            const deadline = Date.now() + timeoutMs;
+            const targets = new Map<string, string | undefined>();
+            let pending: string[] = [];
+
+            while (Date.now() < deadline) {
+                try {
+                    // Each poll may take at most the time that is left
+                    const poll = withDeadline({ ...priority, ...(signal ? { signal } : {}), timeoutMs: deadline - Date.now() });
+                    const services = await this.getStackServices(stackId, poll);
+                    if (!services) {
+                        return new NotFoundError(`Services of stack ${stackId} not found`);
+                    }
+
+                    pending = [];
+                    for (const service of services) {
+                        const running = service.containers.filter(container => container.State === 'running');
+                        const image = (running[0] ?? service.containers[0])?.Image;
+                        if (image && !targets.has(image)) {
+                            targets.set(image, await this.resolveImageId(image, environmentId, poll));
+                        }
+
+                        const target = image ? targets.get(image) : undefined;
+                        if (running.length === 0 || running.some(container => UNHEALTHY.test(container.Status) || (target && container.ImageID !== target))) {
+                            pending.push(service.name);
+                        }
+                    }
+
+                    if (pending.length === 0) {
+                        logInfo(`Stack ${stackId} is running on the new images`);
+                        return services;
+                    }
+                } catch (error) {
+                    // Only the caller's signal ends the wait early; a poll cut short by the deadline just means "not there yet"
+                    if (signal?.aborted) {
+                        throw toPortainerError(error, context);
+                    }
+                    if (!isCancellation(error)) {
+                        return toPortainerError(error, context);
+                    }
+                }
+
+                const pause = Math.min(intervalMs, deadline - Date.now());
+                if (pause > 0) {
+                    await delay(pause, signal).catch(error => { throw toPortainerError(error, context); });
+                }
+            }
+
+            const waiting = pending.length > 0 ? ` (still waiting for services ${pending.join(', ')})` : '';
+            return new TimeoutError(`Stack ${stackId} was not running on the new images within ${timeoutMs}ms${waiting}`);
         }
 
         /**
-         * Redeploy a stack (stop, pull image, start)
+         * Redeploy a stack: resubmit its current compose file and environment variables with freshly pulled images.
+         * Containers whose image changed are recreated; Swarm stacks get a rolling update.
+         * Images are compared on the environment's Docker host, so for a Swarm stack only the tasks running there are seen.
          * @param stackId - The ID of the stack to redeploy
          * @param environmentId - Optional: The ID of the Portainer environment
-         * @returns Promise resolving to true if successful, false otherwise
+         * @param options - Optional: `force` to recreate containers even if their image did not change, `wait` until every service
+         * runs healthy on its new image (for at most `waitTimeoutMs`, default 5 minutes, checking every `intervalMs`),
+         * `rollbackOnFailure` to restore the previous version if it does not, and request options.
+         * @returns {Promise<PortainerStackRedeployResult | undefined>} Promise resolving to the updated stack and which services changed image
          */
         async redeployStack(
             stackId: number, 
-            environmentId?: number | null
-        ): Promise<boolean> {
+            environmentId?: number | null,
+            options?: PortainerStackRedeployOptions
+        ): Promise<PortainerStackRedeployResult | undefined> {
+            const request = withDeadline(options);
+
             if (!this.validateStackId(stackId)) {
-                return false;
+                return undefined;
             }
 
             const resolvedEnvId = await this.validateAndResolveEnvironmentId(environmentId);
             if (resolvedEnvId === null) {
-                logError('No Portainer environments found. Cannot redeploy stack.');
+                return handleFailure(this.auth.strict, new EnvironmentUnavailableError('No Portainer environments found. Cannot redeploy stack.'), undefined);
+            }
+
+            const stack = await this.getStack(stackId, request);
+            if (!stack) {
+                return undefined;
+            }
+
+            if (stack.GitConfig) {
+                return handleFailure(this.auth.strict, new ValidationError(`Stack ${stackId} is deployed from Git; use redeployGitStack() instead`), undefined);
+            }
+
+            const composeContent = await this.getStackFileContent(stackId, request);
+            if (!composeContent) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Stack file of stack ${stackId} not found`), undefined);
+            }
+
+            const before = await this.getStackServices(stackId, request);
+            if (!before) {
+                return undefined;
+            }
+
+            logInfo(`Redeploying stack ${stackId}...`);
+            const updated = await this.updateStack(stackId, composeContent, resolvedEnvId, {
+                pullImage: true,
+                repullAndRedeploy: options?.force ?? false,
+                env: { replace: toEnvVars(stack.Env) },
+                ...(options?.wait !== undefined ? { wait: options.wait } : {}),
+                ...(options?.waitTimeoutMs !== undefined ? { waitTimeoutMs: options.waitTimeoutMs } : {}),
+                ...(options?.intervalMs !== undefined ? { intervalMs: options.intervalMs } : {}),
+                ...(options?.rollbackOnFailure !== undefined ? { rollbackOnFailure: options.rollbackOnFailure } : {})
+            }, request);
+            if (!updated) {
+                return undefined;
+            }
+
+            const after = await this.getStackServices(stackId, request);
+            if (!after) {
+                return undefined;
+            }
+
+            const previous = new Map(before.map(service => [service.name, imageIds(service)]));
+            const changed = after
+                .filter(service => previous.get(service.name) !== imageIds(service))
+                .map(service => service.name);
+            const unchanged = after
+                .filter(service => !changed.includes(service.name))
+                .map(service => service.name);
+
+            logInfo(`Stack ${stackId} redeployed, ${changed.length > 0 ? `new images for ${changed.join(', ')}` : 'no image changed'}`);
+            return { stack: updated, changed, unchanged };
+        }
+
+        /**
+         * Fetches whether a stack is running.
+         * @param stackId - The ID of the stack
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerStackStatus | undefined>} Promise resolving to `active` or `inactive`
+         */
+        async getStackStatus(stackId: number, options?: PortainerRequestOptions): Promise<PortainerStackStatus | undefined> {
+            const request = withDeadline(options);
+
+            if (!this.validateStackId(stackId)) {
+                return undefined;
+            }
+
+            const stack = await this.getStack(stackId, request);
+            if (!stack) {
+                return undefined;
+            }
+
+            const status = STACK_STATUSES[stack.Status];
+            if (!status) {
+                return handleFailure(this.auth.strict, new PortainerError(`Stack ${stackId} has unknown status ${stack.Status}`), undefined);
+            }
+            return status;
+        }
+
+        /**
+         * Waits until a stack is running (`active`) or stopped (`inactive`), e.g. after `startStack()` or `stopStack()`.
+         * @param stackId - The ID of the stack
+         * @param status - The status to wait for
+         * @param options - Optional: `timeoutMs` for the whole wait (default 60s), `intervalMs` between checks (default 2s), `signal` and `priority`.
+         * @returns {Promise<boolean>} Promise resolving to true once the stack has the status, false if it does not in time
+         */
+        async waitForStackStatus(stackId: number, status: PortainerStackStatus, options?: PortainerWaitOptions): Promise<boolean> {
+            const timeoutMs = options?.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+            const intervalMs = options?.intervalMs ?? DEFAULT_WAIT_INTERVAL_MS;
+            const signal = options?.signal;
+            const priority = options?.priority ? { priority: options.priority } : {};
+
+            if (!this.validateStackId(stackId)) {
                 return false;
             }
 
-            try {
-                logInfo(`Redeploying stack ${stackId}...`);
+            if (status !== 'active' && status !== 'inactive') {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid status: must be "active" or "inactive"'), false);
+            }
 
-                // Verify stack exists
-                const stacks = await this.getStacks();
-                if (!stacks) {
-                    logError('No stacks found in the specified environment.');
-                    return false;
+            const context = `Failed to wait for stack ${stackId}`;
+            const deadline = Date.now() + timeoutMs;
+            let current: PortainerStackStatus | undefined;
+
+            while (Date.now() < deadline) {
+                try {
+                    // Each check may take at most the time that is left
+                    current = await this.getStackStatus(stackId, { ...priority, ...(signal ? { signal } : {}), timeoutMs: deadline - Date.now() });
+                    if (!current) {
+                        return false;
+                    }
+                    if (current === status) {
+                        logInfo(`Stack ${stackId} is ${status}`);
+                        return true;
+                    }
+                } catch (error) {
+                    // Only the caller's signal ends the wait early; a check cut short by the deadline just means "not there yet"
+                    if (signal?.aborted || !isCancellation(error)) {
+                        return handleFailure(this.auth.strict, toPortainerError(error, context), false);
+                    }
                 }
 
-                const stack = stacks.find(s => s.Id === stackId);
-                if (!stack) {
-                    logError(`Stack ${stackId} not found`);
-                    return false;
+                const pause = Math.min(intervalMs, deadline - Date.now());
+                if (pause > 0) {
+                    await delay(pause, signal).catch(error => { throw toPortainerError(error, context); });
                 }
+            }
 
-                // Stop the stack (ignore errors if already stopped)
-                try {
-                    await this.stopStack(stackId, resolvedEnvId);
-                } catch (e) {
-                    logWarn('Stack may already be stopped:', e);
+            const last = current ? ` (still ${current})` : '';
+            return handleFailure(this.auth.strict, new TimeoutError(`Stack ${stackId} did not become ${status} within ${timeoutMs}ms${last}`), false);
+        }
+
+        /**
+         * Saves a stack's environment variables and redeploys it with its current compose file.
+         * Git-backed stacks are refused, since their compose file can only be redeployed together with the latest commit.
+         */
+        async saveStackEnv(stackId: number, change: (current: PortainerStackEnv) => PortainerStackEnv, request: PortainerRequestOptions): Promise<boolean> {
+            const stack = await this.getStack(stackId, request);
+            if (!stack) {
+                return false;
+            }
+
+            if (stack.GitConfig) {
+                return handleFailure(this.auth.strict, new ValidationError(`Stack ${stackId} is deployed from Git; use redeployGitStack() with env instead`), false);
+            }
+
+            const composeContent = await this.getStackFileContent(stackId, request);
+            if (!composeContent) {
+                return handleFailure(this.auth.strict, new NotFoundError(`Stack file of stack ${stackId} not found`), false);
+            }
+
+            const env = change(toEnvVars(stack.Env));
+            return !!await this.updateStack(stackId, composeContent, stack.EndpointId, { env: { replace: env }, pullImage: false }, request);
+        }
+
+        /**
+         * Fetches the environment variables of a stack.
+         * @param stackId - The ID of the stack
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerStackEnv | undefined>} Promise resolving to the variables by name
+         */
+        async getStackEnv(stackId: number, options?: PortainerRequestOptions): Promise<PortainerStackEnv | undefined> {
+            const request = withDeadline(options);
+
+            if (!this.validateStackId(stackId)) {
+                return undefined;
+            }
+
+            const stack = await this.getStack(stackId, request);
+            if (!stack) {
+                return undefined;
+            }
+            return toEnvVars(stack.Env);
+        }
+
+        /**
+         * Replaces all environment variables of a stack and redeploys it, leaving its compose file untouched.
+         * @param stackId - The ID of the stack
+         * @param vars - The new variables by name
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} Promise resolving to true if successful, false otherwise
+         */
+        async setStackEnv(stackId: number, vars: PortainerStackEnv, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!this.validateStackId(stackId)) {
+                return false;
+            }
+
+            if (!isValidEnv(vars)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid vars: must map variable names to strings'), false);
+            }
+
+            return this.saveStackEnv(stackId, () => vars, request);
+        }
+
+        /**
+         * Changes some environment variables of a stack and redeploys it, leaving its compose file
+         * and all other variables untouched. Useful to rotate a secret.
+         * @param stackId - The ID of the stack
+         * @param patch - The variables to `set` and the names to `unset`
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<boolean>} Promise resolving to true if successful, false otherwise
+         */
+        async patchStackEnv(stackId: number, patch: PortainerStackEnvPatch, options?: PortainerRequestOptions): Promise<boolean> {
+            const request = withDeadline(options);
+
+            if (!this.validateStackId(stackId)) {
+                return false;
+            }
+
+            if (!patch || typeof patch !== 'object' || (patch.set === undefined && patch.unset === undefined)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid patch: must set and/or unset variables'), false);
+            }
+
+            if (patch.set !== undefined && !isValidEnv(patch.set)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid patch.set: must map variable names to strings'), false);
+            }
+
+            if (patch.unset !== undefined && (!Array.isArray(patch.unset) || !patch.unset.every(name => typeof name === 'string'))) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid patch.unset: must be an array of variable names'), false);
+            }
+
+            return this.saveStackEnv(stackId, current => {
+                const env = { ...current, ...patch.set };
+                for (const name of patch.unset ?? []) {
+                    delete env[name];
                 }
+                return env;
+            }, request);
+        }
 
-                // Wait for cleanup
-                await new Promise(resolve => setTimeout(resolve, 2000));
+        /**
+         * Fetches the saved versions of a stack, oldest first. A version is saved before every update of the stack.
+         * @param stackId - The ID of the stack
+         * @returns {Promise<PortainerStackVersion[] | undefined>} Promise resolving to the versions
+         */
+        async getStackHistory(stackId: number): Promise<PortainerStackVersion[] | undefined> {
+            if (!this.validateStackId(stackId)) {
+                return undefined;
+            }
 
-                // Start the stack with latest image
-                await this.startStack(stackId, resolvedEnvId);
+            if (!this.auth.history) {
+                return handleFailure(this.auth.strict, new ValidationError('Stack history is disabled'), undefined);
+            }
 
-                logInfo('Stack redeployed successfully');
-                return true;
+            try {
+                return await this.auth.history.list(stackId);
             } catch (error) {
-                logError(`Failed to redeploy stack ${stackId}:`, error);
-                return false;
+                return handleFailure(this.auth.strict, toPortainerError(error, `Failed to read the history of stack ${stackId}`), undefined);
             }
         }
+
+        /**
+         * Restores a saved version of a stack's compose file and environment variables.
+         * The state being replaced is saved as a new version, so a rollback can itself be undone.
+         * @param stackId - The ID of the stack
+         * @param version - Optional: The version to restore, defaults to the latest, i.e. the state before the last update
+         * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
+         * @returns {Promise<PortainerStack | undefined>} Promise resolving to the restored stack
+         */
+        async rollbackStack(stackId: number, version?: number, options?: PortainerRequestOptions): Promise<PortainerStack | undefined> {
+            const request = withDeadline(options);
+
+            if (version !== undefined && (!Number.isInteger(version) || version <= 0)) {
+                return handleFailure(this.auth.strict, new ValidationError('Invalid version: must be a positive integer'), undefined);
+            }
+
+            const versions = await this.getStackHistory(stackId);
+            if (!versions) {
+                return undefined;
+            }
+
+            const target = version === undefined ? versions.at(-1) : versions.find(candidate => candidate.version === version);
+            if (!target) {
+                return handleFailure(this.auth.strict, new NotFoundError(version === undefined ? `Stack ${stackId} has no saved versions` : `Version ${version} of stack ${stackId} not found`), undefined);
+            }
+
+            const stack = await this.getStack(stackId, request);
+            if (!stack) {
+                return undefined;
+            }
+
+            logInfo(`Rolling back stack ${stackId} to version ${target.version}...`);
+            return this.updateStack(stackId, target.composeContent, stack.EndpointId, { pullImage: false, env: { replace: target.env } }, request);
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import type { AxiosRequestConfig } from 'axios';
+import type { PortainerRequestPriority } from './scheduler.ts';
+
+/**
+ * Per-call cancellation options accepted by every public API method.
+ * @property signal - Optional: Aborts the call, including retries and polling, when signalled. The call rejects with an AbortError.
+ * @property timeoutMs - Optional: Deadline for the whole call in milliseconds. The call rejects with a TimeoutError when it passes.
+ * @property priority - Optional: Scheduler lane for the call's requests, e.g. `background` for bulk jobs.
+ */
+export interface PortainerRequestOptions {
+    signal?: AbortSignal | undefined;
+    timeoutMs?: number | undefined;
+    priority?: PortainerRequestPriority | undefined;
+}
+
+/**
+ * Options for methods that poll until something happens.
+ * Unlike a plain request, running out of `timeoutMs` is an answer, not a failure: the method returns false
+ * (or throws a TimeoutError in strict mode). Aborting the `signal` always throws.
+ * @property timeoutMs - Optional: How long to keep polling in milliseconds.
+ * @property intervalMs - Optional: The pause between polls in milliseconds.
+ */
+export interface PortainerWaitOptions extends PortainerRequestOptions {
+    intervalMs?: number | undefined;
+}
+
+/**
+ * Folds `timeoutMs` into the signal so the deadline covers every request a method makes.
+ * Call once at the start of a public method and pass the result on to nested calls.
+ * @param options - Optional: The caller's options.
+ * @returns {PortainerRequestOptions} Options with at most a `signal` and a `priority`.
+ */
+export function withDeadline(options?: PortainerRequestOptions): PortainerRequestOptions {
+    const signals: AbortSignal[] = [];
+    const priority = options?.priority ? { priority: options.priority } : {};
+
+    if (options?.signal) {
+        signals.push(options.signal);
+    }
+
+    if (options?.timeoutMs !== undefined) {
+        signals.push(AbortSignal.timeout(options.timeoutMs));
+    }
+
+    if (signals.length === 0) {
+        return priority;
+    }
+
+    return { ...priority, signal: signals.length === 1 ? signals[0] : AbortSignal.any(signals) };
+}
+
+/**
+ * Builds the axios config for the options.
+ * @param options - Optional: The resolved options (see `withDeadline`).
+ * @returns {AxiosRequestConfig} The config carrying the signal and priority, if any.
+ */
+export function requestConfig(options?: PortainerRequestOptions): AxiosRequestConfig {
+    return {
+        ...(options?.signal ? { signal: options.signal } : {}),
+        ...(options?.priority ? { priority: options.priority } : {}),
+    };
+}
+
+/**
+ * Waits for the given time, rejecting with the signal's reason as soon as it is aborted.
+ * @param ms - The time to wait in milliseconds.
+ * @param signal - Optional: Signal that cuts the wait short.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,245 @@
+import { type AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { EnvironmentUnavailableError, isCancellation } from './errors.ts';
+
+/**
+ * Retry policy for requests to Portainer.
+ * @property maxAttempts - Optional: Total attempts per request, including the first. `1` disables retries. Defaults to 3.
+ * @property baseDelayMs - Optional: Delay before the first retry; doubled for every further retry. Defaults to 250.
+ * @property maxDelayMs - Optional: Upper bound for a single delay, including `Retry-After`. Defaults to 5000.
+ * @property retryOnStatus - Optional: HTTP status codes to retry. Defaults to 408, 429, 502, 503 and 504.
+ * @property retryNonIdempotent - Optional: Also retry POST and PATCH requests. Defaults to false.
+ */
+export interface PortainerRetryOptions {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    retryOnStatus?: number[];
+    retryNonIdempotent?: boolean;
+}
+
+/**
+ * Circuit breaker settings. Circuits are kept per environment (`/api/endpoints/{id}/...`),
+ * plus one for the Portainer server itself.
+ * @property failureThreshold - Optional: Consecutive connection failures or 502/503/504 responses that open the circuit. Defaults to 5.
+ * @property resetTimeoutMs - Optional: How long an open circuit fails fast before a request is let through again. Defaults to 30000.
+ */
+export interface PortainerCircuitBreakerOptions {
+    failureThreshold?: number;
+    resetTimeoutMs?: number;
+}
+
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        /**
+         * Per-request retry settings, merged over the client's policy. `false` disables retries for the request,
+         * `{ retryNonIdempotent: true }` opts a POST or PATCH into retries.
+         */
+        retry?: PortainerRetryOptions | false;
+    }
+}
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retryAttempt?: number };
+
+const DEFAULT_RETRY_OPTIONS: Required<PortainerRetryOptions> = {
+    maxAttempts: 3,
+    baseDelayMs: 250,
+    maxDelayMs: 5000,
+    retryOnStatus: [408, 429, 502, 503, 504],
+    retryNonIdempotent: false,
+};
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Required<PortainerCircuitBreakerOptions> = {
+    failureThreshold: 5,
+    resetTimeoutMs: 30 * 1000,
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'];
+// Responses that mean the environment (or the proxy in front of Portainer) is down, as opposed to a rejected request
+const UNAVAILABLE_STATUS_CODES = [502, 503, 504];
+
+/**
+ * Reads a `Retry-After` header (seconds or HTTP date) in milliseconds.
+ */
+function getRetryAfterMs(response: AxiosResponse | undefined): number | null {
+    const header = response?.headers?.['retry-after'];
+    if (typeof header !== 'string' && typeof header !== 'number') {
+        return null;
+    }
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(header));
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decides whether and when failed requests are retried.
+ */
+export class RetryPolicy {
+    private readonly options: Required<PortainerRetryOptions>;
+
+    constructor(options: PortainerRetryOptions = {}) {
+        this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    }
+
+    /**
+     * Returns the delay before retrying the failed request, or null if it should not be retried.
+     * Increments the attempt counter on the request config.
+     * @param error - The error thrown by axios.
+     * @returns {number | null} The delay in milliseconds, or null to give up.
+     */
+    public getRetryDelay(error: AxiosError): number | null {
+        const config = error.config as RetryableRequestConfig | undefined;
+        if (!config || config.retry === false) {
+            return null;
+        }
+
+        const options = { ...this.options, ...config.retry };
+        const attempt = (config._retryAttempt ?? 0) + 1;
+        const method = (config.method ?? 'get').toLowerCase();
+
+        if (attempt >= options.maxAttempts) {
+            return null;
+        }
+
+        if (!options.retryNonIdempotent && !IDEMPOTENT_METHODS.includes(method)) {
+            return null;
+        }
+
+        const retryable = error.response ?
+            options.retryOnStatus.includes(error.response.status) :
+            RETRYABLE_ERROR_CODES.includes(error.code ?? '');
+
+        if (!retryable) {
+            return null;
+        }
+
+        config._retryAttempt = attempt;
+
+        const retryAfter = getRetryAfterMs(error.response);
+        if (retryAfter !== null) {
+            return Math.min(retryAfter, options.maxDelayMs);
+        }
+
+        // Exponential backoff with equal jitter: half the delay is fixed, the other half random
+        const delay = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+        return delay / 2 + Math.random() * (delay / 2);
+    }
+}
+
+/**
+ * Fails requests fast once an environment has been unreachable for several requests in a row.
+ * After `resetTimeoutMs` the circuit is half-open: one request is let through as a probe while the others keep
+ * failing fast. The probe succeeding closes the circuit; it failing re-opens it.
+ */
+export class CircuitBreaker {
+    private readonly options: Required<PortainerCircuitBreakerOptions>;
+    private readonly circuits = new Map<string, { failures: number; openedAt: number | null; probe: InternalAxiosRequestConfig | null; probedAt: number }>();
+
+    constructor(options: PortainerCircuitBreakerOptions = {}) {
+        this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+    }
+
+    /**
+     * Throws if the circuit for the request's environment is open, or half-open with a probe already in flight.
+     * Otherwise a half-open circuit takes the request as its probe.
+     * @param config - The outgoing request config.
+     * @throws {EnvironmentUnavailableError} If the circuit is open.
+     */
+    public check(config: InternalAxiosRequestConfig): void {
+        const key = CircuitBreaker.getKey(config.url);
+        const circuit = this.circuits.get(key);
+
+        if (circuit?.openedAt == null) {
+            return;
+        }
+
+        const details = { endpoint: config.url ?? null, method: config.method?.toUpperCase() ?? null };
+        if (Date.now() - circuit.openedAt < this.options.resetTimeoutMs) {
+            throw new EnvironmentUnavailableError(
+                `${key} has been unreachable for ${circuit.failures} consecutive requests; failing fast until ` +
+                `${new Date(circuit.openedAt + this.options.resetTimeoutMs).toISOString()}.`,
+                details
+            );
+        }
+
+        // A probe that never reported back (e.g. it failed before it was sent) stops blocking after another resetTimeoutMs
+        if (circuit.probe && circuit.probe !== config && Date.now() - circuit.probedAt < this.options.resetTimeoutMs) {
+            throw new EnvironmentUnavailableError(
+                `${key} has been unreachable for ${circuit.failures} consecutive requests; failing fast until the request probing it finishes.`,
+                details
+            );
+        }
+        circuit.probe = config;
+        circuit.probedAt = Date.now();
+    }
+
+    /**
+     * Records the outcome of a request. Only connection failures and 502/503/504 responses count as failures;
+     * cancelled requests are ignored.
+     * @param config - The request config.
+     * @param error - Optional: The error the request failed with.
+     */
+    public record(config: InternalAxiosRequestConfig | undefined, error?: AxiosError): void {
+        const key = CircuitBreaker.getKey(config?.url);
+        const current = this.circuits.get(key);
+
+        // A cancelled request says nothing about the environment, but a cancelled probe must make way for another
+        if (isCancellation(error)) {
+            if (current && current.probe === config) {
+                current.probe = null;
+            }
+            return;
+        }
+
+        const unavailable = error !== undefined && (
+            error.response ? UNAVAILABLE_STATUS_CODES.includes(error.response.status) : error.request !== undefined
+        );
+
+        if (!unavailable) {
+            this.circuits.delete(key);
+            return;
+        }
+
+        const circuit = current ?? { failures: 0, openedAt: null, probe: null, probedAt: 0 };
+        circuit.failures++;
+        circuit.probe = null;
+        if (circuit.failures >= this.options.failureThreshold) {
+            circuit.openedAt = Date.now();
+        }
+        this.circuits.set(key, circuit);
+    }
+
+    /**
+     * Whether requests to the environment currently fail fast, also while a probe of a half-open circuit is in flight.
+     * @param environmentId - Optional: The environment ID; omit for the Portainer server itself.
+     * @returns {boolean} True if the circuit is open.
+     */
+    public isOpen(environmentId?: number | null): boolean {
+        const key = environmentId == null ? CircuitBreaker.getKey() : CircuitBreaker.getKey(`/api/endpoints/${environmentId}`);
+        const circuit = this.circuits.get(key);
+        return circuit?.openedAt != null && (Date.now() - circuit.openedAt < this.options.resetTimeoutMs || circuit.probe !== null);
+    }
+
+    /**
+     * Maps a request URL to its circuit: the environment it targets, or the Portainer server.
+     */
+    private static getKey(url?: string): string {
+        const match = url?.match(/^\/?api\/endpoints\/(\d+)(?:[/?]|$)/);
+        return match ? `Environment ${match[1]}` : 'Portainer';
+    }
+}
+
+/**
+ * Reads retry settings from environment variables.
+ * PORTAINER_RETRY_MAX_ATTEMPTS sets the total attempts per request (`1` disables retries).
+ * @returns {PortainerRetryOptions | undefined} The retry settings, or undefined if none are set.
+ */
+export function getRetryOptionsFromEnv(): PortainerRetryOptions | undefined {
+    const maxAttempts = Number(process.env.PORTAINER_RETRY_MAX_ATTEMPTS);
+    return process.env.PORTAINER_RETRY_MAX_ATTEMPTS && !isNaN(maxAttempts) ? { maxAttempts } : undefined;
+}
@@ -0,0 +1,213 @@
+/**
+ * Priority lane of a request. Queued `interactive` requests always start before `normal` ones,
+ * and `normal` ones before `background` ones.
+ */
+export type PortainerRequestPriority = 'interactive' | 'normal' | 'background';
+
+/**
+ * Client-side request scheduling, off unless configured. Attached streams and followed logs are never queued.
+ * @property maxConcurrent - Optional: Requests in flight at once; further requests wait in their priority lane. Defaults to 10.
+ * @property requestsPerSecond - Optional: Cap on request starts per second (bursts up to the same number). Unlimited by default.
+ */
+export interface PortainerSchedulerOptions {
+    maxConcurrent?: number;
+    requestsPerSecond?: number;
+}
+
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        /**
+         * Priority lane for the request scheduler. Exec, logs and attach requests default to `interactive`,
+         * everything else to `normal`.
+         */
+        priority?: PortainerRequestPriority;
+    }
+}
+
+const DEFAULT_MAX_CONCURRENT = 10;
+const PRIORITIES: ReadonlyArray<PortainerRequestPriority> = ['interactive', 'normal', 'background'];
+// Requests a user is waiting on: exec sessions, logs and attached streams
+const INTERACTIVE_PATH = /\/docker\/(?:containers\/[^/]+\/(?:exec|logs|attach)|exec\/[^/]+\/(?:start|resize|json))(?:[/?]|$)/;
+// Requests that stay open until the caller closes them: attached streams and, when followed, logs
+const STREAMING_PATH = /\/docker\/containers\/[^/]+\/(attach|logs)(?:[/?]|$)/;
+
+/**
+ * Limits how many requests run at once and how fast they start, serving queued requests by priority.
+ */
+export class RequestScheduler {
+    private readonly maxConcurrent: number;
+    private readonly requestsPerSecond: number;
+    private readonly queues: Record<PortainerRequestPriority, Array<() => void>> = { interactive: [], normal: [], background: [] };
+    private tokens: number;
+    private lastRefill = Date.now();
+    private refillTimer: ReturnType<typeof setTimeout> | null = null;
+    private running = 0;
+
+    constructor(options: PortainerSchedulerOptions = {}) {
+        this.maxConcurrent = Math.max(1, options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+        this.requestsPerSecond = options.requestsPerSecond !== undefined && options.requestsPerSecond > 0 ?
+            options.requestsPerSecond :
+            Infinity;
+        this.tokens = Math.max(1, this.requestsPerSecond);
+    }
+
+    /**
+     * Number of requests currently in flight.
+     */
+    public get active(): number {
+        return this.running;
+    }
+
+    /**
+     * Number of requests waiting for a slot, across all lanes.
+     */
+    public get pending(): number {
+        return PRIORITIES.reduce((count, priority) => count + this.queues[priority].length, 0);
+    }
+
+    /**
+     * Returns the lane for a request: its explicit priority, or `interactive` for exec/logs/attach calls.
+     * @param url - The request URL.
+     * @param priority - Optional: The priority set on the request.
+     * @returns {PortainerRequestPriority} The lane the request is queued in.
+     */
+    public static getPriority(url?: string, priority?: PortainerRequestPriority): PortainerRequestPriority {
+        if (priority && PRIORITIES.includes(priority)) {
+            return priority;
+        }
+        return url && INTERACTIVE_PATH.test(url) ? 'interactive' : 'normal';
+    }
+
+    /**
+     * Returns whether a request is a stream that stays open until the caller closes it. Streams skip the scheduler,
+     * since a few of them would otherwise hold every slot for as long as they run.
+     * @param url - The request URL.
+     * @param params - Optional: The query parameters of the request.
+     * @param responseType - Optional: The response type of the request.
+     * @returns {boolean} Whether the request is a stream.
+     */
+    public static isStreaming(url?: string, params?: Record<string, unknown>, responseType?: string): boolean {
+        if (responseType === 'stream') {
+            return true;
+        }
+
+        const match = url ? STREAMING_PATH.exec(url) : null;
+        if (!match) {
+            return false;
+        }
+
+        const follow = params?.follow ?? new URLSearchParams(url!.split('?')[1] ?? '').get('follow');
+        return match[1] === 'attach' || follow === true || follow === 1 || follow === '1' || follow === 'true';
+    }
+
+    /**
+     * Waits for a free slot. Every resolved call must be paired with `release()`.
+     * @param priority - The lane to queue in.
+     * @param signal - Optional: Removes the request from the queue when aborted.
+     * @returns {Promise<void>} Resolves once the request may start; rejects with the signal's reason if aborted first.
+     */
+    public acquire(priority: PortainerRequestPriority, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+
+            const onAbort = () => {
+                const queue = this.queues[priority];
+                const index = queue.indexOf(start);
+                if (index !== -1) {
+                    queue.splice(index, 1);
+                }
+                reject(signal?.reason);
+            };
+            const start = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.queues[priority].push(start);
+            this.drain();
+        });
+    }
+
+    /**
+     * Frees the slot of a finished request and starts the next queued one.
+     */
+    public release(): void {
+        this.running = Math.max(0, this.running - 1);
+        this.drain();
+    }
+
+    /**
+     * Starts queued requests while there are free slots and rate limit tokens.
+     */
+    private drain(): void {
+        while (this.running < this.maxConcurrent && this.pending > 0) {
+            this.refillTokens();
+
+            if (this.tokens < 1) {
+                this.scheduleRefill();
+                return;
+            }
+
+            const lane = PRIORITIES.find(priority => this.queues[priority].length > 0)!;
+            const start = this.queues[lane].shift()!;
+
+            this.tokens -= 1;
+            this.running += 1;
+            start();
+        }
+    }
+
+    /**
+     * Adds the rate limit tokens earned since the last refill.
+     */
+    private refillTokens(): void {
+        if (this.requestsPerSecond === Infinity) {
+            return;
+        }
+
+        const now = Date.now();
+        const earned = ((now - this.lastRefill) / 1000) * this.requestsPerSecond;
+        this.tokens = Math.min(Math.max(1, this.requestsPerSecond), this.tokens + earned);
+        this.lastRefill = now;
+    }
+
+    /**
+     * Drains again once the next token is available.
+     */
+    private scheduleRefill(): void {
+        if (this.refillTimer) {
+            return;
+        }
+
+        const waitMs = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+        this.refillTimer = setTimeout(() => {
+            this.refillTimer = null;
+            this.drain();
+        }, waitMs);
+    }
+}
+
+/**
+ * Reads scheduler settings from environment variables.
+ * PORTAINER_MAX_CONCURRENT_REQUESTS sets the requests in flight, PORTAINER_REQUESTS_PER_SECOND the rate limit.
+ * @returns {PortainerSchedulerOptions | undefined} The scheduler settings, or undefined if none are set.
+ */
+export function getSchedulerOptionsFromEnv(): PortainerSchedulerOptions | undefined {
+    const options: PortainerSchedulerOptions = {};
+    const maxConcurrent = Number(process.env.PORTAINER_MAX_CONCURRENT_REQUESTS);
+    const requestsPerSecond = Number(process.env.PORTAINER_REQUESTS_PER_SECOND);
+
+    if (process.env.PORTAINER_MAX_CONCURRENT_REQUESTS && !isNaN(maxConcurrent)) {
+        options.maxConcurrent = maxConcurrent;
+    }
+
+    if (process.env.PORTAINER_REQUESTS_PER_SECOND && !isNaN(requestsPerSecond)) {
+        options.requestsPerSecond = requestsPerSecond;
+    }
+
+    return Object.keys(options).length > 0 ? options : undefined;
+}
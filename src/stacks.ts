@@ -0,0 +1,22 @@
+import type { PortainerStack, PortainerStackEnv } from './types.ts';
+
+// PortainerStack.Type of stacks deployed to a Swarm
+export const SWARM_STACK = 1;
+
+// Names Compose accepts for variables, which also keeps "=" out of them
+export const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Turns Portainer's list of stack variables into a map by name.
+ */
+export function toEnvVars(env: PortainerStack['Env'] | undefined): PortainerStackEnv {
+    return Object.fromEntries((env ?? []).map(({ name, value }) => [name, value]));
+}
+
+/**
+ * Checks that variables are a map of valid names to strings.
+ */
+export function isValidEnv(vars: unknown): vars is PortainerStackEnv {
+    return !!vars && typeof vars === 'object' && !Array.isArray(vars) &&
+        Object.entries(vars).every(([name, value]) => ENV_NAME_PATTERN.test(name) && typeof value === 'string');
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import https from 'https';
+import type { Duplex } from 'stream';
+import type { TLSSocket } from 'tls';
+
+/**
+ * TLS settings for the connection to Portainer.
+ * When omitted entirely, Node's default certificate validation is used.
+ * @property ca - Optional: CA certificate(s) to trust, e.g. an internal CA bundle (PEM).
+ * @property cert - Optional: Client certificate for mutual TLS (PEM).
+ * @property key - Optional: Private key of the client certificate (PEM).
+ * @property passphrase - Optional: Passphrase of the client key.
+ * @property insecure - Optional: Skip certificate chain and hostname validation. Never enable against untrusted networks.
+ * @property fingerprint - Optional: SHA-256 fingerprint(s) the server certificate must match, e.g. `AB:CD:...`.
+ */
+export interface PortainerTlsOptions {
+    ca?: string | Buffer | Array<string | Buffer>;
+    cert?: string | Buffer;
+    key?: string | Buffer;
+    passphrase?: string;
+    insecure?: boolean;
+    fingerprint?: string | string[];
+}
+
+/**
+ * Normalizes a SHA-256 fingerprint to upper-case hex without separators.
+ */
+function normalizeFingerprint(fingerprint: string): string {
+    return fingerprint.replace(/^sha256[:/]/i, '').replace(/[^a-fA-F0-9]/g, '').toUpperCase();
+}
+
+/**
+ * HTTPS agent that rejects servers whose certificate does not match one of the pinned fingerprints.
+ * The check runs on `secureConnect`, before any request data is sent, and also applies when `insecure` is set.
+ */
+class PinnedHttpsAgent extends https.Agent {
+    private readonly fingerprints: string[];
+
+    constructor(options: https.AgentOptions, fingerprints: string[]) {
+        // Resumed sessions may not expose the peer certificate, so never reuse them
+        super({ ...options, maxCachedSessions: 0 });
+        this.fingerprints = fingerprints.map(normalizeFingerprint);
+    }
+
+    createConnection(
+        options: https.RequestOptions,
+        callback?: (err: Error | null, stream: Duplex) => void
+    ): Duplex | null | undefined {
+        const socket = super.createConnection(options, callback) as TLSSocket | null | undefined;
+
+        socket?.once('secureConnect', () => {
+            const certificate = socket.getPeerCertificate();
+            const actual = certificate?.fingerprint256 ? normalizeFingerprint(certificate.fingerprint256) : '';
+
+            if (!this.fingerprints.includes(actual)) {
+                socket.destroy(new Error(
+                    `Portainer certificate fingerprint ${certificate?.fingerprint256 || '(none)'} does not match the pinned fingerprint.`
+                ));
+            }
+        });
+
+        return socket;
+    }
+}
+
+/**
+ * Creates the HTTPS agent for the given TLS settings.
+ * @param options - Optional: TLS settings for the Portainer connection.
+ * @returns {https.Agent | undefined} The agent, or undefined to use Node's defaults.
+ */
+export function createHttpsAgent(options?: PortainerTlsOptions): https.Agent | undefined {
+    if (!options) {
+        return undefined;
+    }
+
+    const agentOptions: https.AgentOptions = {
+        rejectUnauthorized: options.insecure !== true,
+    };
+
+    if (options.ca !== undefined) agentOptions.ca = options.ca;
+    if (options.cert !== undefined) agentOptions.cert = options.cert;
+    if (options.key !== undefined) agentOptions.key = options.key;
+    if (options.passphrase !== undefined) agentOptions.passphrase = options.passphrase;
+
+    const fingerprints = options.fingerprint === undefined ? [] :
+        Array.isArray(options.fingerprint) ? options.fingerprint : [options.fingerprint];
+
+    if (fingerprints.length > 0) {
+        return new PinnedHttpsAgent(agentOptions, fingerprints);
+    }
+
+    return new https.Agent(agentOptions);
+}
+
+/**
+ * Reads TLS settings from environment variables.
+ * PORTAINER_CA_FILE, PORTAINER_CLIENT_CERT_FILE and PORTAINER_CLIENT_KEY_FILE are paths to PEM files,
+ * PORTAINER_TLS_INSECURE=true skips validation and PORTAINER_CERT_FINGERPRINT is a comma-separated list of SHA-256 fingerprints.
+ * @returns {PortainerTlsOptions | undefined} The TLS settings, or undefined if none are set.
+ */
+export function getTlsOptionsFromEnv(): PortainerTlsOptions | undefined {
+    const options: PortainerTlsOptions = {};
+
+    if (process.env.PORTAINER_CA_FILE) {
+        options.ca = fs.readFileSync(process.env.PORTAINER_CA_FILE);
+    }
+
+    if (process.env.PORTAINER_CLIENT_CERT_FILE) {
+        options.cert = fs.readFileSync(process.env.PORTAINER_CLIENT_CERT_FILE);
+    }
+
+    if (process.env.PORTAINER_CLIENT_KEY_FILE) {
+        options.key = fs.readFileSync(process.env.PORTAINER_CLIENT_KEY_FILE);
+    }
+
+    if (process.env.PORTAINER_CLIENT_KEY_PASSPHRASE) {
+        options.passphrase = process.env.PORTAINER_CLIENT_KEY_PASSPHRASE;
+    }
+
+    if (process.env.PORTAINER_TLS_INSECURE === 'true') {
+        options.insecure = true;
+    }
+
+    if (process.env.PORTAINER_CERT_FINGERPRINT) {
+        options.fingerprint = process.env.PORTAINER_CERT_FINGERPRINT.split(',').map(f => f.trim()).filter(Boolean);
+    }
+
+    return Object.keys(options).length > 0 ? options : undefined;
+}
@@ -1,19 +1,137 @@
+import type { PortainerError } from './errors.ts';
+import type { PortainerRequestOptions } from './request.ts';
+
 export interface PortainerEnvironment {
     Id: number;
     Name: string;
-    // Add other relevant environment properties
+    Type: number; // 1 = Docker, 2 = Agent, 3 = Azure ACI, 4 = Edge Agent, 5 = Kubernetes (local), 6 = Kubernetes Agent, 7 = Edge Kubernetes
+    URL: string;
+    Status: number; // 1 = up, 2 = down
+    GroupId: number;
+    TagIds: number[];
+    Snapshots: PortainerEnvironmentSnapshot[];
+    PublicURL?: string;
+    EdgeID?: string; // Set for Edge environments once the agent has connected
+    EdgeKey?: string; // Set for Edge environments, passed to the Edge Agent as EDGE_KEY
 }
 
-export interface PortainerStack {
-    Id: number;
+export interface PortainerEnvironmentSnapshot {
+    Time: number;
+    DockerVersion?: string;
+    Swarm?: boolean;
+    TotalCPU?: number;
+    TotalMemory?: number;
+    RunningContainerCount?: number;
+    StoppedContainerCount?: number;
+    HealthyContainerCount?: number;
+    UnhealthyContainerCount?: number;
+    VolumeCount?: number;
+    ImageCount?: number;
+    ServiceCount?: number;
+    StackCount?: number;
+}
+
+/**
+ * Criteria for `findEnvironments()`. All given criteria must match.
+ * @property tag - Optional: Tag ID or name the environment carries, directly or through its group.
+ * @property tags - Optional: Several tag IDs or names, all of which the environment must carry.
+ * @property group - Optional: Environment group ID or name.
+ * @property type - Optional: Environment type, or several (see `PortainerEnvironment.Type`).
+ * @property status - Optional: Whether the environment is up or down.
+ */
+export interface PortainerEnvironmentFilter {
+    tag?: number | string;
+    tags?: Array<number | string>;
+    group?: number | string;
+    type?: number | number[];
+    status?: 'up' | 'down';
+}
+
+/**
+ * Client certificates for a Docker API reached over TCP with TLS.
+ * Each value is the PEM content, not a file path.
+ * @property ca - Optional: CA certificate to verify the Docker API with. Required unless `insecure` is set.
+ * @property cert - Optional: Client certificate, for Docker APIs that require client authentication.
+ * @property key - Optional: Key of the client certificate.
+ * @property insecure - Optional: Skip verifying the Docker API's certificate (opt-in, not recommended).
+ */
+export interface PortainerEnvironmentTls {
+    ca?: string | Buffer;
+    cert?: string | Buffer;
+    key?: string | Buffer;
+    insecure?: boolean;
+}
+
+/**
+ * Settings shared by every kind of environment.
+ * @property name - The environment name.
+ * @property publicUrl - Optional: Host used for published port links in the Portainer UI.
+ * @property groupId - Optional: Environment group ID, defaults to Unassigned.
+ * @property tagIds - Optional: Tag IDs to attach.
+ */
+interface PortainerEnvironmentBaseOptions {
+    name: string;
+    publicUrl?: string;
+    groupId?: number;
+    tagIds?: number[];
+}
+
+/**
+ * What to register with `createEnvironment()`.
+ * - `docker`: A Docker API over TCP (`tcp://host:2376`), optionally with TLS.
+ * - `agent`: A Portainer Agent (`host:9001`).
+ * - `edge`: An Edge Agent that connects to Portainer itself. `portainerUrl` is the address the agent
+ *   reaches Portainer at and defaults to the client's URL.
+ */
+export type PortainerEnvironmentCreateOptions =
+    | (PortainerEnvironmentBaseOptions & { type: 'docker'; url: string; tls?: PortainerEnvironmentTls })
+    | (PortainerEnvironmentBaseOptions & { type: 'agent'; url: string })
+    | (PortainerEnvironmentBaseOptions & { type: 'edge'; portainerUrl?: string; tunnelServerAddress?: string; checkinIntervalSeconds?: number });
+
+/**
+ * Changes for `updateEnvironment()`. Omitted fields are left as they are.
+ */
+export interface PortainerEnvironmentUpdate {
+    name?: string;
+    url?: string;
+    publicUrl?: string;
+    groupId?: number;
+    tagIds?: number[];
+}
+
+export interface PortainerTag {
+    ID: number;
     Name: string;
-    EndpointId: number;
+    Endpoints?: { [environmentId: string]: boolean }; // Environments carrying the tag
+    EndpointGroups?: { [groupId: string]: boolean }; // Environment groups carrying the tag
+}
+
+export interface PortainerEndpointGroup {
+    Id: number; // 1 = Unassigned, which cannot be deleted
+    Name: string;
+    Description?: string;
+    TagIds?: number[];
+}
+
+/**
+ * Settings for `createEnvironmentGroup()` and `updateEnvironmentGroup()`.
+ * @property name - The group name. Required when creating.
+ * @property description - Optional: A description shown in the Portainer UI.
+ * @property tags - Optional: Tag IDs or names of the group. Environments in the group inherit them.
+ * @property environmentIds - Optional: Environments to move into the group when creating it.
+ */
+export interface PortainerEndpointGroupOptions {
+    name?: string;
+    description?: string;
+    tags?: Array<number | string>;
+    environmentIds?: number[];
 }
 
 export interface PortainerContainer {
     Id: string;
     Names: string[];
     Image: string;
+    ImageID?: string; // The ID of the image the container runs, which changes when its tag is pulled anew
     Labels: { [key: string]: string };
     State: string;
     Status: string;
@@ -64,6 +182,558 @@ export interface PortainerStack {
     Id: number;
     Name: string;
     EndpointId: number;
+    Type: number; // 1 = Swarm, 2 = Compose, 3 = Kubernetes
+    Status: number; // 1 = active, 2 = inactive
+    SwarmId?: string; // Set for Swarm stacks
+    EntryPoint?: string; // Path of the compose file
+    Env: Array<{ name: string; value: string }> | null;
+    CreationDate: number; // Unix timestamp in seconds
+    CreatedBy: string;
+    UpdateDate: number; // Unix timestamp in seconds, 0 if never updated
+    UpdatedBy: string;
+    GitConfig?: PortainerStackGitConfig | null; // Set for stacks deployed from a Git repository
+    ResourceControl?: PortainerResourceControl | null;
+    AutoUpdate?: PortainerStackAutoUpdate | null;
+}
+
+/**
+ * Whether a stack is running (`active`) or stopped (`inactive`).
+ */
+export type PortainerStackStatus = 'active' | 'inactive';
+
+/**
+ * Environment variables of a stack by name, e.g. `{ DB_PASSWORD: 'secret' }`.
+ */
+export type PortainerStackEnv = { [name: string]: string };
+
+/**
+ * Changes for `patchStackEnv()`. Variables in `unset` are removed after `set` is applied.
+ * @property set - Optional: Variables to add or change.
+ * @property unset - Optional: Names of variables to remove.
+ */
+export interface PortainerStackEnvPatch {
+    set?: PortainerStackEnv;
+    unset?: string[];
+}
+
+/**
+ * Settings for `updateStack()`.
+ * @property pullImage - Optional: Whether to pull images before redeploying, defaults to true.
+ * @property prune - Optional: Whether to remove services that are no longer in the compose file, defaults to false.
+ * @property repullAndRedeploy - Optional: Whether to pull images and recreate containers even if their tags did not change, defaults to false.
+ * @property env - Optional: `"keep"` the stack's environment variables (default), `{ replace: vars }` them, or `{ merge: vars }` into them.
+ * @property wait - Optional: Whether to wait until every service runs healthy on its image, defaults to false.
+ * @property waitTimeoutMs - Optional: How long to wait in milliseconds, defaults to 5 minutes. Running out fails the update.
+ * @property intervalMs - Optional: The pause between checks while waiting in milliseconds, defaults to 2 seconds.
+ * @property rollbackOnFailure - Optional: Whether to restore the previous compose file and variables if the services
+ * do not come up healthy in time. Implies `wait`. Defaults to false.
+ */
+export interface PortainerStackUpdateOptions {
+    pullImage?: boolean;
+    prune?: boolean;
+    repullAndRedeploy?: boolean;
+    env?: 'keep' | { replace: PortainerStackEnv } | { merge: PortainerStackEnv };
+    wait?: boolean;
+    waitTimeoutMs?: number;
+    intervalMs?: number;
+    rollbackOnFailure?: boolean;
+}
+
+/**
+ * Options for `redeployStack()`.
+ * @property force - Optional: Whether to recreate containers even if their image did not change, defaults to false.
+ * @property wait - Optional: Whether to wait until every service runs on its new image, defaults to false.
+ * @property waitTimeoutMs - Optional: How long to wait in milliseconds, defaults to 5 minutes. Running out fails the redeploy.
+ * @property intervalMs - Optional: The pause between checks while waiting in milliseconds, defaults to 2 seconds.
+ * @property rollbackOnFailure - Optional: Whether to restore the previous version if the services do not come up healthy in time. Implies `wait`.
+ */
+export interface PortainerStackRedeployOptions extends PortainerRequestOptions {
+    force?: boolean;
+    wait?: boolean;
+    waitTimeoutMs?: number;
+    intervalMs?: number;
+    rollbackOnFailure?: boolean;
+}
+
+/**
+ * The outcome of `redeployStack()`: the updated stack and which of its services now run a different image.
+ */
+export interface PortainerStackRedeployResult {
+    stack: PortainerStack;
+    changed: string[];
+    unchanged: string[];
+}
+
+/**
+ * A service of a stack, with its containers and how many of them are in each state, e.g. `{ running: 2, exited: 1 }`.
+ */
+export interface PortainerStackService {
+    name: string;
+    containers: PortainerContainer[];
+    states: { [state: string]: number };
+}
+
+/**
+ * Who may access a resource such as a stack.
+ */
+export interface PortainerResourceControl {
+    Id: number;
+    ResourceId: string;
+    SubResourceIds: string[];
+    Type: number; // 6 = stack
+    UserAccesses: Array<{ UserId: number; AccessLevel: number }>;
+    TeamAccesses: Array<{ TeamId: number; AccessLevel: number }>;
+    Public: boolean;
+    AdministratorsOnly: boolean;
+    System: boolean;
+}
+
+/**
+ * How a stack is deployed: with Docker Compose on one host, or as a Swarm stack across a cluster.
+ */
+export type PortainerStackDeploymentType = 'standalone' | 'swarm';
+
+/**
+ * Where a Git-backed stack comes from and which commit is deployed.
+ */
+export interface PortainerStackGitConfig {
+    URL: string;
+    ReferenceName: string;
+    ConfigFilePath: string;
+    ConfigHash: string; // The deployed commit
+    Authentication?: { Username: string; Password: string; GitCredentialID?: number } | null; // Password is never returned
+    TLSSkipVerify?: boolean;
+}
+
+export interface PortainerStackAutoUpdate {
+    Interval: string; // e.g. "5m", empty when not polling
+    Webhook: string; // The webhook ID, empty when there is no webhook
+    ForceUpdate: boolean;
+    ForcePullImage: boolean;
+}
+
+/**
+ * Credentials for a private repository: a username with a password or personal access token,
+ * or the ID of Git credentials saved in Portainer.
+ */
+export type PortainerGitCredentials =
+    | { username: string; password: string }
+    | { gitCredentialId: number };
+
+/**
+ * Keeps a Git-backed stack in sync with its repository.
+ * @property interval - Optional: How often Portainer polls the repository, e.g. "5m".
+ * @property webhook - Optional: Whether to create a webhook that triggers a redeploy, see `getStackWebhookUrl()`.
+ * @property forceUpdate - Optional: Redeploy even when the compose file did not change, dropping local changes.
+ * @property forcePullImage - Optional: Pull the images again on every redeploy.
+ */
+export interface PortainerGitAutoUpdate {
+    interval?: string;
+    webhook?: boolean;
+    forceUpdate?: boolean;
+    forcePullImage?: boolean;
+}
+
+/**
+ * Options for creating a stack from a Git repository.
+ * @property reference - Optional: The branch or tag to deploy, defaults to `refs/heads/main`.
+ * @property composePath - Optional: The compose file's path in the repository, defaults to `docker-compose.yml`.
+ * @property additionalFiles - Optional: More compose files to merge over the first, in order.
+ * @property type - Optional: `swarm` to deploy a Swarm stack, defaults to `standalone`.
+ * @property swarmId - Optional: The Swarm cluster ID, detected from the environment when omitted.
+ */
+export interface PortainerGitStackOptions {
+    name: string;
+    repositoryUrl: string;
+    reference?: string;
+    composePath?: string;
+    additionalFiles?: string[];
+    credentials?: PortainerGitCredentials;
+    autoUpdate?: PortainerGitAutoUpdate;
+    env?: Array<{ name: string; value: string }>;
+    tlsSkipVerify?: boolean;
+    type?: PortainerStackDeploymentType;
+    swarmId?: string;
+}
+
+/**
+ * Options for pulling and redeploying a Git-backed stack.
+ * @property reference - Optional: Switch to another branch or tag, defaults to the current one.
+ * @property pullImage - Optional: Pull the images again, defaults to true.
+ * @property prune - Optional: Remove services that are no longer in the compose file, defaults to false.
+ */
+export interface PortainerGitRedeployOptions {
+    reference?: string;
+    credentials?: PortainerGitCredentials;
+    env?: Array<{ name: string; value: string }>;
+    pullImage?: boolean;
+    prune?: boolean;
+}
+
+/**
+ * A stack as it should be, see `PortainerFactory.plan()`.
+ * @property name - The name of the stack.
+ * @property environment - The ID or name of the environment the stack runs in.
+ * @property compose - The compose file content. In a manifest file, `composeFile` may point to a file instead.
+ * @property composeFile - Optional: The path of the compose file, relative to the manifest file. Used when `compose` is omitted.
+ * @property env - Optional: The environment variables of the stack, defaults to none.
+ * @property type - Optional: `swarm` to deploy a Swarm stack, defaults to `standalone`. Used when the stack is created.
+ */
+export interface PortainerStackManifestEntry {
+    name: string;
+    environment: number | string;
+    compose?: string;
+    composeFile?: string;
+    env?: PortainerStackEnv;
+    type?: PortainerStackDeploymentType;
+}
+
+/**
+ * The stacks that should exist.
+ * @property stacks - The stacks, each name at most once per environment.
+ * @property prune - Optional: Whether to delete stacks in the listed environments that are not in the manifest, defaults to false.
+ * Stacks deployed from Git are never deleted.
+ */
+export interface PortainerStackManifest {
+    stacks: PortainerStackManifestEntry[];
+    prune?: boolean;
+}
+
+/**
+ * How the environment variables of a stack would change.
+ * @property added - Variables that would be added, with their new values.
+ * @property changed - Variables that would get another value.
+ * @property removed - Names of the variables that would be removed.
+ */
+export interface PortainerStackEnvDiff {
+    added: PortainerStackEnv;
+    changed: { [name: string]: { from: string; to: string } };
+    removed: string[];
+}
+
+/**
+ * One step of a plan.
+ * @property action - What would be done with the stack; `noop` when it already matches the manifest.
+ * @property name - The name of the stack.
+ * @property environmentId - The ID of the environment the stack runs in.
+ * @property stackId - The ID of the stack, unless it is created.
+ * @property compose - The compose file content to deploy, unless the stack is deleted.
+ * @property env - The environment variables to deploy, unless the stack is deleted.
+ * @property type - The deployment type, unless the stack is deleted.
+ * @property diff - The compose file as lines prefixed with `+ `, `- ` or two spaces, and how the variables would change.
+ */
+export interface PortainerStackPlanStep {
+    action: 'create' | 'update' | 'delete' | 'noop';
+    name: string;
+    environmentId: number;
+    stackId?: number;
+    compose?: string;
+    env?: PortainerStackEnv;
+    type?: PortainerStackDeploymentType;
+    diff: {
+        compose: string[];
+        env: PortainerStackEnvDiff;
+    };
+}
+
+/**
+ * The outcome of `PortainerFactory.plan()`, to review and then pass to `apply()`.
+ * @property steps - One step per stack, in manifest order, followed by the deletions.
+ * @property changes - How many steps are not `noop`.
+ */
+export interface PortainerStackPlan {
+    steps: PortainerStackPlanStep[];
+    changes: number;
+}
+
+/**
+ * Reported by `PortainerFactory.apply()` as each step starts, is done or fails. `noop` steps are skipped without an event.
+ * @property index - The position of the step in the plan, from 0.
+ * @property total - How many steps the plan has.
+ */
+export interface PortainerApplyEvent {
+    type: 'start' | 'done' | 'failed';
+    step: PortainerStackPlanStep;
+    index: number;
+    total: number;
+    error?: PortainerError;
+}
+
+/**
+ * Options for `PortainerFactory.plan()`.
+ * @property showValues - Optional: Whether the env diff shows variable values rather than masking them, defaults to false.
+ */
+export interface PortainerPlanOptions extends PortainerRequestOptions {
+    showValues?: boolean;
+}
+
+/**
+ * Options for `PortainerFactory.apply()`.
+ * @property onProgress - Optional: Called as each step starts, is done or fails.
+ * @property continueOnError - Optional: Whether to carry on with the next steps after one fails, defaults to false.
+ * @property pullImage - Optional: Whether updates pull images before redeploying, defaults to true.
+ * @property prune - Optional: Whether updates remove services that are no longer in the compose file, defaults to false.
+ */
+export interface PortainerApplyOptions extends PortainerRequestOptions {
+    onProgress?: (event: PortainerApplyEvent) => void;
+    continueOnError?: boolean;
+    pullImage?: boolean;
+    prune?: boolean;
+}
+
+/**
+ * The outcome of `PortainerFactory.apply()`.
+ * @property applied - The steps that were carried out.
+ * @property failed - The steps that failed, with why.
+ * @property skipped - The steps that were not tried: `noop` steps, and the ones after a failure unless `continueOnError` is set.
+ */
+export interface PortainerApplyResult {
+    applied: PortainerStackPlanStep[];
+    failed: Array<{ step: PortainerStackPlanStep; error: PortainerError }>;
+    skipped: PortainerStackPlanStep[];
+}
+
+/**
+ * A portable copy of a stack, see `PortainerFactory.exportStack()`.
+ * @property format - Always `writetainer-stack`.
+ * @property version - The version of the bundle format, currently 1.
+ * @property exportedAt - When the stack was exported, in milliseconds since the epoch.
+ * @property name - The name of the stack.
+ * @property type - How the stack is deployed.
+ * @property compose - The compose file content.
+ * @property env - The environment variables by name.
+ * @property metadata - Where the stack came from and who created and last updated it.
+ * @property images - Optional: The image each service ran when exported, with the image ID (its sha256 digest).
+ */
+export interface PortainerStackBundle {
+    format: 'writetainer-stack';
+    version: 1;
+    exportedAt: number;
+    name: string;
+    type: PortainerStackDeploymentType;
+    compose: string;
+    env: PortainerStackEnv;
+    metadata: {
+        stackId: number;
+        environmentId: number;
+        status: PortainerStackStatus;
+        createdBy: string;
+        creationDate: number;
+        updatedBy: string;
+        updateDate: number;
+        gitUrl?: string;
+    };
+    images?: Array<{ service: string; image: string; imageId: string }>;
+}
+
+/**
+ * A portable copy of all stacks of an environment, see `PortainerFactory.exportEnvironment()`.
+ * @property format - Always `writetainer-environment`.
+ * @property version - The version of the bundle format, currently 1.
+ * @property exportedAt - When the environment was exported, in milliseconds since the epoch.
+ * @property environment - The ID and name of the exported environment.
+ * @property stacks - A bundle per stack.
+ */
+export interface PortainerEnvironmentBundle {
+    format: 'writetainer-environment';
+    version: 1;
+    exportedAt: number;
+    environment: { id: number; name: string };
+    stacks: PortainerStackBundle[];
+}
+
+/**
+ * Options for `PortainerFactory.exportStack()` and `exportEnvironment()`.
+ * @property images - Optional: Whether to record the images the services run, defaults to false.
+ */
+export interface PortainerStackExportOptions extends PortainerRequestOptions {
+    images?: boolean;
+}
+
+/**
+ * Options for `PortainerFactory.importStack()` and `importEnvironment()`.
+ * @property environmentId - Optional: The environment to create the stacks in, defaults to the factory's environment.
+ * @property nameOverride - Optional: Another name for the stack. Only for `importStack()`.
+ */
+export interface PortainerStackImportOptions extends PortainerRequestOptions {
+    environmentId?: number;
+    nameOverride?: string;
+}
+
+/**
+ * The outcome of `PortainerFactory.importEnvironment()`: the stacks that were created, and the ones that failed.
+ */
+export interface PortainerEnvironmentImportResult {
+    imported: string[];
+    failed: Array<{ name: string; error: PortainerError }>;
+}
+/**
+ * A group of Edge environments that edge stacks are deployed to.
+ * Static groups list their environments; dynamic groups match environments by tag.
+ */
+export interface PortainerEdgeGroup {
+    Id: number;
+    Name: string;
+    Dynamic: boolean;
+    TagIds: number[];
+    Endpoints: number[]; // Resolved by Portainer for dynamic groups too
+    PartialMatch: boolean; // Dynamic groups only: match environments with any tag instead of all tags
+    HasEdgeStack?: boolean;
+}
+
+/**
+ * Options for creating an edge group. Pass `environmentIds` for a static group or `tags` for a dynamic one.
+ */
+export interface PortainerEdgeGroupOptions {
+    name: string;
+    environmentIds?: number[];
+    tags?: Array<number | string>;
+    partialMatch?: boolean;
+}
+
+/**
+ * The deployment of an edge stack on one Edge environment, as reported by its agent.
+ */
+export interface PortainerEdgeStackDeployment {
+    EndpointID: number;
+    Status: Array<{ Type: number; Error: string; Time: number }>; // Oldest first
+    DeploymentInfo?: { Version: number; FileVersion: number; ConfigHash: string };
+}
+
+export interface PortainerEdgeStack {
+    Id: number;
+    Name: string;
+    EdgeGroups: number[];
+    DeploymentType: number; // 0 = Compose, 1 = Kubernetes
+    Version: number; // Increases with every update that redeploys the stack
+    NumDeployments: number;
+    CreationDate: number;
+    Status: { [environmentId: string]: PortainerEdgeStackDeployment };
+}
+
+/**
+ * Options for creating an edge stack from compose content.
+ * @property edgeGroups - The IDs or names of the edge groups to deploy to.
+ */
+export interface PortainerEdgeStackOptions {
+    name: string;
+    composeContent: string;
+    edgeGroups: Array<number | string>;
+}
+
+/**
+ * Changes to an edge stack. Omitted fields keep their current value.
+ */
+export interface PortainerEdgeStackUpdate {
+    composeContent?: string;
+    edgeGroups?: Array<number | string>;
+}
+
+export type PortainerEdgeStackState =
+    | 'pending' | 'received' | 'error' | 'acknowledged' | 'removed' | 'remoteUpdated' | 'imagesPulled'
+    | 'running' | 'deploying' | 'removing' | 'pausedDeploying' | 'pausedRemoving' | 'rollingBack'
+    | 'rolledBack' | 'completed' | 'unknown';
+
+/**
+ * The latest deployment state of an edge stack on one Edge environment.
+ * @property version - The stack version the environment last deployed, or null if it has not reported one.
+ * @property updatedAt - When the state was reported, in seconds since the epoch.
+ */
+export interface PortainerEdgeStackEnvironmentStatus {
+    environmentId: number;
+    state: PortainerEdgeStackState;
+    version: number | null;
+    error: string | null;
+    updatedAt: number | null;
+}
+
+/**
+ * Options for the fleet queries, which run a query against many environments at once.
+ * @property environments - Optional: The environments to query, as a filter or a list of IDs. Defaults to all environments.
+ * @property concurrency - Optional: How many environments to query at the same time, defaults to 5.
+ */
+export interface PortainerFleetOptions extends PortainerRequestOptions {
+    environments?: PortainerEnvironmentFilter | number[];
+    concurrency?: number;
+}
+
+/**
+ * An item returned by a fleet query, tagged with the environment it came from.
+ */
+export type PortainerFleetItem<T> = T & {
+    environmentId: number;
+    environmentName: string;
+};
+
+/**
+ * An environment a fleet query could not get an answer from.
+ */
+export interface PortainerFleetFailure {
+    environmentId: number;
+    environmentName: string;
+    error: PortainerError;
+}
+
+/**
+ * The outcome of a fleet query: everything the reachable environments returned,
+ * and the environments that were down or failed.
+ */
+export interface PortainerFleetResult<T> {
+    results: PortainerFleetItem<T>[];
+    unavailable: PortainerFleetFailure[];
+}
+
+/**
+ * Output of Docker's `/info`, limited to the commonly used fields.
+ */
+export interface PortainerDockerInfo {
+    ID: string;
+    Name: string;
+    ServerVersion: string;
+    OperatingSystem: string;
+    OSType: string;
+    Architecture: string;
+    KernelVersion: string;
+    NCPU: number;
+    MemTotal: number;
+    Driver: string;
+    Containers: number;
+    ContainersRunning: number;
+    ContainersPaused: number;
+    ContainersStopped: number;
+    Images: number;
+    Swarm?: {
+        NodeID: string;
+        LocalNodeState: string; // inactive, pending, active, error or locked
+        ControlAvailable: boolean;
+        Cluster?: { ID: string };
+    };
+}
+
+/**
+ * Output of Docker's `/version`.
+ */
+export interface PortainerDockerVersion {
+    Version: string;
+    ApiVersion: string;
+    MinAPIVersion?: string;
+    GitCommit?: string;
+    GoVersion?: string;
+    Os: string;
+    Arch: string;
+    KernelVersion?: string;
+    BuildTime?: string;
+}
+
+export interface PortainerUser {
+    Id: number;
+    Username: string;
+    Role: number; // 1 = administrator, 2 = standard user
+}
+
+export interface PortainerSystemStatus {
+    Version: string;
+    InstanceID?: string;
 }
 
 export interface PortainerStackContent {
@@ -71,6 +741,8 @@ export interface PortainerStackContent {
     ComposeFile: string | any;
     Env?: Array<{ name: string; value: string }>
     FromAppTemplate?: boolean;
+    Type?: PortainerStackDeploymentType;
+    SwarmID?: string;
 }
 
 export type Constructor<T = {}> = new (...args: any[]) => T;
\ No newline at end of file
@@ -1,19 +1,43 @@
 import { PortainerApi } from "./api.ts";
-import type { PortainerContainer } from "./types.ts";
+import type { PortainerContainer, PortainerEnvironment, PortainerStack } from "./types.ts";
 import { logInfo, logWarn, logError } from "../logger.ts";
+import { isCancellation, toPortainerError } from "./errors.ts";
+import { delay, withDeadline, type PortainerRequestOptions } from "./request.ts";
+
+// Minimal client shapes so the helpers work with any client, not only the default singleton
+interface EnvironmentSource {
+    getEnvironments: () => Promise<PortainerEnvironment[] | undefined>;
+}
+
+interface ContainerSource {
+    getContainers: (includeAll: boolean, environmentId?: number | null) => Promise<PortainerContainer[] | undefined>;
+    getContainerDetails: (identifier: string, environmentId?: number | null, options?: PortainerRequestOptions) => Promise<PortainerContainer | undefined>;
+}
+
+interface StackSource {
+    getStacks: (options?: PortainerRequestOptions) => Promise<PortainerStack[] | undefined>;
+}
 
 /**
- * Get the first available environment ID
+ * Get the first available environment ID, preferring environments that are up
+ * @param client - Optional: The client to query, defaults to the PortainerApi singleton
  * @returns {Promise<number | null>} - Promise resolving to the first environment ID or null if none found
  */
-export async function getFirstEnvironmentId(): Promise<number | null> {
+export async function getFirstEnvironmentId(client: EnvironmentSource = PortainerApi.instance): Promise<number | null> {
     try {
-        const environments = await PortainerApi.instance.getEnvironments();
+        const environments = await client.getEnvironments();
         if (!environments || environments.length === 0) {
             logError('No environments found in the Portainer instance.');
             return null;
         }
-        return environments.length > 0 ? environments[0]!.Id : null;
+
+        // Prefer an environment Portainer last saw up over one whose Docker host is unreachable
+        const upEnvironment = environments.find(env => env.Status === 1);
+        if (!upEnvironment) {
+            logWarn(`No environment is up, using environment ${environments[0]!.Id} anyway.`);
+            return environments[0]!.Id;
+        }
+        return upEnvironment.Id;
     } catch (error) {
         logError('Error getting first environment ID:', error);
         return Promise.resolve(null);
@@ -23,10 +47,12 @@ export async function getFirstEnvironmentId(): Promise<number | null> {
 /**
  * Get a container by specific details
  * @param criteria - The search criteria (image name, label, etc.)
+ * @param client - Optional: The client to query, defaults to the PortainerApi singleton
  * @returns {Promise<PortainerContainer | null>} - Promise resolving to the container object or null if not found
  */
 export async function getContainerByDetails(
-    criteria: { image?: string; label?: string }
+    criteria: { image?: string; label?: string },
+    client: Pick<ContainerSource, 'getContainers'> = PortainerApi.instance
 ): Promise<PortainerContainer | null> {
     if (!criteria || typeof criteria !== 'object') {
         logError('Invalid criteria: must be an object');
@@ -49,7 +75,7 @@ export async function getContainerByDetails(
     }
 
     try {
-        const containers = await PortainerApi.instance.getContainers(true);
+        const containers = await client.getContainers(true);
         if (!containers) {
             logError('No containers found in the specified environment.');
             return null;
@@ -76,16 +102,18 @@ export async function getContainerByDetails(
 /**
  * Get a stack by name
  * @param stackName - The name of the stack to find
+ * @param client - Optional: The client to query, defaults to the PortainerApi singleton
+ * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
  * @returns {Promise<any | null>} - Promise resolving to the stack object or null if not found
  */
-export async function getStackByName(stackName: string): Promise<any | null> {
+export async function getStackByName(stackName: string, client: StackSource = PortainerApi.instance, options?: PortainerRequestOptions): Promise<any | null> {
     try {
         if (!stackName || typeof stackName !== 'string') {
             logError('Invalid stackName: must be a non-empty string');
             return null;
         }
 
-        const stacks = await PortainerApi.instance.getStacks();
+        const stacks = await client.getStacks(options);
 
         if (!stacks) {
             logError('No stacks found in the specified environment.');
@@ -96,6 +124,9 @@ export async function getStackByName(stackName: string): Promise<any | null> {
 
         return stack || null;
     } catch (error) {
+        if (isCancellation(error)) {
+            throw toPortainerError(error, `Failed to get stack by name "${stackName}"`);
+        }
         logError(`Failed to get stack by name "${stackName}":`, error);
         return null;
     }
@@ -105,9 +136,11 @@ export async function getStackByName(stackName: string): Promise<any | null> {
  * Get a stack by ID
  * @param stackid - The ID of the stack to find
  * @param environmentId - The ID of the Portainer environment
+ * @param client - Optional: The client to query, defaults to the PortainerApi singleton
+ * @param options - Optional: Request options (`signal`, `timeoutMs`, `priority`).
  * @returns {Promise<any | null>} - Promise resolving to the stack object or null if not found
  */
-export async function getStackById(stackid: number, environmentId: number): Promise<any | null> {
+export async function getStackById(stackid: number, environmentId: number, client: StackSource = PortainerApi.instance, options?: PortainerRequestOptions): Promise<any | null> {
     try {
         if (typeof stackid !== 'number' || isNaN(stackid) || stackid <= 0) {
             logError('Invalid stackid: must be a positive number');
@@ -119,7 +152,7 @@ export async function getStackById(stackid: number, environmentId: number): Prom
             return null;
         }
 
-        const stacks = await PortainerApi.instance.getStacks();
+        const stacks = await client.getStacks(options);
         if (!stacks) {
             logError('No stacks found in the specified environment.');
             return null;
@@ -127,6 +160,9 @@ export async function getStackById(stackid: number, environmentId: number): Prom
         const stack = stacks.find((s: any) => s.Id === stackid && s.EndpointId === environmentId);
         return stack || null;
     } catch (error) {
+        if (isCancellation(error)) {
+            throw toPortainerError(error, `Failed to get stack by id "${stackid}"`);
+        }
         logError(`Failed to get stack by id "${stackid}" and environmentId "${environmentId}":`, error);
         return null;
     }
@@ -136,9 +172,11 @@ export async function getStackById(stackid: number, environmentId: number): Prom
  * Verify that a stack was created successfully
  * @param stackName - The name of the stack to verify
  * @param timeoutMs - Timeout in milliseconds (default: 5000)
+ * @param client - Optional: The client to query, defaults to the PortainerApi singleton
+ * @param options - Optional: Cancellation options; an aborted `signal` stops polling with an AbortError.
  * @returns {Promise<boolean>} - Promise resolving to true if stack exists
  */
-export async function verifyStackCreation(stackName: string, timeoutMs: number = 5000): Promise<boolean> {
+export async function verifyStackCreation(stackName: string, timeoutMs: number = 5000, client: StackSource = PortainerApi.instance, options?: PortainerRequestOptions): Promise<boolean> {
     if (!stackName || typeof stackName !== 'string') {
         logError('Invalid stackName: must be a non-empty string');
         return false;
@@ -154,20 +192,26 @@ export async function verifyStackCreation(stackName: string, timeoutMs: number =
         timeoutMs = Math.floor(timeoutMs);
     }
 
+    const request = withDeadline(options);
     const startTime = Date.now();
 
     while (Date.now() - startTime < timeoutMs) {
         try {
-            const stack = await getStackByName(stackName);
+            const stack = await getStackByName(stackName, client, request);
             if (stack) {
                 logInfo(`Stack "${stackName}" verified successfully`);
                 return true;
             }
         } catch (error) {
+            if (isCancellation(error)) {
+                throw toPortainerError(error, `Failed to verify stack "${stackName}"`);
+            }
             logWarn('Error during stack verification:', error);
         }
 
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await delay(1000, request.signal).catch(error => {
+            throw toPortainerError(error, `Failed to verify stack "${stackName}"`);
+        });
     }
 
     logWarn(`Stack verification timed out for "${stackName}"`);
@@ -178,9 +222,11 @@ export async function verifyStackCreation(stackName: string, timeoutMs: number =
  * Verify that a container was created successfully
  * @param containerName - The name of the container to verify
  * @param timeoutMs - Timeout in milliseconds (default: 5000)
+ * @param client - Optional: The client to query, defaults to the PortainerApi singleton
+ * @param options - Optional: Cancellation options; an aborted `signal` stops polling with an AbortError.
  * @returns {Promise<boolean>} - Promise resolving to true if container exists
  */
-export async function verifyContainerCreation(containerName: string, timeoutMs: number = 5000): Promise<boolean> {
+export async function verifyContainerCreation(containerName: string, timeoutMs: number = 5000, client: Pick<ContainerSource, 'getContainerDetails'> = PortainerApi.getInstance(), options?: PortainerRequestOptions): Promise<boolean> {
     if (!containerName || typeof containerName !== 'string') {
         logError('Invalid containerName: must be a non-empty string');
         return false;
@@ -196,22 +242,28 @@ export async function verifyContainerCreation(containerName: string, timeoutMs:
         timeoutMs = Math.floor(timeoutMs);
     }
 
+    const request = withDeadline(options);
     const startTime = Date.now();
 
     while (Date.now() - startTime < timeoutMs) {
         try {
-            const container = await PortainerApi.getInstance().getContainerDetails(containerName);
+            const container = await client.getContainerDetails(containerName, undefined, request);
 
             if (container) {
                 logInfo(`Container "${containerName}" verified successfully (State: ${container.State})`);
                 return true;
             }
         } catch (error) {
+            if (isCancellation(error)) {
+                throw toPortainerError(error, `Failed to verify container "${containerName}"`);
+            }
             logWarn('Error during container verification:', error);
         }
 
         // Wait 1 second before retrying
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await delay(1000, request.signal).catch(error => {
+            throw toPortainerError(error, `Failed to verify container "${containerName}"`);
+        });
     }
 
     logWarn(`Container verification timed out for "${containerName}"`);
@@ -0,0 +1,6 @@
+/**
+ * Returns whether the value is a positive integer ID.
+ */
+export function isValidId(id: unknown): id is number {
+    return typeof id === 'number' && Number.isInteger(id) && id > 0;
+}
@@ -33,6 +33,30 @@ vi.mock("../src/mixins/EnvironmentMixins.ts", () => ({
     EnvironmentsMixin: (Base: any) => Base
 }));
 
+vi.mock("../src/mixins/EnvironmentManagementMixin.ts", () => ({
+    EnvironmentManagementMixin: (Base: any) => Base
+}));
+
+vi.mock("../src/mixins/EnvironmentGroupsMixin.ts", () => ({
+    EnvironmentGroupsMixin: (Base: any) => Base
+}));
+
+vi.mock("../src/mixins/EnvironmentHealthMixin.ts", () => ({
+    EnvironmentHealthMixin: (Base: any) => Base
+}));
+
+vi.mock("../src/mixins/FleetMixin.ts", () => ({
+    FleetMixin: (Base: any) => Base
+}));
+
+vi.mock("../src/mixins/EdgeGroupsMixin.ts", () => ({
+    EdgeGroupsMixin: (Base: any) => Base
+}));
+
+vi.mock("../src/mixins/EdgeStacksMixin.ts", () => ({
+    EdgeStacksMixin: (Base: any) => Base
+}));
+
 vi.mock("../src/mixins/ResourceFetchingMixin.ts", () => ({
     ResourceFetchingMixin: (Base: any) => Base
 }));
@@ -45,6 +69,10 @@ vi.mock("../src/mixins/ContainerControlsMixin.ts", () => ({
     ContainerControlsMixin: (Base: any) => Base
 }));
 
+vi.mock("../src/mixins/GitStacksMixin.ts", () => ({
+    GitStacksMixin: (Base: any) => Base
+}));
+
 vi.mock("../src/mixins/StackControlsMixin.ts", () => ({
     StackControlsMixin: (Base: any) => Base
 }));
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { PortainerAuth } from "../src/auth.ts";
+import { EnvironmentUnavailableError } from "../src/errors.ts";
+import { MemoryStackHistoryStore } from "../src/history.ts";
 
 describe("PortainerAuth Tests", () => {
     let originalEnv: NodeJS.ProcessEnv;
@@ -27,7 +29,7 @@ describe("PortainerAuth Tests", () => {
             const instance = PortainerAuth.getInstance();
 
             expect(instance).toBeInstanceOf(PortainerAuth);
-            expect(instance.isValidated).toBe(true);
+            expect(instance.isValidated).toBe(false);
         });
 
         it("should return same singleton instance on multiple calls", () => {
@@ -114,24 +116,35 @@ describe("PortainerAuth Tests", () => {
             expect(instance.axiosInstance.defaults.headers['X-API-Key']).toBe("test-api-key-12345");
         });
 
-        it("should disable SSL verification in non-production environment", () => {
+        it("should keep SSL verification enabled regardless of NODE_ENV", () => {
             process.env.PORTAINER_URL = "https://portainer.example.com";
             process.env.PORTAINER_API_KEY = "test-api-key";
             process.env.NODE_ENV = "development";
 
             const instance = PortainerAuth.getInstance();
 
-            expect(instance.axiosInstance.defaults.httpsAgent).toBeDefined();
+            expect(instance.axiosInstance.defaults.httpsAgent).toBeUndefined();
         });
 
-        it("should enable SSL verification in production environment", () => {
+        it("should disable SSL verification only when PORTAINER_TLS_INSECURE is true", () => {
             process.env.PORTAINER_URL = "https://portainer.example.com";
             process.env.PORTAINER_API_KEY = "test-api-key";
-            process.env.NODE_ENV = "production";
+            process.env.PORTAINER_TLS_INSECURE = "true";
 
             const instance = PortainerAuth.getInstance();
 
-            expect(instance.axiosInstance.defaults.httpsAgent).toBeUndefined();
+            expect(instance.axiosInstance.defaults.httpsAgent.options.rejectUnauthorized).toBe(false);
+        });
+
+        it("should use the TLS options passed to the constructor", () => {
+            const instance = new PortainerAuth({
+                url: "https://portainer.example.com",
+                apiKey: "test-api-key",
+                tls: { ca: "-----BEGIN CERTIFICATE-----" }
+            });
+
+            expect(instance.axiosInstance.defaults.httpsAgent.options.ca).toBe("-----BEGIN CERTIFICATE-----");
+            expect(instance.axiosInstance.defaults.httpsAgent.options.rejectUnauthorized).toBe(true);
         });
     });
 
@@ -156,16 +169,16 @@ describe("PortainerAuth Tests", () => {
     });
 
     describe("isValidated()", () => {
-        it("should be true after instance creation", () => {
+        it("should be false after instance creation", () => {
             process.env.PORTAINER_URL = "https://portainer.example.com";
             process.env.PORTAINER_API_KEY = "test-api-key";
 
             const instance = PortainerAuth.getInstance();
 
-            expect(instance.isValidated).toBe(true);
+            expect(instance.isValidated).toBe(false);
         });
 
-        it("should be true after headers are updated", () => {
+        it("should stay false after headers are updated", () => {
             process.env.PORTAINER_URL = "https://portainer.example.com";
             process.env.PORTAINER_API_KEY = "test-api-key";
 
@@ -174,7 +187,138 @@ describe("PortainerAuth Tests", () => {
             // Call private method via any cast to test
             (instance as any).updateAuthHeaders();
 
+            expect(instance.isValidated).toBe(false);
+        });
+    });
+
+    describe("validate()", () => {
+        let instance: PortainerAuth;
+
+        const respond = (config: any, data: unknown) => ({ data, status: 200, statusText: "OK", headers: {}, config });
+        const fail = (config: any, props: Record<string, unknown>) => {
+            const error: any = new Error(props.message as string || "Request failed");
+            error.config = config;
+            error.isAxiosError = true;
+            Object.assign(error, props);
+            return error;
+        };
+
+        beforeEach(() => {
+            instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "test-api-key" });
+        });
+
+        it("should record the user, role and server version on success", async () => {
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) =>
+                config.url === "/api/system/status" ?
+                    respond(config, { Version: "2.21.0" }) :
+                    respond(config, { Id: 1, Username: "admin", Role: 1 })
+            );
+
+            const result = await instance.validate();
+
+            expect(result).toEqual({
+                valid: true,
+                user: { Id: 1, Username: "admin", Role: 1 },
+                role: "administrator",
+                serverVersion: "2.21.0"
+            });
             expect(instance.isValidated).toBe(true);
+            expect(instance.user?.Username).toBe("admin");
+            expect(instance.role).toBe("administrator");
+            expect(instance.serverVersion).toBe("2.21.0");
+        });
+
+        it("should map role 2 to a standard user", async () => {
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) =>
+                config.url === "/api/system/status" ?
+                    respond(config, { Version: "2.21.0" }) :
+                    respond(config, { Id: 4, Username: "deploy", Role: 2 })
+            );
+
+            const result = await instance.validate();
+
+            expect(result.valid && result.role).toBe("user");
+        });
+
+        it("should report invalid credentials for a rejected API key", async () => {
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) => {
+                if (config.url === "/api/system/status") {
+                    return respond(config, { Version: "2.21.0" });
+                }
+                throw fail(config, { message: "Request failed with status code 401", response: { status: 401, data: { message: "Invalid API key" } } });
+            });
+
+            const result = await instance.validate();
+
+            expect(result).toMatchObject({ valid: false, reason: "invalid-credentials" });
+            expect(instance.isValidated).toBe(false);
+        });
+
+        it("should report an unreachable host", async () => {
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) => {
+                throw fail(config, { message: "connect ECONNREFUSED 127.0.0.1:9443", code: "ECONNREFUSED", request: {} });
+            });
+
+            const result = await instance.validate();
+
+            expect(result).toMatchObject({ valid: false, reason: "unreachable" });
+        });
+
+        it("should report a protocol mismatch", async () => {
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) => {
+                throw fail(config, {
+                    message: "Request failed with status code 400",
+                    response: { status: 400, data: "Client sent an HTTP request to an HTTPS server.\n" }
+                });
+            });
+
+            const result = await instance.validate();
+
+            expect(result).toMatchObject({ valid: false, reason: "protocol-mismatch" });
+        });
+
+        it("should report certificate problems", async () => {
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) => {
+                throw fail(config, { message: "self-signed certificate", code: "DEPTH_ZERO_SELF_SIGNED_CERT", request: {} });
+            });
+
+            const result = await instance.validate();
+
+            expect(result).toMatchObject({ valid: false, reason: "certificate" });
+        });
+
+        it("should share one validation between concurrent callers", async () => {
+            const adapter = vi.fn(async (config: any) =>
+                config.url === "/api/system/status" ?
+                    respond(config, { Version: "2.21.0" }) :
+                    respond(config, { Id: 1, Username: "admin", Role: 1 })
+            );
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await Promise.all([instance.validate(), instance.ensureValidated(), instance.ensureValidated()]);
+
+            expect(adapter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should not validate again once validated", async () => {
+            const adapter = vi.fn(async (config: any) =>
+                config.url === "/api/system/status" ?
+                    respond(config, { Version: "2.21.0" }) :
+                    respond(config, { Id: 1, Username: "admin", Role: 1 })
+            );
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            expect(await instance.ensureValidated()).toBe(true);
+            expect(await instance.ensureValidated()).toBe(true);
+            expect(adapter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should return false from ensureValidated() when validation fails", async () => {
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) => {
+                throw fail(config, { message: "getaddrinfo ENOTFOUND portainer.example.com", code: "ENOTFOUND", request: {} });
+            });
+
+            expect(await instance.ensureValidated()).toBe(false);
         });
     });
 
@@ -250,4 +394,346 @@ describe("PortainerAuth Tests", () => {
             expect(instance.PortainerUrl).toBe("https://portainer.example.com:9000");
         });
     });
+
+    describe("Constructor", () => {
+        it("should create independent instances without environment variables", () => {
+            delete process.env.PORTAINER_URL;
+            delete process.env.PORTAINER_API_KEY;
+
+            const first = new PortainerAuth({ url: "https://one.example.com/", apiKey: "key-one" });
+            const second = new PortainerAuth({ url: "https://two.example.com", apiKey: "key-two" });
+
+            expect(first).not.toBe(second);
+            expect(first.PortainerUrl).toBe("https://one.example.com");
+            expect(second.axiosInstance.defaults.headers['X-API-Key']).toBe("key-two");
+        });
+
+        it("should not affect the singleton instance", () => {
+            process.env.PORTAINER_URL = "https://portainer.example.com";
+            process.env.PORTAINER_API_KEY = "test-api-key";
+
+            const standalone = new PortainerAuth({ url: "https://other.example.com", apiKey: "other-key" });
+
+            expect(PortainerAuth.getInstance()).not.toBe(standalone);
+            expect(PortainerAuth.getInstance().PortainerUrl).toBe("https://portainer.example.com");
+        });
+
+        it("should throw when neither an API key nor a username and password are given", () => {
+            expect(() => new PortainerAuth({ url: "https://one.example.com", username: "admin" } as any)).toThrow(
+                "Either an API key or a username and password must be provided."
+            );
+        });
+    });
+
+    describe("Username/password login", () => {
+        const makeJwt = (expiresInSeconds: number) => {
+            const payload = Buffer.from(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + expiresInSeconds })).toString("base64url");
+            return `header.${payload}.signature`;
+        };
+
+        beforeEach(() => {
+            process.env.PORTAINER_URL = "https://portainer.example.com";
+            delete process.env.PORTAINER_API_KEY;
+            process.env.PORTAINER_USERNAME = "admin";
+            process.env.PORTAINER_PASSWORD = "secret";
+        });
+
+        it("should create instance from username and password environment variables", () => {
+            const instance = PortainerAuth.getInstance();
+
+            expect(instance).toBeInstanceOf(PortainerAuth);
+            expect(instance.axiosInstance.defaults.headers['X-API-Key']).toBeUndefined();
+        });
+
+        it("should prefer the API key when both are defined", () => {
+            process.env.PORTAINER_API_KEY = "test-api-key";
+
+            const instance = PortainerAuth.getInstance();
+
+            expect(instance.axiosInstance.defaults.headers['X-API-Key']).toBe("test-api-key");
+        });
+
+        it("should throw error when only the username is defined", () => {
+            delete process.env.PORTAINER_PASSWORD;
+
+            expect(() => PortainerAuth.getInstance()).toThrow(
+                "PORTAINER_URL and PORTAINER_API_KEY must be defined in environment variables."
+            );
+        });
+
+        it("should log in before the first request and send the JWT as a Bearer token", async () => {
+            const token = makeJwt(3600);
+            const instance = PortainerAuth.getInstance();
+            const adapter = vi.fn(async (config: any) => {
+                if (config.url === "/api/auth") {
+                    return { data: { jwt: token }, status: 200, statusText: "OK", headers: {}, config };
+                }
+                return { data: [], status: 200, statusText: "OK", headers: {}, config };
+            });
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await instance.axiosInstance.get("/api/stacks");
+
+            expect(adapter).toHaveBeenCalledTimes(2);
+            expect(adapter.mock.calls[0]![0].url).toBe("/api/auth");
+            expect(JSON.parse(adapter.mock.calls[0]![0].data)).toEqual({ username: "admin", password: "secret" });
+            expect(adapter.mock.calls[1]![0].headers.Authorization).toBe(`Bearer ${token}`);
+        });
+
+        it("should reuse a valid JWT across requests", async () => {
+            const instance = PortainerAuth.getInstance();
+            const adapter = vi.fn(async (config: any) => ({
+                data: config.url === "/api/auth" ? { jwt: makeJwt(3600) } : [],
+                status: 200, statusText: "OK", headers: {}, config
+            }));
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await instance.axiosInstance.get("/api/stacks");
+            await instance.axiosInstance.get("/api/endpoints");
+
+            const loginCalls = adapter.mock.calls.filter(([config]) => config.url === "/api/auth");
+            expect(loginCalls).toHaveLength(1);
+        });
+
+        it("should log in again when the JWT is about to expire", async () => {
+            const instance = PortainerAuth.getInstance();
+            const adapter = vi.fn(async (config: any) => ({
+                data: config.url === "/api/auth" ? { jwt: makeJwt(30) } : [],
+                status: 200, statusText: "OK", headers: {}, config
+            }));
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await instance.axiosInstance.get("/api/stacks");
+            await instance.axiosInstance.get("/api/endpoints");
+
+            const loginCalls = adapter.mock.calls.filter(([config]) => config.url === "/api/auth");
+            expect(loginCalls).toHaveLength(2);
+        });
+
+        it("should log in again and replay the request once on a 401", async () => {
+            const instance = PortainerAuth.getInstance();
+            let stackCalls = 0;
+            const adapter = vi.fn(async (config: any) => {
+                if (config.url === "/api/auth") {
+                    return { data: { jwt: makeJwt(3600) }, status: 200, statusText: "OK", headers: {}, config };
+                }
+                stackCalls++;
+                if (stackCalls === 1) {
+                    const error: any = new Error("Request failed with status code 401");
+                    error.config = config;
+                    error.response = { status: 401, data: { message: "Invalid JWT token" }, config };
+                    throw error;
+                }
+                return { data: [{ Id: 1 }], status: 200, statusText: "OK", headers: {}, config };
+            });
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            const response = await instance.axiosInstance.get("/api/stacks");
+
+            expect(response.data).toEqual([{ Id: 1 }]);
+            const loginCalls = adapter.mock.calls.filter(([config]) => config.url === "/api/auth");
+            expect(loginCalls).toHaveLength(2);
+        });
+
+        it("should reject when login fails", async () => {
+            const instance = PortainerAuth.getInstance();
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) => {
+                const error: any = new Error("Request failed with status code 422");
+                error.config = config;
+                error.response = { status: 422, data: { message: "Invalid credentials" }, config };
+                throw error;
+            });
+
+            await expect(instance.login()).rejects.toThrow("422");
+        });
+
+        it("should refuse to log in when using an API key", async () => {
+            process.env.PORTAINER_API_KEY = "test-api-key";
+            const instance = PortainerAuth.getInstance();
+
+            await expect(instance.login()).rejects.toThrow("requires username/password credentials");
+        });
+    });
+
+    describe("Retries and circuit breaking", () => {
+        const respond = (config: any, data: unknown) => ({ data, status: 200, statusText: "OK", headers: {}, config });
+        const failWith = (config: any, status: number) => {
+            const error: any = new Error(`Request failed with status code ${status}`);
+            error.config = config;
+            error.request = {};
+            error.response = { status, headers: {}, data: {} };
+            error.isAxiosError = true;
+            return error;
+        };
+
+        it("should retry a GET that failed with 502", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", retry: { baseDelayMs: 1 } });
+            const adapter = vi.fn()
+                .mockImplementationOnce(async (config: any) => { throw failWith(config, 502); })
+                .mockImplementationOnce(async (config: any) => respond(config, []));
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            const response = await instance.axiosInstance.get("/api/stacks");
+
+            expect(response.data).toEqual([]);
+            expect(adapter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should give up after maxAttempts", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", retry: { maxAttempts: 3, baseDelayMs: 1 } });
+            const adapter = vi.fn(async (config: any) => { throw failWith(config, 503); });
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await expect(instance.axiosInstance.get("/api/stacks")).rejects.toThrow("503");
+            expect(adapter).toHaveBeenCalledTimes(3);
+        });
+
+        it("should not retry a POST unless the request opts in", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", retry: { baseDelayMs: 1 } });
+            const adapter = vi.fn(async (config: any) => { throw failWith(config, 502); });
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await expect(instance.axiosInstance.post("/api/stacks", {})).rejects.toThrow("502");
+            expect(adapter).toHaveBeenCalledTimes(1);
+
+            await expect(instance.axiosInstance.post("/api/stacks", {}, { retry: { retryNonIdempotent: true } })).rejects.toThrow("502");
+            expect(adapter).toHaveBeenCalledTimes(4);
+        });
+
+        it("should not retry when retries are disabled", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", retry: false });
+            const adapter = vi.fn(async (config: any) => { throw failWith(config, 502); });
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await expect(instance.axiosInstance.get("/api/stacks")).rejects.toThrow("502");
+            expect(adapter).toHaveBeenCalledTimes(1);
+        });
+
+        it("should fail fast once the environment's circuit is open", async () => {
+            const instance = new PortainerAuth({
+                url: "https://portainer.example.com",
+                apiKey: "key",
+                retry: false,
+                circuitBreaker: { failureThreshold: 2 }
+            });
+            const adapter = vi.fn(async (config: any) => { throw failWith(config, 502); });
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await expect(instance.axiosInstance.get("/api/endpoints/3/docker/info")).rejects.toThrow("502");
+            await expect(instance.axiosInstance.get("/api/endpoints/3/docker/info")).rejects.toThrow("502");
+            await expect(instance.axiosInstance.get("/api/endpoints/3/docker/info")).rejects.toBeInstanceOf(EnvironmentUnavailableError);
+
+            expect(adapter).toHaveBeenCalledTimes(2);
+            expect(instance.circuitBreaker?.isOpen(3)).toBe(true);
+        });
+    });
+
+    describe("Request scheduling", () => {
+        const respond = (config: any, data: unknown) => ({ data, status: 200, statusText: "OK", headers: {}, config });
+
+        it("should keep at most maxConcurrent requests in flight", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", scheduler: { maxConcurrent: 2 } });
+            let inFlight = 0;
+            let peak = 0;
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) => {
+                inFlight++;
+                peak = Math.max(peak, inFlight);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                inFlight--;
+                return respond(config, []);
+            });
+
+            await Promise.all(Array.from({ length: 6 }, () => instance.axiosInstance.get("/api/stacks")));
+
+            expect(peak).toBe(2);
+            expect(instance.scheduler?.active).toBe(0);
+        });
+
+        it("should send queued interactive requests first", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", scheduler: { maxConcurrent: 1 } });
+            const adapter = vi.fn(async (config: any) => respond(config, {}));
+            instance.axiosInstance.defaults.adapter = adapter;
+
+            await Promise.all([
+                instance.axiosInstance.get("/api/stacks"),
+                instance.axiosInstance.get("/api/endpoints/1/docker/containers/json", { priority: "background" }),
+                instance.axiosInstance.post("/api/endpoints/1/docker/exec/abc/start", {}),
+            ]);
+
+            expect(adapter.mock.calls.map(([config]) => config.url)).toEqual([
+                "/api/stacks",
+                "/api/endpoints/1/docker/exec/abc/start",
+                "/api/endpoints/1/docker/containers/json",
+            ]);
+        });
+
+        it("should free the slot of failed requests", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", retry: false, scheduler: { maxConcurrent: 1 } });
+            instance.axiosInstance.defaults.adapter = vi.fn(async (config: any) => {
+                throw Object.assign(new Error("socket hang up"), { config, request: {}, code: "ECONNRESET", isAxiosError: true });
+            });
+
+            await expect(instance.axiosInstance.get("/api/stacks")).rejects.toThrow("socket hang up");
+            await expect(instance.axiosInstance.get("/api/stacks")).rejects.toThrow("socket hang up");
+            expect(instance.scheduler?.active).toBe(0);
+        });
+
+        it("should reject a request aborted while queued without sending it", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", scheduler: { maxConcurrent: 1 } });
+            let finish!: () => void;
+            const adapter = vi.fn((config: any) => new Promise<any>(resolve => { finish = () => resolve(respond(config, [])); }));
+            instance.axiosInstance.defaults.adapter = adapter;
+            const controller = new AbortController();
+
+            const first = instance.axiosInstance.get("/api/stacks");
+            const queued = instance.axiosInstance.get("/api/stacks", { signal: controller.signal });
+            await new Promise(resolve => setImmediate(resolve));
+            controller.abort();
+
+            await expect(queued).rejects.toMatchObject({ name: "AbortError" });
+            finish();
+            await first;
+            expect(adapter).toHaveBeenCalledTimes(1);
+            expect(instance.scheduler?.pending).toBe(0);
+        });
+
+        it("should not limit requests unless a scheduler is configured", () => {
+            expect(new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key" }).scheduler).toBeNull();
+            expect(new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", scheduler: {} }).scheduler).not.toBeNull();
+        });
+
+        it("should not hold a slot for streaming requests", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", scheduler: { maxConcurrent: 1 } });
+            let closeStream!: () => void;
+            instance.axiosInstance.defaults.adapter = vi.fn((config: any) => config.url.includes("follow")
+                ? new Promise<any>(resolve => { closeStream = () => resolve(respond(config, "")); })
+                : Promise.resolve(respond(config, [])));
+
+            const stream = instance.axiosInstance.get("/api/endpoints/1/docker/containers/abc/logs?follow=1&stdout=1");
+            await instance.axiosInstance.get("/api/stacks");
+
+            expect(instance.scheduler?.active).toBe(0);
+            closeStream();
+            await stream;
+        });
+
+        it("should not limit requests when the scheduler is disabled", async () => {
+            const instance = new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", scheduler: false });
+
+            expect(instance.scheduler).toBeNull();
+        });
+    });
+
+    describe("history", () => {
+        it("should keep stack versions in memory by default", () => {
+            expect(new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key" }).history).toBeInstanceOf(MemoryStackHistoryStore);
+        });
+
+        it("should use the given store or none", () => {
+            const store = { add: vi.fn(), list: vi.fn() };
+
+            expect(new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", history: store }).history).toBe(store);
+            expect(new PortainerAuth({ url: "https://portainer.example.com", apiKey: "key", history: false }).history).toBeNull();
+        });
+    });
 });
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { parseBundle, serializeBundle, validateStackBundle } from "../src/bundle.ts";
+import { ValidationError } from "../src/errors.ts";
+import type { PortainerEnvironmentBundle, PortainerStackBundle } from "../src/types.ts";
+
+const stackBundle = (name: string): PortainerStackBundle => ({
+    format: "writetainer-stack",
+    version: 1,
+    exportedAt: 1700000000000,
+    name,
+    type: "standalone",
+    compose: `services:\n  ${name}:\n    image: nginx:1.27\n`,
+    env: { MODE: "prod" },
+    metadata: { stackId: 4, environmentId: 1, status: "active", createdBy: "admin", creationDate: 1, updatedBy: "ci", updateDate: 2 },
+    images: [{ service: name, image: "nginx:1.27", imageId: "sha256:abc" }]
+});
+
+const environmentBundle: PortainerEnvironmentBundle = {
+    format: "writetainer-environment",
+    version: 1,
+    exportedAt: 1700000000000,
+    environment: { id: 1, name: "production" },
+    stacks: [stackBundle("web"), stackBundle("api")]
+};
+
+describe("Bundle Tests", () => {
+    describe("serializeBundle() and parseBundle()", () => {
+        it("should round-trip bundles through JSON", () => {
+            const json = serializeBundle(stackBundle("web"));
+
+            expect(typeof json).toBe("string");
+            expect(parseBundle(json)).toEqual(stackBundle("web"));
+            expect(parseBundle(Buffer.from(serializeBundle(environmentBundle)))).toEqual(environmentBundle);
+        });
+
+        it("should round-trip bundles through tar archives", () => {
+            const archive = serializeBundle(stackBundle("web"), "tar");
+
+            expect(archive.length % 512).toBe(0);
+            expect(archive.toString("latin1", 257, 262)).toBe("ustar");
+            expect(parseBundle(archive)).toEqual(stackBundle("web"));
+            expect(parseBundle(new Uint8Array(serializeBundle(environmentBundle, "tar")))).toEqual(environmentBundle);
+        });
+
+        it("should keep compose files readable in tar archives", () => {
+            const archive = serializeBundle(environmentBundle, "tar");
+
+            expect(archive.toString("utf8", 0, 100).replace(/\0+$/, "")).toBe("environment.json");
+            expect(archive.toString("utf8")).toContain("stacks/api/docker-compose.yml");
+            expect(archive.toString("utf8")).toContain("services:\n  api:\n    image: nginx:1.27\n");
+        });
+
+        it("should archive stacks with long names", () => {
+            const bundle = { ...environmentBundle, stacks: [stackBundle("a".repeat(120))] };
+            const archive = serializeBundle(bundle, "tar");
+
+            expect(archive.toString("utf8", 1024, 1124).replace(/\0+$/, "")).toBe("stack.json");
+            expect(archive.toString("utf8", 1024 + 345, 1024 + 500).replace(/\0+$/, "")).toBe(`stacks/${"a".repeat(120)}`);
+            expect(parseBundle(archive)).toEqual(bundle);
+            expect(() => serializeBundle({ ...environmentBundle, stacks: [stackBundle("a".repeat(160))] }, "tar")).toThrow(ValidationError);
+        });
+
+        it("should reject data that is not a bundle", () => {
+            expect(() => parseBundle("not json")).toThrow(ValidationError);
+            expect(() => parseBundle(JSON.stringify({ format: "other" }))).toThrow(ValidationError);
+            expect(() => parseBundle(JSON.stringify({ ...stackBundle("web"), version: 2 }))).toThrow("version 2 is not supported");
+            expect(() => parseBundle(JSON.stringify({ ...environmentBundle, stacks: [{ ...stackBundle("web"), compose: "" }] }))).toThrow(ValidationError);
+        });
+    });
+
+    describe("validateStackBundle()", () => {
+        it("should check the type and variables", () => {
+            expect(validateStackBundle(stackBundle("web"))).toBeUndefined();
+            expect(validateStackBundle({ ...stackBundle("web"), type: "kubernetes" as any })).toBeInstanceOf(ValidationError);
+            expect(validateStackBundle({ ...stackBundle("web"), env: { PORT: 80 as any } })).toBeInstanceOf(ValidationError);
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createClient } from "../src/client.ts";
+import { PortainerAuth } from "../src/auth.ts";
+import { PortainerApi } from "../src/api.ts";
+import { PortainerControlApi } from "../src/controls.ts";
+import { PortainerFactory } from "../src/factory.ts";
+import { ValidationError } from "../src/errors.ts";
+
+describe("createClient Tests", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("should create auth, api, controls and factory for the given instance", () => {
+        const client = createClient({ url: "https://staging.example.com/", apiKey: "staging-key", environmentId: 3 });
+
+        expect(client.auth).toBeInstanceOf(PortainerAuth);
+        expect(client.api).toBeInstanceOf(PortainerApi);
+        expect(client.controls).toBeInstanceOf(PortainerControlApi);
+        expect(client.factory).toBeInstanceOf(PortainerFactory);
+        expect(client.auth.PortainerUrl).toBe("https://staging.example.com");
+        expect(client.auth.axiosInstance.defaults.headers['X-API-Key']).toBe("staging-key");
+    });
+
+    it("should bind every member to the same auth instance", () => {
+        const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key" });
+
+        expect(client.api.auth).toBe(client.auth);
+        expect(client.controls.auth).toBe(client.auth);
+        expect((client.factory as any).portainerClient).toBe(client.api);
+    });
+
+    it("should apply the environment ID to the api and controls", () => {
+        const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key", environmentId: 7 });
+
+        expect(client.api.environmentId).toBe(7);
+        expect(client.controls.environmentId).toBe(7);
+    });
+
+    it("should apply the default environment name to the api and controls", () => {
+        const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key", environmentName: "production" });
+
+        expect(client.api.environmentId).toBe(null);
+        expect(client.api.environmentName).toBe("production");
+        expect(client.controls.environmentName).toBe("production");
+    });
+
+    it("should default the environment ID to null", () => {
+        const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key" });
+
+        expect(client.api.environmentId).toBe(null);
+    });
+
+    it("should return independent instances for different servers", () => {
+        const staging = createClient({ url: "https://staging.example.com", apiKey: "staging-key", environmentId: 1 });
+        const production = createClient({ url: "https://production.example.com", username: "admin", password: "secret", environmentId: 2 });
+
+        expect(staging.auth).not.toBe(production.auth);
+        expect(staging.api).not.toBe(production.api);
+        expect(staging.auth.axiosInstance).not.toBe(production.auth.axiosInstance);
+        expect(staging.auth.axiosInstance.defaults.baseURL).toBe("https://staging.example.com");
+        expect(production.auth.axiosInstance.defaults.baseURL).toBe("https://production.example.com");
+        expect(staging.api.environmentId).toBe(1);
+        expect(production.api.environmentId).toBe(2);
+    });
+
+    it("should not touch the default singletons", () => {
+        (PortainerApi as any).instance = undefined;
+
+        createClient({ url: "https://staging.example.com", apiKey: "staging-key" });
+
+        expect(PortainerApi.instance).toBeUndefined();
+    });
+
+    it("should throw when no credentials are provided", () => {
+        expect(() => createClient({ url: "https://staging.example.com" } as any)).toThrow(
+            "Either an API key or a username and password must be provided."
+        );
+    });
+
+    it("should throw when no URL is provided", () => {
+        expect(() => createClient({ apiKey: "staging-key" } as any)).toThrow("A Portainer URL must be provided.");
+    });
+
+    describe("forEnvironment()", () => {
+        it("should return a view bound to the environment that shares the auth", () => {
+            const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key", environmentId: 1 });
+
+            const view = client.api.forEnvironment(3);
+
+            expect(view).toBeInstanceOf(PortainerApi);
+            expect(view).not.toBe(client.api);
+            expect(view.auth).toBe(client.auth);
+            expect(view.environmentId).toBe(3);
+            expect(view.scoped).toBe(true);
+            expect(client.api.environmentId).toBe(1);
+            expect(client.api.scoped).toBe(false);
+        });
+
+        it("should bind views by environment name", () => {
+            const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key" });
+
+            const view = client.controls.forEnvironment("edge-site");
+
+            expect(view).toBeInstanceOf(PortainerControlApi);
+            expect(view.environmentId).toBe(null);
+            expect(view.environmentName).toBe("edge-site");
+        });
+
+        it("should keep views independent of each other", () => {
+            const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key" });
+            const first = client.api.forEnvironment(1);
+            const second = client.api.forEnvironment(2);
+
+            first.environmentId = 5;
+
+            expect(second.environmentId).toBe(2);
+        });
+
+        it("should bind the factory's client to the environment", () => {
+            const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key" });
+
+            const factory = client.factory.forEnvironment(4);
+
+            expect(factory).toBeInstanceOf(PortainerFactory);
+            expect((factory as any).portainerClient.environmentId).toBe(4);
+            expect((factory as any).portainerClient.auth).toBe(client.auth);
+        });
+
+        it("should reject invalid environments", () => {
+            const client = createClient({ url: "https://staging.example.com", apiKey: "staging-key" });
+
+            expect(() => client.api.forEnvironment(0)).toThrow(ValidationError);
+            expect(() => client.api.forEnvironment(" ")).toThrow(ValidationError);
+        });
+    });
+});
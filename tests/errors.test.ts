@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { AxiosError, AxiosHeaders, CanceledError } from "axios";
+import {
+    PortainerError,
+    NotFoundError,
+    AuthError,
+    ConflictError,
+    ValidationError,
+    EnvironmentUnavailableError,
+    TimeoutError,
+    AbortError,
+    isCancellation,
+    toPortainerError,
+    handleFailure
+} from "../src/errors.ts";
+
+const axiosError = (status: number | null, data?: unknown, code?: string) => {
+    const config = { url: "/api/stacks/5", method: "get", headers: new AxiosHeaders() };
+    const response = status === null ? undefined : { status, statusText: "", data, headers: {}, config };
+    return new AxiosError(`Request failed with status code ${status}`, code, config, {}, response as any);
+};
+
+describe("Errors Tests", () => {
+    describe("PortainerError", () => {
+        it("should carry the status, endpoint, method and body", () => {
+            const error = new PortainerError("boom", { status: 500, endpoint: "/api/stacks", method: "GET", body: { message: "boom" } });
+
+            expect(error).toBeInstanceOf(Error);
+            expect(error.status).toBe(500);
+            expect(error.endpoint).toBe("/api/stacks");
+            expect(error.method).toBe("GET");
+            expect(error.body).toEqual({ message: "boom" });
+        });
+
+        it("should use the subclass name", () => {
+            const error = new NotFoundError("missing");
+
+            expect(error.name).toBe("NotFoundError");
+            expect(error).toBeInstanceOf(PortainerError);
+        });
+
+        it("should default details to null", () => {
+            const error = new ValidationError("bad");
+
+            expect(error.status).toBe(null);
+            expect(error.endpoint).toBe(null);
+            expect(error.method).toBe(null);
+        });
+    });
+
+    describe("toPortainerError()", () => {
+        it.each([
+            [400, ValidationError],
+            [401, AuthError],
+            [403, AuthError],
+            [404, NotFoundError],
+            [409, ConflictError],
+            [422, ValidationError],
+            [502, EnvironmentUnavailableError],
+            [503, EnvironmentUnavailableError],
+            [504, TimeoutError],
+        ])("should map HTTP %i to %o", (status, ErrorClass) => {
+            expect(toPortainerError(axiosError(status))).toBeInstanceOf(ErrorClass);
+        });
+
+        it("should fall back to PortainerError for other statuses", () => {
+            const error = toPortainerError(axiosError(500));
+
+            expect(error.constructor).toBe(PortainerError);
+        });
+
+        it("should map requests without a response to EnvironmentUnavailableError", () => {
+            expect(toPortainerError(axiosError(null, undefined, "ECONNREFUSED"))).toBeInstanceOf(EnvironmentUnavailableError);
+        });
+
+        it("should map request timeouts to TimeoutError", () => {
+            expect(toPortainerError(axiosError(null, undefined, "ECONNABORTED"))).toBeInstanceOf(TimeoutError);
+        });
+
+        it("should use the Portainer error body for the message", () => {
+            const error = toPortainerError(
+                axiosError(404, { message: "Unable to find a stack with the specified identifier", details: "object not found" }),
+                "Failed to delete stack 5"
+            );
+
+            expect(error.message).toBe("Failed to delete stack 5: Unable to find a stack with the specified identifier: object not found");
+            expect(error.status).toBe(404);
+            expect(error.endpoint).toBe("/api/stacks/5");
+            expect(error.method).toBe("GET");
+            expect(error.body).toEqual({ message: "Unable to find a stack with the specified identifier", details: "object not found" });
+        });
+
+        it("should keep the original error as the cause", () => {
+            const original = axiosError(409);
+
+            expect(toPortainerError(original).cause).toBe(original);
+        });
+
+        it("should return PortainerErrors unchanged", () => {
+            const error = new ConflictError("exists");
+
+            expect(toPortainerError(error, "ignored")).toBe(error);
+        });
+
+        it("should wrap other errors in a PortainerError", () => {
+            const error = toPortainerError(new Error("plain"), "Context");
+
+            expect(error).toBeInstanceOf(PortainerError);
+            expect(error.message).toBe("Context: plain");
+        });
+    });
+
+    describe("cancellation", () => {
+        const canceled = (signal: AbortSignal) => new CanceledError(undefined, { signal, headers: new AxiosHeaders() } as any);
+
+        it("should map an aborted request to AbortError", () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            const error = toPortainerError(canceled(controller.signal), "Failed to fetch stacks");
+
+            expect(error).toBeInstanceOf(AbortError);
+            expect(error.message).toBe("Failed to fetch stacks: The operation was aborted");
+        });
+
+        it("should map a request aborted by its deadline to TimeoutError", async () => {
+            const signal = AbortSignal.timeout(1);
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            const error = toPortainerError(canceled(signal));
+
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(isCancellation(error)).toBe(true);
+        });
+
+        it("should map abort signal reasons", () => {
+            expect(toPortainerError(new DOMException("aborted", "AbortError"))).toBeInstanceOf(AbortError);
+            expect(toPortainerError(new DOMException("timed out", "TimeoutError"))).toBeInstanceOf(TimeoutError);
+        });
+
+        it("should not treat request timeouts or other failures as cancellations", () => {
+            expect(isCancellation(toPortainerError(axiosError(null, undefined, "ECONNABORTED")))).toBe(false);
+            expect(isCancellation(new TimeoutError("Stack could not be verified"))).toBe(false);
+            expect(isCancellation(axiosError(404))).toBe(false);
+        });
+    });
+
+    describe("handleFailure()", () => {
+        it("should return the fallback outside strict mode", () => {
+            expect(handleFailure(false, new NotFoundError("missing"), undefined)).toBeUndefined();
+            expect(handleFailure(undefined, new NotFoundError("missing"), false)).toBe(false);
+        });
+
+        it("should throw the error in strict mode", () => {
+            const error = new NotFoundError("missing");
+
+            expect(() => handleFailure(true, error, undefined)).toThrow(error);
+        });
+
+        it("should always throw cancellations", () => {
+            const error = new AbortError("aborted");
+
+            expect(() => handleFailure(false, error, undefined)).toThrow(error);
+        });
+    });
+});
@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { PortainerFactory } from "../src/factory.ts";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
 import * as utils from "../src/utils.ts";
+import { ConflictError, ValidationError } from "../src/errors.ts";
+import { serializeBundle } from "../src/bundle.ts";
 
 // Mock the PortainerApi
 vi.mock("../src/api", () => {
@@ -17,7 +22,17 @@ vi.mock("../src/api", () => {
                     axiosInstance: mockAxiosInstance
                 },
                 ensureEnvId: vi.fn(),
-                cleanupExistingContainer: vi.fn()
+                getSwarmId: vi.fn(),
+                cleanupExistingContainer: vi.fn(),
+                getEnvironmentByName: vi.fn(),
+                forEnvironment: vi.fn(),
+                getStackFileContent: vi.fn(),
+                updateStack: vi.fn(),
+                deleteStack: vi.fn(),
+                resolveStack: vi.fn(),
+                getStacks: vi.fn(),
+                getStackServices: vi.fn(),
+                getEnvironmentDetails: vi.fn()
             }))
         }
     };
@@ -274,7 +289,8 @@ describe("PortainerFactory Tests", () => {
                         Name: "test-stack",
                         StackFileContent: "version: '3'",
                         Env: []
-                    })
+                    }),
+                    {}
                 );
             });
 
@@ -294,7 +310,7 @@ describe("PortainerFactory Tests", () => {
                 expect(mockPortainerClient.auth.axiosInstance.post).toHaveBeenCalledTimes(2);
             });
 
-            it("should return empty object after max retries", async () => {
+            it("should return undefined after max retries", async () => {
                 mockPortainerClient.ensureEnvId.mockResolvedValue(1);
                 vi.mocked(utils.getStackByName).mockResolvedValue(null);
                 vi.mocked(utils.verifyStackCreation).mockResolvedValue(false);
@@ -305,7 +321,7 @@ describe("PortainerFactory Tests", () => {
                 const stackData = { Name: "test-stack", ComposeFile: "version: '3'" };
                 const result = await factory.createStack(stackData, 2, 100);
 
-                expect(result).toEqual({});
+                expect(result).toBeUndefined();
                 expect(mockPortainerClient.auth.axiosInstance.post).toHaveBeenCalledTimes(2);
             });
 
@@ -328,10 +344,61 @@ describe("PortainerFactory Tests", () => {
                     expect.any(String),
                     expect.objectContaining({
                         Env: [{ name: "KEY", value: "value" }]
-                    })
+                    }),
+                    {}
+                );
+            });
+
+            it("should create a Swarm stack with the detected Swarm ID", async () => {
+                mockPortainerClient.ensureEnvId.mockResolvedValue(1);
+                mockPortainerClient.getSwarmId.mockResolvedValue("swarm-1");
+                vi.mocked(utils.getStackByName).mockResolvedValue(null);
+                vi.mocked(utils.verifyStackCreation).mockResolvedValue(true);
+                mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 1, Name: "test-stack", Type: 1 } });
+
+                const stackData = { Name: "test-stack", ComposeFile: "version: '3'", Type: "swarm" };
+                await factory.createStack(stackData);
+
+                expect(mockPortainerClient.getSwarmId).toHaveBeenCalledWith(1, {});
+                expect(mockPortainerClient.auth.axiosInstance.post).toHaveBeenCalledWith(
+                    "/api/stacks/create/swarm/string?endpointId=1",
+                    { Name: "test-stack", SwarmID: "swarm-1", StackFileContent: "version: '3'", Env: [] },
+                    {}
                 );
             });
 
+            it("should use a given Swarm ID without detecting it", async () => {
+                mockPortainerClient.ensureEnvId.mockResolvedValue(1);
+                vi.mocked(utils.getStackByName).mockResolvedValue(null);
+                vi.mocked(utils.verifyStackCreation).mockResolvedValue(true);
+                mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 1 } });
+
+                await factory.createStack({ Name: "test-stack", ComposeFile: "version: '3'", Type: "swarm", SwarmID: "swarm-2" });
+
+                expect(mockPortainerClient.getSwarmId).not.toHaveBeenCalled();
+                expect(mockPortainerClient.auth.axiosInstance.post.mock.calls[0][1].SwarmID).toBe("swarm-2");
+            });
+
+            it("should not create a Swarm stack when the environment is not a Swarm manager", async () => {
+                mockPortainerClient.ensureEnvId.mockResolvedValue(1);
+                mockPortainerClient.getSwarmId.mockResolvedValue(undefined);
+                vi.mocked(utils.getStackByName).mockResolvedValue(null);
+
+                const result = await factory.createStack({ Name: "test-stack", ComposeFile: "version: '3'", Type: "swarm" });
+
+                expect(result).toBeUndefined();
+                expect(mockPortainerClient.auth.axiosInstance.post).not.toHaveBeenCalled();
+            });
+
+            it("should reject an unknown stack type", async () => {
+                mockPortainerClient.ensureEnvId.mockResolvedValue(1);
+
+                const result = await factory.createStack({ Name: "test-stack", ComposeFile: "version: '3'", Type: "kubernetes" });
+
+                expect(result).toBeUndefined();
+                expect(mockPortainerClient.auth.axiosInstance.post).not.toHaveBeenCalled();
+            });
+
             it("should handle API errors gracefully", async () => {
                 mockPortainerClient.ensureEnvId.mockResolvedValue(1);
                 vi.mocked(utils.getStackByName).mockResolvedValue(null);
@@ -345,6 +412,118 @@ describe("PortainerFactory Tests", () => {
         });
     });
 
+    describe("createStackFromGit()", () => {
+        const gitStack = { name: "web", repositoryUrl: "https://git.example.com/ops/web.git" };
+
+        beforeEach(() => {
+            mockPortainerClient.ensureEnvId.mockResolvedValue(1);
+            vi.mocked(utils.getStackByName).mockResolvedValue(null);
+            vi.mocked(utils.verifyStackCreation).mockResolvedValue(true);
+        });
+
+        it("should create a stack from a public repository with defaults", async () => {
+            const created = { Id: 4, Name: "web", EndpointId: 1, GitConfig: { ConfigHash: "abc123" } };
+            mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: created });
+
+            const result = await factory.createStackFromGit(gitStack);
+
+            expect(result).toEqual(created);
+            expect(mockPortainerClient.auth.axiosInstance.post).toHaveBeenCalledWith(
+                "/api/stacks/create/standalone/repository?endpointId=1",
+                {
+                    Name: "web",
+                    RepositoryURL: "https://git.example.com/ops/web.git",
+                    RepositoryReferenceName: "refs/heads/main",
+                    ComposeFile: "docker-compose.yml",
+                    AdditionalFiles: [],
+                    RepositoryAuthentication: false,
+                    AutoUpdate: null,
+                    Env: [],
+                    TLSSkipVerify: false
+                },
+                {}
+            );
+            expect(utils.verifyStackCreation).toHaveBeenCalledWith("web", 5000, mockPortainerClient, {});
+        });
+
+        it("should send the reference, files, credentials and auto-update settings", async () => {
+            mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 4 } });
+
+            await factory.createStackFromGit({
+                ...gitStack,
+                reference: "refs/tags/v2.0.0",
+                composePath: "deploy/compose.yml",
+                additionalFiles: ["deploy/compose.prod.yml"],
+                credentials: { username: "ci", password: "token" },
+                autoUpdate: { interval: "5m", webhook: true, forcePullImage: true },
+                env: [{ name: "MODE", value: "prod" }]
+            });
+
+            const payload = mockPortainerClient.auth.axiosInstance.post.mock.calls[0][1];
+            expect(payload).toMatchObject({
+                RepositoryReferenceName: "refs/tags/v2.0.0",
+                ComposeFile: "deploy/compose.yml",
+                AdditionalFiles: ["deploy/compose.prod.yml"],
+                RepositoryAuthentication: true,
+                RepositoryUsername: "ci",
+                RepositoryPassword: "token",
+                Env: [{ name: "MODE", value: "prod" }]
+            });
+            expect(payload.AutoUpdate).toEqual({ Interval: "5m", Webhook: expect.stringMatching(/^[0-9a-f-]{36}$/), ForceUpdate: false, ForcePullImage: true });
+        });
+
+        it("should create a Swarm stack from a repository", async () => {
+            mockPortainerClient.getSwarmId.mockResolvedValue("swarm-1");
+            mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 4 } });
+
+            await factory.createStackFromGit({ ...gitStack, type: "swarm" });
+
+            const [url, payload] = mockPortainerClient.auth.axiosInstance.post.mock.calls[0];
+            expect(url).toBe("/api/stacks/create/swarm/repository?endpointId=1");
+            expect(payload.SwarmID).toBe("swarm-1");
+        });
+
+        it("should use saved Git credentials by ID", async () => {
+            mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 4 } });
+
+            await factory.createStackFromGit({ ...gitStack, credentials: { gitCredentialId: 3 } });
+
+            const payload = mockPortainerClient.auth.axiosInstance.post.mock.calls[0][1];
+            expect(payload.RepositoryAuthentication).toBe(true);
+            expect(payload.RepositoryGitCredentialID).toBe(3);
+            expect(payload.RepositoryPassword).toBeUndefined();
+        });
+
+        it("should return the existing stack with the same name", async () => {
+            const existingStack = { Id: 5, Name: "web", EndpointId: 1 };
+            vi.mocked(utils.getStackByName).mockResolvedValue(existingStack);
+
+            expect(await factory.createStackFromGit(gitStack)).toEqual(existingStack);
+            expect(mockPortainerClient.auth.axiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it("should reject invalid settings", async () => {
+            expect(await factory.createStackFromGit({ name: "web" } as any)).toBeUndefined();
+            expect(await factory.createStackFromGit({ ...gitStack, credentials: { username: "ci" } as any })).toBeUndefined();
+            expect(await factory.createStackFromGit({ ...gitStack, autoUpdate: {} })).toBeUndefined();
+            expect(await factory.createStackFromGit({ ...gitStack, autoUpdate: { interval: "often" } })).toBeUndefined();
+            expect(mockPortainerClient.auth.axiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it("should fail when the stack does not show up", async () => {
+            vi.mocked(utils.verifyStackCreation).mockResolvedValue(false);
+            mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 4 } });
+
+            expect(await factory.createStackFromGit(gitStack, 100)).toBeUndefined();
+        });
+
+        it("should handle API errors gracefully", async () => {
+            mockPortainerClient.auth.axiosInstance.post.mockRejectedValue(new Error("Authentication failed"));
+
+            expect(await factory.createStackFromGit(gitStack)).toBeUndefined();
+        });
+    });
+
     describe("createContainer()", () => {
         describe("Parameter Validation", () => {
             it("should reject invalid stackData types", async () => {
@@ -496,7 +675,7 @@ describe("PortainerFactory Tests", () => {
                 const stackData = { Name: "Test Container!", ContainerPayload: { Image: "nginx" } };
                 await factory.createContainer(stackData);
 
-                expect(mockPortainerClient.cleanupExistingContainer).toHaveBeenCalledWith("test-container-");
+                expect(mockPortainerClient.cleanupExistingContainer).toHaveBeenCalledWith("test-container-", 1, {});
             });
 
             it("should cleanup existing container before creation", async () => {
@@ -510,7 +689,7 @@ describe("PortainerFactory Tests", () => {
                 const stackData = { Name: "TestContainer", ContainerPayload: { Image: "nginx" } };
                 await factory.createContainer(stackData);
 
-                expect(mockPortainerClient.cleanupExistingContainer).toHaveBeenCalledWith("testcontainer");
+                expect(mockPortainerClient.cleanupExistingContainer).toHaveBeenCalledWith("testcontainer", 1, {});
             });
 
             it("should create and start container successfully", async () => {
@@ -555,7 +734,7 @@ describe("PortainerFactory Tests", () => {
                 });
             });
 
-            it("should return empty object after max retries", async () => {
+            it("should return undefined after max retries", async () => {
                 mockPortainerClient.ensureEnvId.mockResolvedValue(1);
                 mockPortainerClient.cleanupExistingContainer.mockResolvedValue(false);
                 vi.mocked(utils.verifyContainerCreation).mockResolvedValue(false);
@@ -566,7 +745,7 @@ describe("PortainerFactory Tests", () => {
                 const stackData = { Name: "TestContainer", ContainerPayload: { Image: "nginx" } };
                 const result = await factory.createContainer(stackData, 2, 100);
 
-                expect(result).toEqual({});
+                expect(result).toBeUndefined();
             });
 
             it("should handle API errors gracefully", async () => {
@@ -597,9 +776,287 @@ describe("PortainerFactory Tests", () => {
 
                 expect(mockPortainerClient.auth.axiosInstance.post).toHaveBeenCalledWith(
                     expect.stringContaining("/docker/containers/create?name=testcontainer"),
-                    payload
+                    payload,
+                    {}
                 );
             });
+
+            it("should create and start the container in the resolved environment", async () => {
+                mockPortainerClient.ensureEnvId.mockResolvedValue(4);
+                mockPortainerClient.cleanupExistingContainer.mockResolvedValue(false);
+                vi.mocked(utils.verifyContainerCreation).mockResolvedValue(true);
+                mockPortainerClient.auth.axiosInstance.post
+                    .mockResolvedValueOnce({ data: { Id: "abc123" } })
+                    .mockResolvedValueOnce({ data: {} });
+
+                await factory.createContainer({ Name: "TestContainer", ContainerPayload: { Image: "nginx" } });
+
+                expect(mockPortainerClient.cleanupExistingContainer).toHaveBeenCalledWith("testcontainer", 4, {});
+                expect(mockPortainerClient.auth.axiosInstance.post.mock.calls.map(([url]: [string]) => url)).toEqual([
+                    "/api/endpoints/4/docker/containers/create?name=testcontainer",
+                    "/api/endpoints/4/docker/containers/abc123/start"
+                ]);
+            });
+        });
+    });
+
+    describe("plan() and apply()", () => {
+        const compose = (image: string) => `services:\n  web:\n    image: ${image}\n`;
+        const deployed: Record<number, any[]> = {};
+
+        beforeEach(() => {
+            deployed[1] = [
+                { Id: 10, Name: "web", EndpointId: 1, Type: 2, Env: [{ name: "MODE", value: "prod" }] },
+                { Id: 11, Name: "old", EndpointId: 1, Type: 2, Env: null },
+                { Id: 12, Name: "synced", EndpointId: 1, Type: 2, Env: null, GitConfig: { URL: "https://git.example.com/ops/synced.git" } }
+            ];
+            deployed[2] = [];
+            mockPortainerClient.forEnvironment.mockImplementation((environmentId: number) => ({
+                ...mockPortainerClient,
+                ensureEnvId: vi.fn(async () => environmentId),
+                getStacks: vi.fn(async () => deployed[environmentId])
+            }));
+            mockPortainerClient.getEnvironmentByName.mockResolvedValue({ Id: 2, Name: "staging" });
+            mockPortainerClient.getStackFileContent.mockImplementation(async (stackId: number) => stackId === 10 ? compose("nginx:1.25") : compose("redis:7"));
+        });
+
+        it("should plan creates, updates, deletes and no-ops with diffs", async () => {
+            const plan = await factory.plan({
+                stacks: [
+                    { name: "web", environment: 1, compose: compose("nginx:1.27"), env: { MODE: "prod", DEBUG: "0" } },
+                    { name: "api", environment: "staging", compose: compose("api:2") }
+                ],
+                prune: true
+            });
+
+            expect(plan?.changes).toBe(3);
+            expect(plan?.steps.map(step => [step.action, step.name, step.environmentId, step.stackId])).toEqual([
+                ["update", "web", 1, 10],
+                ["create", "api", 2, undefined],
+                ["delete", "old", 1, 11]
+            ]);
+            expect(plan?.steps[0]!.diff).toEqual({
+                compose: ["  services:", "    web:", "-     image: nginx:1.25", "+     image: nginx:1.27"],
+                env: { added: { DEBUG: "********" }, changed: {}, removed: [] }
+            });
+            expect(plan?.steps[0]!.env).toEqual({ MODE: "prod", DEBUG: "0" });
+            expect(plan?.steps[2]!.diff.compose).toEqual(["- services:", "-   web:", "-     image: redis:7"]);
+            expect(mockPortainerClient.getEnvironmentByName).toHaveBeenCalledWith("staging", {});
+        });
+
+        it("should show variable values in the env diff when asked to", async () => {
+            const plan = await factory.plan({
+                stacks: [{ name: "web", environment: 1, compose: compose("nginx:1.25"), env: { MODE: "staging" } }]
+            }, { showValues: true });
+
+            expect(plan?.steps[0]!.diff.env).toEqual({ added: {}, changed: { MODE: { from: "prod", to: "staging" } }, removed: [] });
+        });
+
+        it("should plan a no-op when only whitespace differs", async () => {
+            const plan = await factory.plan({
+                stacks: [{ name: "web", environment: 1, compose: compose("nginx:1.25").replace(/\n/g, "  \r\n"), env: { MODE: "prod" } }]
+            });
+
+            expect(plan).toMatchObject({ changes: 0, steps: [{ action: "noop", stackId: 10 }] });
+        });
+
+        it("should read a manifest file", async () => {
+            const directory = await mkdtemp(join(tmpdir(), "stack-manifest-"));
+            try {
+                await writeFile(join(directory, "web.yml"), compose("nginx:1.25"));
+                await writeFile(join(directory, "stacks.json"), JSON.stringify({ stacks: [{ name: "web", environment: 1, composeFile: "web.yml", env: { MODE: "prod" } }] }));
+
+                const plan = await factory.plan(join(directory, "stacks.json"));
+
+                expect(plan?.steps.map(step => step.action)).toEqual(["noop"]);
+            } finally {
+                await rm(directory, { recursive: true, force: true });
+            }
+        });
+
+        it("should refuse invalid manifests and Git stacks", async () => {
+            expect(await factory.plan({ stacks: [{ name: "web", environment: 0, compose: compose("nginx") }] })).toBeUndefined();
+            expect(await factory.plan({ stacks: [{ name: "web", environment: 1, compose: "" }] })).toBeUndefined();
+            expect(await factory.plan({ stacks: [{ name: "web", environment: 1, compose: compose("nginx"), env: { "1X": "a" } }] })).toBeUndefined();
+            expect(mockPortainerClient.forEnvironment).not.toHaveBeenCalled();
+
+            expect(await factory.plan({ stacks: [{ name: "synced", environment: 1, compose: compose("nginx") }] })).toBeUndefined();
+            expect(await factory.plan({
+                stacks: [{ name: "web", environment: 1, compose: compose("nginx") }, { name: "web", environment: 1, compose: compose("nginx") }]
+            })).toBeUndefined();
+            expect(await factory.plan({ stacks: [{ name: "web", environment: 1, compose: compose("nginx"), type: "swarm" }] })).toBeUndefined();
+            expect(await factory.plan("/nonexistent/stacks.json")).toBeUndefined();
+        });
+
+        it("should apply a plan in order and report progress", async () => {
+            vi.mocked(utils.getStackByName).mockResolvedValue(null);
+            vi.mocked(utils.verifyStackCreation).mockResolvedValue(true);
+            mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 13, Name: "api" } });
+            mockPortainerClient.updateStack.mockResolvedValue({ Id: 10 });
+            mockPortainerClient.deleteStack.mockResolvedValue("");
+
+            const plan = await factory.plan({
+                stacks: [
+                    { name: "web", environment: 1, compose: compose("nginx:1.27"), env: { MODE: "prod" } },
+                    { name: "api", environment: 2, compose: compose("api:2"), env: { PORT: "80" } }
+                ],
+                prune: true
+            });
+            const events: string[] = [];
+            const result = await factory.apply(plan!, { onProgress: event => events.push(`${event.type} ${event.index}/${event.total} ${event.step.name}`) });
+
+            expect(result?.applied.map(step => step.name)).toEqual(["web", "api", "old"]);
+            expect(result?.failed).toEqual([]);
+            expect(events).toEqual(["start 0/3 web", "done 0/3 web", "start 1/3 api", "done 1/3 api", "start 2/3 old", "done 2/3 old"]);
+            expect(mockPortainerClient.updateStack).toHaveBeenCalledWith(10, compose("nginx:1.27"), 1, { env: { replace: { MODE: "prod" } }, pullImage: true, prune: false }, {});
+            expect(mockPortainerClient.auth.axiosInstance.post).toHaveBeenCalledWith(
+                "/api/stacks/create/standalone/string?endpointId=2&type=2",
+                { Name: "api", StackFileContent: compose("api:2"), Env: [{ name: "PORT", value: "80" }] },
+                {}
+            );
+            expect(mockPortainerClient.deleteStack).toHaveBeenCalledWith(11, 1, {});
+        });
+
+        it("should stop at the first failed step unless told to continue", async () => {
+            const plan = await factory.plan({
+                stacks: [{ name: "web", environment: 1, compose: compose("nginx:1.27") }],
+                prune: true
+            });
+
+            mockPortainerClient.updateStack.mockResolvedValue(undefined);
+            const stopped = await factory.apply(plan!);
+
+            expect(stopped?.failed.map(({ step, error }) => [step.name, error.message])).toEqual([["web", 'Failed to update stack "web" in environment 1']]);
+            expect(stopped?.skipped.map(step => step.name)).toEqual(["old"]);
+            expect(mockPortainerClient.deleteStack).not.toHaveBeenCalled();
+
+            mockPortainerClient.updateStack.mockRejectedValue(new ValidationError("Invalid compose file"));
+            mockPortainerClient.deleteStack.mockResolvedValue({});
+            const events: string[] = [];
+            const continued = await factory.apply(plan!, { continueOnError: true, onProgress: event => events.push(event.type) });
+
+            expect(continued?.failed[0]!.error).toBeInstanceOf(ValidationError);
+            expect(continued?.applied.map(step => step.name)).toEqual(["old"]);
+            expect(events).toEqual(["start", "failed", "start", "done"]);
+        });
+
+        it("should reject invalid plans", async () => {
+            expect(await factory.apply(null as any)).toBeUndefined();
+        });
+    });
+
+    describe("exportStack() and importStack()", () => {
+        const stack = (Id: number, Name: string, EndpointId: number) => ({
+            Id, Name, EndpointId, Type: 2, Status: 1, Env: [{ name: "MODE", value: "prod" }],
+            CreationDate: 1, CreatedBy: "admin", UpdateDate: 2, UpdatedBy: "ci"
+        });
+
+        beforeEach(() => {
+            mockPortainerClient.resolveStack.mockResolvedValue(stack(4, "web", 1));
+            mockPortainerClient.getStackFileContent.mockResolvedValue("services:\n  web:\n    image: nginx:1.27\n");
+            mockPortainerClient.forEnvironment.mockImplementation((environmentId: number | string) => ({
+                ...mockPortainerClient,
+                ensureEnvId: vi.fn(async () => environmentId === "production" ? 1 : environmentId)
+            }));
+            vi.mocked(utils.getStackByName).mockResolvedValue(null);
+            vi.mocked(utils.verifyStackCreation).mockResolvedValue(true);
+        });
+
+        it("should export the compose file, variables and metadata", async () => {
+            const bundle = await factory.exportStack("web");
+
+            expect(bundle).toMatchObject({
+                format: "writetainer-stack",
+                version: 1,
+                name: "web",
+                type: "standalone",
+                compose: "services:\n  web:\n    image: nginx:1.27\n",
+                env: { MODE: "prod" },
+                metadata: { stackId: 4, environmentId: 1, status: "active", createdBy: "admin", creationDate: 1, updatedBy: "ci", updateDate: 2 }
+            });
+            expect(bundle).not.toHaveProperty("images");
+            expect(mockPortainerClient.resolveStack).toHaveBeenCalledWith("web", {});
+        });
+
+        it("should record the images in use when asked", async () => {
+            mockPortainerClient.getStackServices.mockResolvedValue([{
+                name: "web",
+                states: { running: 2 },
+                containers: [
+                    { Image: "nginx:1.27", ImageID: "sha256:abc" },
+                    { Image: "nginx:1.27", ImageID: "sha256:abc" }
+                ]
+            }]);
+
+            const bundle = await factory.exportStack(4, { images: true });
+
+            expect(bundle?.images).toEqual([{ service: "web", image: "nginx:1.27", imageId: "sha256:abc" }]);
+        });
+
+        it("should export every stack of an environment", async () => {
+            mockPortainerClient.getEnvironmentDetails.mockResolvedValue({ Id: 1, Name: "production" });
+            mockPortainerClient.getStacks.mockResolvedValue([stack(4, "web", 1), stack(5, "other", 2), stack(6, "api", 1)]);
+
+            const bundle = await factory.exportEnvironment("production");
+
+            expect(bundle).toMatchObject({ format: "writetainer-environment", environment: { id: 1, name: "production" } });
+            expect(bundle?.stacks.map(stack => stack.name)).toEqual(["web", "api"]);
+            expect(mockPortainerClient.getStackFileContent.mock.calls.map(([stackId]: [number]) => stackId)).toEqual([4, 6]);
+        });
+
+        it("should import a bundle into another environment under another name", async () => {
+            mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 9, Name: "web-copy" } });
+            const bundle = await factory.exportStack("web");
+
+            const created = await factory.importStack(serializeBundle(bundle!, "tar"), { environmentId: 3, nameOverride: "web-copy" });
+
+            expect(created).toEqual({ Id: 9, Name: "web-copy" });
+            expect(mockPortainerClient.forEnvironment).toHaveBeenCalledWith(3);
+            expect(mockPortainerClient.auth.axiosInstance.post).toHaveBeenCalledWith(
+                "/api/stacks/create/standalone/string?endpointId=3&type=2",
+                { Name: "web-copy", StackFileContent: bundle!.compose, Env: [{ name: "MODE", value: "prod" }] },
+                {}
+            );
+        });
+
+        it("should not import over an existing stack", async () => {
+            const bundle = await factory.exportStack("web");
+            vi.mocked(utils.getStackByName).mockResolvedValue(stack(4, "web", 1));
+
+            expect(await factory.importStack(bundle!)).toBeUndefined();
+            expect(mockPortainerClient.auth.axiosInstance.post).not.toHaveBeenCalled();
+
+            mockPortainerClient.auth.strict = true;
+            await expect(factory.importStack(bundle!)).rejects.toBeInstanceOf(ConflictError);
+        });
+
+        it("should reject invalid bundles and targets", async () => {
+            const bundle = await factory.exportStack("web");
+
+            expect(await factory.importStack("{}")).toBeUndefined();
+            expect(await factory.importStack({ ...bundle!, compose: "" })).toBeUndefined();
+            expect(await factory.importStack(bundle!, { environmentId: 0 })).toBeUndefined();
+            expect(await factory.importStack(bundle!, { nameOverride: " " })).toBeUndefined();
+            expect(utils.getStackByName).not.toHaveBeenCalled();
+        });
+
+        it("should import every stack of an environment and report failures", async () => {
+            mockPortainerClient.getEnvironmentDetails.mockResolvedValue({ Id: 1, Name: "production" });
+            mockPortainerClient.getStacks.mockResolvedValue([stack(4, "web", 1), stack(6, "api", 1)]);
+            mockPortainerClient.ensureEnvId.mockResolvedValue(1);
+            const bundle = await factory.exportEnvironment();
+
+            vi.mocked(utils.getStackByName).mockImplementation(async (name: string) => name === "api" ? stack(7, "api", 2) : null);
+            mockPortainerClient.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 8, Name: "web" } });
+
+            const result = await factory.importEnvironment(serializeBundle(bundle!), { environmentId: 2 });
+
+            expect(result?.imported).toEqual(["web"]);
+            expect(result?.failed.map(({ name, error }) => [name, error.message])).toEqual([["api", 'Failed to import stack "api"']]);
+
+            mockPortainerClient.auth.strict = true;
+            const strict = await factory.importEnvironment(bundle!, { environmentId: 2 });
+            expect(strict?.failed[0]!.error).toBeInstanceOf(ConflictError);
         });
     });
 });
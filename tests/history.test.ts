@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonDirStackHistoryStore, MemoryStackHistoryStore, getHistoryStoreFromEnv } from "../src/history.ts";
+
+const version = (stackId: number, n: number) => ({ stackId, version: n, composeContent: `services: { v${n}: {} }`, env: { N: String(n) }, savedAt: n });
+
+describe("History Tests", () => {
+    const directories: string[] = [];
+
+    afterEach(async () => {
+        delete process.env.PORTAINER_STACK_HISTORY_DIR;
+        await Promise.all(directories.splice(0).map(directory => rm(directory, { recursive: true, force: true })));
+    });
+
+    describe("MemoryStackHistoryStore", () => {
+        it("should list the versions of a stack oldest first", async () => {
+            const store = new MemoryStackHistoryStore();
+
+            await store.add(version(1, 1));
+            await store.add(version(2, 1));
+            await store.add(version(1, 2));
+
+            expect(await store.list(1)).toEqual([version(1, 1), version(1, 2)]);
+            expect(await store.list(3)).toEqual([]);
+        });
+
+        it("should keep only the latest versions", async () => {
+            const store = new MemoryStackHistoryStore(2);
+
+            for (const n of [1, 2, 3]) {
+                await store.add(version(1, n));
+            }
+
+            expect((await store.list(1)).map(saved => saved.version)).toEqual([2, 3]);
+        });
+    });
+
+    describe("JsonDirStackHistoryStore", () => {
+        const createStore = async (limit?: number) => {
+            const directory = await mkdtemp(join(tmpdir(), "stack-history-"));
+            directories.push(directory);
+            return { directory, store: new JsonDirStackHistoryStore(join(directory, "history"), limit) };
+        };
+
+        it("should keep versions in a JSON file per stack", async () => {
+            const { directory, store } = await createStore();
+
+            await store.add(version(4, 1));
+            await store.add(version(4, 2));
+
+            expect(await store.list(4)).toEqual([version(4, 1), version(4, 2)]);
+            expect(JSON.parse(await readFile(join(directory, "history", "stack-4.json"), "utf8"))).toHaveLength(2);
+            expect(await store.list(5)).toEqual([]);
+        });
+
+        it("should not lose versions added at the same time", async () => {
+            const { store } = await createStore(10);
+
+            await Promise.all([1, 2, 3].map(n => store.add(version(4, n))));
+
+            expect((await store.list(4)).map(saved => saved.version)).toEqual([1, 2, 3]);
+        });
+    });
+
+    describe("getHistoryStoreFromEnv()", () => {
+        it("should use a JSON directory when configured", () => {
+            expect(getHistoryStoreFromEnv()).toBeUndefined();
+
+            process.env.PORTAINER_STACK_HISTORY_DIR = "/var/lib/stack-history";
+
+            expect(getHistoryStoreFromEnv()).toBeInstanceOf(JsonDirStackHistoryStore);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { diffEnv, diffLines, loadStackManifest, normalizeCompose } from "../src/manifest.ts";
+import { ValidationError } from "../src/errors.ts";
+
+describe("Manifest Tests", () => {
+    describe("diffLines()", () => {
+        it("should mark removed, added and unchanged lines", () => {
+            expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual(["  a", "- b", "  c", "+ d"]);
+            expect(diffLines("a\nb", "a\nx")).toEqual(["  a", "- b", "+ x"]);
+        });
+
+        it("should handle empty texts", () => {
+            expect(diffLines("", "a\nb")).toEqual(["+ a", "+ b"]);
+            expect(diffLines("a", "")).toEqual(["- a"]);
+            expect(diffLines("", "")).toEqual([]);
+        });
+    });
+
+    describe("diffEnv()", () => {
+        it("should report added, changed and removed variables", () => {
+            expect(diffEnv({ A: "1", B: "2", C: "3" }, { A: "1", B: "20", D: "4" }, true)).toEqual({
+                added: { D: "4" },
+                changed: { B: { from: "2", to: "20" } },
+                removed: ["C"]
+            });
+        });
+
+        it("should mask values unless asked to show them", () => {
+            expect(diffEnv({ TOKEN: "old-secret" }, { TOKEN: "new-secret", KEY: "secret" })).toEqual({
+                added: { KEY: "********" },
+                changed: { TOKEN: { from: "********", to: "********" } },
+                removed: []
+            });
+        });
+
+        it("should not take Object.prototype members for variables", () => {
+            expect(diffEnv({}, { constructor: "a", toString: "b" }, true)).toEqual({
+                added: { constructor: "a", toString: "b" },
+                changed: {},
+                removed: []
+            });
+            expect(diffEnv({ constructor: "a" }, {}).removed).toEqual(["constructor"]);
+        });
+    });
+
+    describe("normalizeCompose()", () => {
+        it("should ignore line endings and trailing whitespace", () => {
+            expect(normalizeCompose("services:  \r\n  web: {}\r\n\r\n")).toBe("services:\n  web: {}");
+        });
+    });
+
+    describe("loadStackManifest()", () => {
+        it("should fail with a ValidationError when the file cannot be read", async () => {
+            await expect(loadStackManifest("/nonexistent/stacks.json")).rejects.toBeInstanceOf(ValidationError);
+        });
+    });
+});
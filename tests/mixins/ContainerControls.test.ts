@@ -185,7 +185,9 @@ describe("Container Controls Tests", () => {
 
                 expect(result).toBe(true);
                 expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith(
-                    "/api/endpoints/1/docker/containers/abc123/start"
+                    "/api/endpoints/1/docker/containers/abc123/start",
+                    null,
+                    {}
                 );
             });
         });
@@ -203,7 +205,9 @@ describe("Container Controls Tests", () => {
 
                 expect(result).toBe(true);
                 expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith(
-                    "/api/endpoints/1/docker/containers/abc123/stop"
+                    "/api/endpoints/1/docker/containers/abc123/stop",
+                    null,
+                    {}
                 );
             });
         });
@@ -222,7 +226,8 @@ describe("Container Controls Tests", () => {
 
                 expect(result).toBe(true);
                 expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith(
-                    expect.stringContaining("/api/endpoints/1/docker/containers/abc123")
+                    expect.stringContaining("/api/endpoints/1/docker/containers/abc123"),
+                    {}
                 );
             });
         });
@@ -241,7 +246,9 @@ describe("Container Controls Tests", () => {
 
                 expect(result).toBe(true);
                 expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith(
-                    "/api/endpoints/1/docker/containers/abc123/kill?signal=SIGTERM"
+                    "/api/endpoints/1/docker/containers/abc123/kill?signal=SIGTERM",
+                    null,
+                    {}
                 );
             });
         });
@@ -259,7 +266,9 @@ describe("Container Controls Tests", () => {
 
                 expect(result).toBe(true);
                 expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith(
-                    "/api/endpoints/1/docker/containers/abc123/pause"
+                    "/api/endpoints/1/docker/containers/abc123/pause",
+                    null,
+                    {}
                 );
             });
         });
@@ -277,7 +286,9 @@ describe("Container Controls Tests", () => {
 
                 expect(result).toBe(true);
                 expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith(
-                    "/api/endpoints/1/docker/containers/abc123/unpause"
+                    "/api/endpoints/1/docker/containers/abc123/unpause",
+                    null,
+                    {}
                 );
             });
         });
@@ -296,7 +307,9 @@ describe("Container Controls Tests", () => {
 
                 expect(result).toBe(true);
                 expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith(
-                    expect.stringContaining("/api/endpoints/1/docker/containers/abc123/restart")
+                    expect.stringContaining("/api/endpoints/1/docker/containers/abc123/restart"),
+                    null,
+                    {}
                 );
             });
         });
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EdgeGroupsMixin } from "../../src/mixins/EdgeGroupsMixin.ts";
+import { AuthError, NotFoundError, ValidationError } from "../../src/errors.ts";
+
+class MockBase {
+    auth = {
+        axiosInstance: {
+            get: vi.fn(),
+            post: vi.fn(),
+            delete: vi.fn()
+        },
+        isValidated: true,
+        strict: false,
+        ensureValidated: vi.fn(async () => this.auth.isValidated)
+    };
+    resolveTagIds = vi.fn(async (tags: Array<number | string>) => tags.map(tag => typeof tag === "number" ? tag : 9));
+}
+
+const EdgeGroupsClass = EdgeGroupsMixin(MockBase as any);
+
+const edgeGroups = [
+    { Id: 1, Name: "stores", Dynamic: false, TagIds: [], Endpoints: [5, 6], PartialMatch: false },
+    { Id: 2, Name: "kiosks", Dynamic: true, TagIds: [3], Endpoints: [7], PartialMatch: false }
+];
+
+describe("Edge Groups Mixin Tests", () => {
+    let instance: InstanceType<typeof EdgeGroupsClass>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        instance = new EdgeGroupsClass();
+    });
+
+    describe("getEdgeGroups() and getEdgeGroup()", () => {
+        it("should fetch all edge groups", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeGroups });
+
+            const result = await instance.getEdgeGroups();
+
+            expect(result).toEqual(edgeGroups);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/edge_groups", {});
+        });
+
+        it("should find an edge group by ID or name", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeGroups });
+
+            expect((await instance.getEdgeGroup(2))?.Name).toBe("kiosks");
+            expect((await instance.getEdgeGroup("stores"))?.Id).toBe(1);
+        });
+
+        it("should fail for an unknown edge group", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeGroups });
+
+            await expect(instance.getEdgeGroup("depots")).rejects.toBeInstanceOf(NotFoundError);
+        });
+    });
+
+    describe("createEdgeGroup()", () => {
+        it("should create a static edge group", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 3, Name: "pilot" } });
+
+            const result = await instance.createEdgeGroup({ name: "pilot", environmentIds: [5] });
+
+            expect(result).toEqual({ Id: 3, Name: "pilot" });
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/edge_groups", {
+                Name: "pilot",
+                Dynamic: false,
+                TagIDs: [],
+                Endpoints: [5],
+                PartialMatch: false
+            }, {});
+            expect(instance.resolveTagIds).not.toHaveBeenCalled();
+        });
+
+        it("should create a dynamic edge group from tags", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 4 } });
+
+            await instance.createEdgeGroup({ name: "arm", tags: [3, "arm64"], partialMatch: true });
+
+            expect(instance.auth.axiosInstance.post.mock.calls[0]![1]).toEqual({
+                Name: "arm",
+                Dynamic: true,
+                TagIDs: [3, 9],
+                Endpoints: [],
+                PartialMatch: true
+            });
+        });
+
+        it("should reject invalid groups", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.createEdgeGroup({ name: "" })).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.createEdgeGroup({ name: "x", environmentIds: [1], tags: [2] })).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.createEdgeGroup({ name: "x", environmentIds: [0] })).rejects.toBeInstanceOf(ValidationError);
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it("should not post anything when not authenticated", async () => {
+            instance.auth.isValidated = false;
+
+            expect(await instance.createEdgeGroup({ name: "stores", environmentIds: [5, 6] })).toBeUndefined();
+            expect(await instance.createEdgeGroup({ name: "kiosks", tags: [3] })).toBeUndefined();
+
+            instance.auth.strict = true;
+            await expect(instance.createEdgeGroup({ name: "stores", environmentIds: [5] })).rejects.toBeInstanceOf(AuthError);
+            expect(instance.resolveTagIds).not.toHaveBeenCalled();
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("deleteEdgeGroup()", () => {
+        it("should delete an edge group", async () => {
+            instance.auth.axiosInstance.delete.mockResolvedValue({});
+
+            expect(await instance.deleteEdgeGroup(2)).toBe(true);
+            expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith("/api/edge_groups/2", {});
+        });
+
+        it("should return false when Portainer refuses", async () => {
+            instance.auth.axiosInstance.delete.mockRejectedValue(new Error("Edge group is used by an edge stack"));
+
+            expect(await instance.deleteEdgeGroup(2)).toBe(false);
+        });
+    });
+
+    describe("resolveEdgeGroupIds()", () => {
+        it("should pass IDs through without a request", async () => {
+            expect(await instance.resolveEdgeGroupIds([1, 2])).toEqual([1, 2]);
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+
+        it("should resolve names", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeGroups });
+
+            expect(await instance.resolveEdgeGroupIds(["kiosks", 1])).toEqual([2, 1]);
+        });
+
+        it("should fail for an unknown name", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeGroups });
+
+            expect(await instance.resolveEdgeGroupIds(["depots"])).toBeUndefined();
+        });
+    });
+});
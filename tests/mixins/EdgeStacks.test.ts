@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EdgeStacksMixin } from "../../src/mixins/EdgeStacksMixin.ts";
+import { AbortError, AuthError, PortainerError, TimeoutError, ValidationError } from "../../src/errors.ts";
+
+class MockBase {
+    auth = {
+        axiosInstance: {
+            get: vi.fn(),
+            post: vi.fn(),
+            put: vi.fn(),
+            delete: vi.fn()
+        },
+        isValidated: true,
+        strict: false,
+        ensureValidated: vi.fn(async () => this.auth.isValidated)
+    };
+    getEdgeGroups = vi.fn(async () => [
+        { Id: 1, Name: "stores", Endpoints: [5, 6] },
+        { Id: 2, Name: "kiosks", Endpoints: [7] }
+    ]);
+    resolveEdgeGroupIds = vi.fn(async (groups: Array<number | string>) => groups.map(group => group === "stores" ? 1 : group));
+}
+
+const EdgeStacksClass = EdgeStacksMixin(MockBase as any);
+
+const RUNNING = 7;
+const ERROR = 2;
+
+const deployment = (environmentId: number, type: number, version?: number, error = "") => ({
+    EndpointID: environmentId,
+    Status: [{ Type: 0, Error: "", Time: 100 }, { Type: type, Error: error, Time: 200 }],
+    ...(version === undefined ? {} : { DeploymentInfo: { Version: version, FileVersion: 1, ConfigHash: "h" } })
+});
+
+const edgeStack = (status: Record<string, unknown> = {}, version = 2) => ({
+    Id: 10,
+    Name: "pos",
+    EdgeGroups: [1],
+    DeploymentType: 0,
+    Version: version,
+    NumDeployments: 2,
+    CreationDate: 1,
+    Status: status
+});
+
+describe("Edge Stacks Mixin Tests", () => {
+    let instance: InstanceType<typeof EdgeStacksClass>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        instance = new EdgeStacksClass();
+    });
+
+    describe("getEdgeStacks() and getEdgeStack()", () => {
+        it("should fetch edge stacks", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: [edgeStack()] });
+
+            expect(await instance.getEdgeStacks()).toEqual([edgeStack()]);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/edge_stacks", {});
+        });
+
+        it("should fetch one edge stack", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack() });
+
+            expect(await instance.getEdgeStack(10)).toEqual(edgeStack());
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/edge_stacks/10", {});
+        });
+
+        it("should reject an invalid ID", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.getEdgeStack(0)).rejects.toBeInstanceOf(ValidationError);
+        });
+    });
+
+    describe("createEdgeStack()", () => {
+        it("should create a Compose edge stack for the given edge groups", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: edgeStack() });
+
+            const result = await instance.createEdgeStack({ name: "pos", composeContent: "services: {}", edgeGroups: ["stores", 2] });
+
+            expect(result).toEqual(edgeStack());
+            expect(instance.resolveEdgeGroupIds).toHaveBeenCalledWith(["stores", 2], {});
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/edge_stacks/create/string", {
+                name: "pos",
+                stackFileContent: "services: {}",
+                edgeGroups: [1, 2],
+                deploymentType: 0
+            }, {});
+        });
+
+        it("should reject a stack without content or edge groups", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.createEdgeStack({ name: "pos", composeContent: " ", edgeGroups: [1] })).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.createEdgeStack({ name: "pos", composeContent: "services: {}", edgeGroups: [] })).rejects.toBeInstanceOf(ValidationError);
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it("should not post anything when not authenticated", async () => {
+            instance.auth.isValidated = false;
+
+            expect(await instance.createEdgeStack({ name: "pos", composeContent: "services: {}", edgeGroups: [1, 2] })).toBeUndefined();
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+
+            instance.auth.strict = true;
+            await expect(instance.getEdgeStackFileContent(10)).rejects.toBeInstanceOf(AuthError);
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("updateEdgeStack() and redeployEdgeStack()", () => {
+        it("should roll out new compose content to the current edge groups", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack() });
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: edgeStack({}, 3) });
+
+            const result = await instance.updateEdgeStack(10, { composeContent: "services: { web: {} }" });
+
+            expect(result?.Version).toBe(3);
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/edge_stacks/10", {
+                stackFileContent: "services: { web: {} }",
+                edgeGroups: [1],
+                deploymentType: 0,
+                updateVersion: true
+            }, {});
+        });
+
+        it("should keep the compose content when only the edge groups change", async () => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) =>
+                url.endsWith("/file") ? { data: { StackFileContent: "services: {}" } } : { data: edgeStack() }
+            );
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: edgeStack() });
+
+            await instance.updateEdgeStack(10, { edgeGroups: ["stores", 2] });
+
+            expect(instance.auth.axiosInstance.put.mock.calls[0]![1]).toEqual({
+                stackFileContent: "services: {}",
+                edgeGroups: [1, 2],
+                deploymentType: 0,
+                updateVersion: false
+            });
+        });
+
+        it("should redeploy the stack unchanged with a new version", async () => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) =>
+                url.endsWith("/file") ? { data: { StackFileContent: "services: {}" } } : { data: edgeStack() }
+            );
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: edgeStack({}, 3) });
+
+            await instance.redeployEdgeStack(10);
+
+            expect(instance.auth.axiosInstance.put.mock.calls[0]![1]).toMatchObject({ stackFileContent: "services: {}", updateVersion: true });
+        });
+
+        it("should reject empty changes", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.updateEdgeStack(10, {})).rejects.toBeInstanceOf(ValidationError);
+        });
+    });
+
+    describe("deleteEdgeStack()", () => {
+        it("should delete an edge stack", async () => {
+            instance.auth.axiosInstance.delete.mockResolvedValue({});
+
+            expect(await instance.deleteEdgeStack(10)).toBe(true);
+            expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith("/api/edge_stacks/10", {});
+        });
+    });
+
+    describe("getEdgeStackStatus()", () => {
+        it("should report the latest state of every targeted environment", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack({ 5: deployment(5, RUNNING, 2), 6: deployment(6, ERROR, 1, "pull failed") }) });
+
+            const result = await instance.getEdgeStackStatus(10);
+
+            expect(result).toEqual([
+                { environmentId: 5, state: "running", version: 2, error: null, updatedAt: 200 },
+                { environmentId: 6, state: "error", version: 1, error: "pull failed", updatedAt: 200 }
+            ]);
+        });
+
+        it("should list targeted environments that have not reported as pending", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack({ 5: deployment(5, RUNNING) }) });
+
+            const result = await instance.getEdgeStackStatus(10);
+
+            expect(result?.[1]).toEqual({ environmentId: 6, state: "pending", version: null, error: null, updatedAt: null });
+        });
+    });
+
+    describe("waitForEdgeStackDeployment()", () => {
+        it("should resolve once every targeted environment runs the current version", async () => {
+            instance.auth.axiosInstance.get
+                .mockResolvedValueOnce({ data: edgeStack({ 5: deployment(5, RUNNING, 1), 6: deployment(6, RUNNING, 2) }) })
+                .mockResolvedValueOnce({ data: edgeStack({ 5: deployment(5, RUNNING, 2) }) })
+                .mockResolvedValueOnce({ data: edgeStack({ 5: deployment(5, RUNNING, 2), 6: deployment(6, RUNNING, 2) }) });
+
+            const result = await instance.waitForEdgeStackDeployment(10, { timeoutMs: 1000, intervalMs: 5 });
+
+            expect(result).toBe(true);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledTimes(3);
+        });
+
+        it("should judge agents that do not report a version by their state", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack({ 5: deployment(5, RUNNING), 6: deployment(6, RUNNING) }) });
+
+            expect(await instance.waitForEdgeStackDeployment(10, { timeoutMs: 1000, intervalMs: 5 })).toBe(true);
+        });
+
+        it("should stop when an environment reports an error", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack({ 5: deployment(5, ERROR, 2, "pull failed") }) });
+
+            const wait = instance.waitForEdgeStackDeployment(10, { timeoutMs: 1000, intervalMs: 5 });
+
+            await expect(wait).rejects.toBeInstanceOf(PortainerError);
+            await expect(wait).rejects.toThrow("Edge stack 10 failed on environment 5: pull failed");
+        });
+
+        it("should name the environments still pending when it times out", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack({ 5: deployment(5, RUNNING, 2) }) });
+
+            const wait = instance.waitForEdgeStackDeployment(10, { timeoutMs: 30, intervalMs: 5 });
+
+            await expect(wait).rejects.toBeInstanceOf(TimeoutError);
+            await expect(wait).rejects.toThrow("still waiting for environments 6");
+        });
+
+        it("should return false when it times out outside strict mode", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack() });
+
+            expect(await instance.waitForEdgeStackDeployment(10, { timeoutMs: 20, intervalMs: 5 })).toBe(false);
+        });
+
+        it("should stop when the caller aborts", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: edgeStack() });
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 20);
+
+            await expect(instance.waitForEdgeStackDeployment(10, { timeoutMs: 5000, intervalMs: 5, signal: controller.signal }))
+                .rejects.toBeInstanceOf(AbortError);
+        });
+    });
+});
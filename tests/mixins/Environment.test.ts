@@ -1,16 +1,33 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { EnvironmentsMixin } from "../../src/mixins/EnvironmentMixins.ts";
+import { EnvironmentUnavailableError, NotFoundError } from "../../src/errors.ts";
 
 class MockBase {
     auth = {
         axiosInstance: {
             get: vi.fn()
         },
-        isValidated: true
+        isValidated: true,
+        strict: false,
+        ensureValidated: vi.fn(async () => this.auth.isValidated)
     };
     environmentId: number | null = 1;
+    environmentName: string | null = null;
 }
 
+const mockEnvironments = [
+    { Id: 1, Name: "local", Type: 1, URL: "unix:///var/run/docker.sock", Status: 1, GroupId: 1, TagIds: [], Snapshots: [] },
+    { Id: 2, Name: "production", Type: 2, URL: "tcp://10.0.0.2:9001", Status: 1, GroupId: 2, TagIds: [1], Snapshots: [] },
+    { Id: 3, Name: "edge-site", Type: 4, URL: "", Status: 2, GroupId: 2, TagIds: [1, 2], Snapshots: [], EdgeID: "abc" }
+];
+const mockTags = [{ ID: 1, Name: "prod" }, { ID: 2, Name: "remote" }];
+const mockGroups = [{ Id: 1, Name: "Unassigned" }, { Id: 2, Name: "Datacenter" }];
+
+const ids = (environments?: Array<{ Id: number }>) => environments?.map(env => env.Id);
+const mockLookups = (get: any) => get.mockImplementation(async (url: string) => ({
+    data: url === "/api/tags" ? mockTags : url === "/api/endpoint_groups" ? mockGroups : mockEnvironments
+}));
+
 const EnvironmentsClass = EnvironmentsMixin(MockBase as any);
 
 describe("Environment Mixin Tests", () => {
@@ -20,7 +37,9 @@ describe("Environment Mixin Tests", () => {
         vi.clearAllMocks();
         instance = new EnvironmentsClass();
         instance.auth.isValidated = true;
+        instance.auth.strict = false;
         instance.environmentId = 1;
+        instance.environmentName = null;
     });
 
     describe("getEnvironmentDetails()", () => {
@@ -57,7 +76,15 @@ describe("Environment Mixin Tests", () => {
             const result = await instance.getEnvironmentDetails();
 
             expect(result).toEqual(mockEnvironment);
-            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/1");
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/1", {});
+        });
+
+        it("should fetch the given environment instead of the client's", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Id: 5, Name: "Other" } });
+
+            await instance.getEnvironmentDetails(5);
+
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/5", {});
         });
     });
 
@@ -90,11 +117,111 @@ describe("Environment Mixin Tests", () => {
 
             expect(result).toEqual(mockEnvironments);
             expect(result?.length).toBe(2);
-            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints");
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints", {});
+        });
+    });
+
+    describe("getEnvironmentByName()", () => {
+        it("should return the environment with the exact name", async () => {
+            mockLookups(instance.auth.axiosInstance.get);
+
+            const result = await instance.getEnvironmentByName("production");
+
+            expect(result?.Id).toBe(2);
+        });
+
+        it("should return undefined when no environment has that name", async () => {
+            mockLookups(instance.auth.axiosInstance.get);
+
+            expect(await instance.getEnvironmentByName("prod")).toBeUndefined();
+        });
+
+        it("should throw a NotFoundError in strict mode", async () => {
+            instance.auth.strict = true;
+            mockLookups(instance.auth.axiosInstance.get);
+
+            await expect(instance.getEnvironmentByName("staging")).rejects.toBeInstanceOf(NotFoundError);
+        });
+
+        it("should reject an empty name without calling the API", async () => {
+            expect(await instance.getEnvironmentByName("")).toBeUndefined();
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("findEnvironments()", () => {
+        beforeEach(() => {
+            mockLookups(instance.auth.axiosInstance.get);
+        });
+
+        it("should filter by tag ID or name", async () => {
+            expect(ids(await instance.findEnvironments({ tag: 2 }))).toEqual([3]);
+            expect(ids(await instance.findEnvironments({ tag: "prod" }))).toEqual([2, 3]);
+        });
+
+        it("should filter by group ID or name", async () => {
+            expect(ids(await instance.findEnvironments({ group: 1 }))).toEqual([1]);
+            expect(ids(await instance.findEnvironments({ group: "Datacenter" }))).toEqual([2, 3]);
+        });
+
+        it("should filter by type and status", async () => {
+            expect(ids(await instance.findEnvironments({ type: [1, 2] }))).toEqual([1, 2]);
+            expect(ids(await instance.findEnvironments({ status: "down" }))).toEqual([3]);
+        });
+
+        it("should require all criteria to match", async () => {
+            expect(ids(await instance.findEnvironments({ tag: "prod", status: "up" }))).toEqual([2]);
+        });
+
+        it("should match tags carried through the environment's group", async () => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) => ({
+                data: url === "/api/tags" ? [...mockTags, { ID: 3, Name: "edge-eu" }] :
+                    url === "/api/endpoint_groups" ? [{ Id: 1, Name: "Unassigned" }, { Id: 2, Name: "Datacenter", TagIds: [3] }] :
+                    mockEnvironments
+            }));
+
+            expect(ids(await instance.findEnvironments({ tag: "edge-eu" }))).toEqual([2, 3]);
+        });
+
+        it("should require every tag in tags", async () => {
+            expect(ids(await instance.findEnvironments({ tags: ["prod", 2] }))).toEqual([3]);
+        });
+
+        it("should match nothing for an unknown tag or group name", async () => {
+            expect(await instance.findEnvironments({ tag: "missing" })).toEqual([]);
+            expect(await instance.findEnvironments({ group: "missing" })).toEqual([]);
+        });
+
+        it("should return every environment for an empty filter", async () => {
+            expect(await instance.findEnvironments({})).toHaveLength(3);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledTimes(1);
+        });
+
+        it("should reject an invalid status", async () => {
+            expect(await instance.findEnvironments({ status: "sleeping" as any })).toBeUndefined();
         });
     });
 
     describe("ensureEnvId()", () => {
+        it("should resolve the default environment name", async () => {
+            instance.environmentId = null;
+            instance.environmentName = "production";
+            mockLookups(instance.auth.axiosInstance.get);
+
+            expect(await instance.ensureEnvId()).toBe(2);
+            expect(instance.environmentId).toBe(2);
+        });
+
+        it("should not fall back to another environment when the default name does not exist", async () => {
+            instance.environmentId = null;
+            instance.environmentName = "staging";
+            instance.auth.strict = true;
+            mockLookups(instance.auth.axiosInstance.get);
+
+            await expect(instance.ensureEnvId()).rejects.toBeInstanceOf(NotFoundError);
+            expect(instance.environmentId).toBe(null);
+        });
+
         it("should return a valid environment ID when environments are available", async () => {
             instance.environmentId = 5;
 
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EnvironmentGroupsMixin } from "../../src/mixins/EnvironmentGroupsMixin.ts";
+import { AuthError, NotFoundError, ValidationError } from "../../src/errors.ts";
+
+class MockBase {
+    auth = {
+        axiosInstance: {
+            get: vi.fn(),
+            post: vi.fn(),
+            put: vi.fn(),
+            delete: vi.fn()
+        },
+        isValidated: true,
+        strict: false,
+        ensureValidated: vi.fn(async () => this.auth.isValidated)
+    };
+}
+
+const EnvironmentGroupsClass = EnvironmentGroupsMixin(MockBase as any);
+
+const mockTags = [{ ID: 1, Name: "prod" }, { ID: 2, Name: "edge-eu" }];
+const mockGroups = [{ Id: 1, Name: "Unassigned" }, { Id: 2, Name: "Stores", TagIds: [2] }];
+
+describe("Environment Groups Mixin Tests", () => {
+    let instance: InstanceType<typeof EnvironmentGroupsClass>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        instance = new EnvironmentGroupsClass();
+        instance.auth.axiosInstance.get.mockImplementation(async (url: string) => ({
+            data: url === "/api/tags" ? mockTags :
+                url === "/api/endpoint_groups" ? mockGroups :
+                { Id: 5, Name: "store-5", TagIds: [1] }
+        }));
+    });
+
+    describe("tags", () => {
+        it("should list tags", async () => {
+            expect(await instance.getTags()).toEqual(mockTags);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/tags", {});
+        });
+
+        it("should create a tag", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { ID: 3, Name: "edge-us" } });
+
+            expect(await instance.createTag("edge-us")).toEqual({ ID: 3, Name: "edge-us" });
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/tags", { Name: "edge-us" }, {});
+        });
+
+        it("should delete a tag by name", async () => {
+            instance.auth.axiosInstance.delete.mockResolvedValue({});
+
+            expect(await instance.deleteTag("edge-eu")).toBe(true);
+            expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith("/api/tags/2", {});
+        });
+
+        it("should not delete anything for an unknown tag name", async () => {
+            expect(await instance.deleteTag("missing")).toBe(false);
+            expect(instance.auth.axiosInstance.delete).not.toHaveBeenCalled();
+        });
+
+        it("should resolve IDs without a request", async () => {
+            expect(await instance.resolveTagIds([1, 2])).toEqual([1, 2]);
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+
+        it("should throw a NotFoundError for unknown tag names in strict mode", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.resolveTagIds(["prod", "missing"])).rejects.toBeInstanceOf(NotFoundError);
+        });
+    });
+
+    describe("environment groups", () => {
+        it("should get a group by name", async () => {
+            expect((await instance.getEnvironmentGroup("Stores"))?.Id).toBe(2);
+        });
+
+        it("should create a group with tags by name and environments", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 3, Name: "EU stores" } });
+
+            await instance.createEnvironmentGroup({ name: "EU stores", tags: ["edge-eu"], environmentIds: [5, 6] });
+
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith(
+                "/api/endpoint_groups",
+                { Name: "EU stores", Description: "", TagIDs: [2], AssociatedEndpoints: [5, 6] },
+                {}
+            );
+        });
+
+        it("should only send the changed fields on update", async () => {
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: { Id: 2, Name: "Shops" } });
+
+            await instance.updateEnvironmentGroup(2, { name: "Shops" });
+
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/endpoint_groups/2", { Name: "Shops" }, {});
+        });
+
+        it("should reject an empty or non-string name on update", async () => {
+            expect(await instance.updateEnvironmentGroup(2, { name: "" })).toBeUndefined();
+            instance.auth.strict = true;
+            await expect(instance.updateEnvironmentGroup(2, { name: 42 as any })).rejects.toBeInstanceOf(ValidationError);
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+
+        it("should delete a group", async () => {
+            instance.auth.axiosInstance.delete.mockResolvedValue({});
+
+            expect(await instance.deleteEnvironmentGroup(2)).toBe(true);
+            expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith("/api/endpoint_groups/2", {});
+        });
+
+        it("should refuse to delete the Unassigned group", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.deleteEnvironmentGroup(1)).rejects.toBeInstanceOf(ValidationError);
+            expect(instance.auth.axiosInstance.delete).not.toHaveBeenCalled();
+        });
+
+        it("should move environments in and out of groups", async () => {
+            instance.auth.axiosInstance.put.mockResolvedValue({});
+            instance.auth.axiosInstance.delete.mockResolvedValue({});
+
+            expect(await instance.addEnvironmentToGroup(2, 5)).toBe(true);
+            expect(await instance.removeEnvironmentFromGroup(2, 5)).toBe(true);
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/endpoint_groups/2/endpoints/5", null, {});
+            expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith("/api/endpoint_groups/2/endpoints/5", {});
+        });
+    });
+
+    describe("environment tags", () => {
+        it("should add tags while keeping existing ones", async () => {
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: { Id: 5, TagIds: [1, 2] } });
+
+            const result = await instance.tagEnvironment(5, ["edge-eu", 1]);
+
+            expect(result?.TagIds).toEqual([1, 2]);
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/endpoints/5", { TagIDs: [1, 2] }, {});
+        });
+
+        it("should remove tags", async () => {
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: { Id: 5, TagIds: [] } });
+
+            await instance.untagEnvironment(5, ["prod"]);
+
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/endpoints/5", { TagIDs: [] }, {});
+        });
+
+        it("should not change the environment when a tag does not exist", async () => {
+            expect(await instance.tagEnvironment(5, ["missing"])).toBeUndefined();
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("authentication", () => {
+        it("should not send any changes when not authenticated", async () => {
+            instance.auth.isValidated = false;
+
+            expect(await instance.createTag("prod")).toBeUndefined();
+            expect(await instance.deleteTag(1)).toBe(false);
+            expect(await instance.createEnvironmentGroup({ name: "Stores" })).toBeUndefined();
+            expect(await instance.updateEnvironmentGroup(2, { name: "Shops" })).toBeUndefined();
+            expect(await instance.deleteEnvironmentGroup(2)).toBe(false);
+            expect(await instance.addEnvironmentToGroup(2, 5)).toBe(false);
+            expect(await instance.removeEnvironmentFromGroup(2, 5)).toBe(false);
+            expect(await instance.tagEnvironment(5, [1])).toBeUndefined();
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+            expect(instance.auth.axiosInstance.delete).not.toHaveBeenCalled();
+        });
+
+        it("should throw an AuthError in strict mode", async () => {
+            instance.auth.isValidated = false;
+            instance.auth.strict = true;
+
+            await expect(instance.deleteTag(1)).rejects.toThrow(AuthError);
+            await expect(instance.addEnvironmentToGroup(2, 5)).rejects.toThrow(AuthError);
+        });
+    });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AxiosError, AxiosHeaders } from "axios";
+import { EnvironmentHealthMixin } from "../../src/mixins/EnvironmentHealthMixin.ts";
+import { AbortError, AuthError, ValidationError } from "../../src/errors.ts";
+
+class MockBase {
+    auth = {
+        axiosInstance: {
+            get: vi.fn()
+        },
+        isValidated: true,
+        strict: false,
+        ensureValidated: vi.fn(async () => this.auth.isValidated)
+    };
+    ensureEnvId = vi.fn(async () => 1);
+}
+
+const EnvironmentHealthClass = EnvironmentHealthMixin(MockBase as any);
+
+const httpError = (status: number | null, code?: string) => {
+    const config = { url: "/api/endpoints/1/docker/_ping", method: "get", headers: new AxiosHeaders() };
+    return new AxiosError("Request failed", code, config, {}, status === null ? undefined : { status, statusText: "", data: {}, headers: {}, config });
+};
+
+describe("Environment Health Mixin Tests", () => {
+    let instance: InstanceType<typeof EnvironmentHealthClass>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        instance = new EnvironmentHealthClass();
+    });
+
+    describe("pingEnvironment()", () => {
+        it("should ping the Docker host through Portainer without retries", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: "OK" });
+
+            const result = await instance.pingEnvironment(3);
+
+            expect(result).toBe(true);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/3/docker/_ping", { retry: false });
+        });
+
+        it("should use the client's environment when no ID is given", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: "OK" });
+
+            await instance.pingEnvironment();
+
+            expect(instance.ensureEnvId).toHaveBeenCalled();
+            expect(instance.auth.axiosInstance.get.mock.calls[0]![0]).toBe("/api/endpoints/1/docker/_ping");
+        });
+
+        it("should return false when the Docker host is unreachable, even in strict mode", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get.mockRejectedValueOnce(httpError(502));
+            instance.auth.axiosInstance.get.mockRejectedValueOnce(httpError(null, "ECONNABORTED"));
+
+            expect(await instance.pingEnvironment(3)).toBe(false);
+            expect(await instance.pingEnvironment(3)).toBe(false);
+        });
+
+        it("should follow strict mode for other failures", async () => {
+            instance.auth.axiosInstance.get.mockRejectedValue(httpError(403));
+
+            expect(await instance.pingEnvironment(3)).toBe(false);
+
+            instance.auth.strict = true;
+            await expect(instance.pingEnvironment(3)).rejects.toBeInstanceOf(AuthError);
+        });
+
+        it("should reject an invalid environment ID", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.pingEnvironment("3" as any)).rejects.toBeInstanceOf(ValidationError);
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+
+        it("should return false when not authenticated", async () => {
+            instance.auth.isValidated = false;
+
+            expect(await instance.pingEnvironment(3)).toBe(false);
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getDockerInfo() and getDockerVersion()", () => {
+        it("should fetch the engine info", async () => {
+            const info = { ID: "abc", Name: "host-1", ServerVersion: "27.1.1", NCPU: 4, Swarm: { NodeID: "", LocalNodeState: "inactive", ControlAvailable: false } };
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: info });
+
+            const result = await instance.getDockerInfo(3);
+
+            expect(result).toEqual(info);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/3/docker/info", {});
+        });
+
+        it("should fetch the engine version", async () => {
+            const version = { Version: "27.1.1", ApiVersion: "1.46", Os: "linux", Arch: "amd64" };
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: version });
+
+            const result = await instance.getDockerVersion();
+
+            expect(result).toEqual(version);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/1/docker/version", {});
+        });
+
+        it("should return undefined on failure", async () => {
+            instance.auth.axiosInstance.get.mockRejectedValue(httpError(502));
+
+            expect(await instance.getDockerInfo(3)).toBeUndefined();
+            expect(await instance.getDockerVersion(3)).toBeUndefined();
+        });
+    });
+
+    describe("getSwarmId()", () => {
+        it("should return the cluster ID of a Swarm manager", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Name: "manager-1", Swarm: { LocalNodeState: "active", ControlAvailable: true, Cluster: { ID: "swarm-1" } } } });
+
+            expect(await instance.getSwarmId(3)).toBe("swarm-1");
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/3/docker/info", {});
+        });
+
+        it("should fail for Swarm workers and standalone hosts", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get
+                .mockResolvedValueOnce({ data: { Name: "worker-1", Swarm: { LocalNodeState: "active", ControlAvailable: false } } })
+                .mockResolvedValueOnce({ data: { Name: "host-1", Swarm: { LocalNodeState: "inactive", ControlAvailable: false } } });
+
+            await expect(instance.getSwarmId(3)).rejects.toThrow('Docker host "worker-1" is not a Swarm manager');
+            await expect(instance.getSwarmId(3)).rejects.toThrow('Docker host "host-1" is not part of a Swarm');
+        });
+    });
+
+    describe("waitForEnvironmentUp()", () => {
+        it("should resolve once the environment answers", async () => {
+            instance.auth.axiosInstance.get
+                .mockRejectedValueOnce(httpError(502))
+                .mockRejectedValueOnce(httpError(null))
+                .mockResolvedValueOnce({ data: "OK" });
+
+            const result = await instance.waitForEnvironmentUp(3, { timeoutMs: 1000, intervalMs: 5 });
+
+            expect(result).toBe(true);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledTimes(3);
+        });
+
+        it("should give each ping only the time that is left", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: "OK" });
+
+            await instance.waitForEnvironmentUp(3, { timeoutMs: 1000 });
+
+            const config = instance.auth.axiosInstance.get.mock.calls[0]![1];
+            expect(config.signal).toBeInstanceOf(AbortSignal);
+            expect(config.retry).toBe(false);
+        });
+
+        it("should return false when the environment stays down", async () => {
+            instance.auth.axiosInstance.get.mockRejectedValue(httpError(502));
+
+            const result = await instance.waitForEnvironmentUp(3, { timeoutMs: 30, intervalMs: 5 });
+
+            expect(result).toBe(false);
+            expect(instance.auth.axiosInstance.get.mock.calls.length).toBeGreaterThan(1);
+        });
+
+        it("should throw a TimeoutError in strict mode when the environment stays down", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get.mockRejectedValue(httpError(502));
+
+            await expect(instance.waitForEnvironmentUp(3, { timeoutMs: 30, intervalMs: 5 })).rejects.toThrow("Environment 3 did not come up within 30ms");
+        });
+
+        it("should return false when the last ping is cut short by the deadline", async () => {
+            // The first ping hangs until its per-attempt deadline aborts it
+            instance.auth.axiosInstance.get.mockImplementationOnce((_url: string, config: { signal: AbortSignal }) =>
+                new Promise<any>((_resolve, reject) => config.signal.addEventListener("abort", () => reject(config.signal.reason)))
+            );
+
+            const result = await instance.waitForEnvironmentUp(3, { timeoutMs: 30, intervalMs: 5 });
+
+            expect(result).toBe(false);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledTimes(1);
+        });
+
+        it("should stop when the caller aborts", async () => {
+            instance.auth.axiosInstance.get.mockRejectedValue(httpError(502));
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 20);
+
+            await expect(instance.waitForEnvironmentUp(3, { timeoutMs: 5000, intervalMs: 5, signal: controller.signal }))
+                .rejects.toBeInstanceOf(AbortError);
+        });
+
+        it("should stop on failures other than an unreachable host", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get.mockRejectedValue(httpError(403));
+
+            await expect(instance.waitForEnvironmentUp(3, { timeoutMs: 1000, intervalMs: 5 })).rejects.toBeInstanceOf(AuthError);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledTimes(1);
+        });
+    });
+});
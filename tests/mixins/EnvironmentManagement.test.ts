@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import axios from "axios";
+import { EnvironmentManagementMixin } from "../../src/mixins/EnvironmentManagementMixin.ts";
+import { AuthError, NotFoundError, ValidationError } from "../../src/errors.ts";
+
+class MockBase {
+    auth = {
+        axiosInstance: {
+            get: vi.fn(),
+            post: vi.fn(),
+            put: vi.fn(),
+            delete: vi.fn()
+        },
+        isValidated: true,
+        strict: false,
+        PortainerUrl: "https://portainer.example.com",
+        ensureValidated: vi.fn(async () => this.auth.isValidated)
+    };
+    ensureEnvId = vi.fn();
+}
+
+const EnvironmentManagementClass = EnvironmentManagementMixin(MockBase as any);
+
+const formFields = (form: FormData) => Object.fromEntries([...form.entries()].filter(([, value]) => typeof value === "string"));
+
+describe("Environment Management Mixin Tests", () => {
+    let instance: InstanceType<typeof EnvironmentManagementClass>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        instance = new EnvironmentManagementClass();
+    });
+
+    describe("createEnvironment()", () => {
+        it("should register a Docker API over TCP", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 7, Name: "vm-1" } });
+
+            const result = await instance.createEnvironment({ type: "docker", name: "vm-1", url: "tcp://10.0.0.5:2375", groupId: 2, tagIds: [1, 3] });
+
+            expect(result).toEqual({ Id: 7, Name: "vm-1" });
+            const [url, form, config] = instance.auth.axiosInstance.post.mock.calls[0]!;
+            expect(url).toBe("/api/endpoints");
+            expect(config.headers).toEqual({ "Content-Type": "multipart/form-data" });
+            expect(formFields(form)).toEqual({
+                Name: "vm-1",
+                EndpointCreationType: "1",
+                URL: "tcp://10.0.0.5:2375",
+                GroupID: "2",
+                TagIds: "[1,3]"
+            });
+        });
+
+        it("should upload the TLS certificates of a Docker API", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 8 } });
+
+            await instance.createEnvironment({
+                type: "docker",
+                name: "vm-2",
+                url: "tcp://10.0.0.6:2376",
+                tls: { ca: "CA PEM", cert: "CERT PEM", key: Buffer.from("KEY PEM") }
+            });
+
+            const form: FormData = instance.auth.axiosInstance.post.mock.calls[0]![1];
+            expect(formFields(form)).toMatchObject({ TLS: "true", TLSSkipVerify: "false", TLSSkipClientVerify: "false" });
+            expect(await (form.get("TLSCACertFile") as Blob).text()).toBe("CA PEM");
+            expect(await (form.get("TLSCertFile") as Blob).text()).toBe("CERT PEM");
+            expect(await (form.get("TLSKeyFile") as Blob).text()).toBe("KEY PEM");
+        });
+
+        it("should only skip verifying the Docker API when asked to", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 8 } });
+
+            expect(await instance.createEnvironment({ type: "docker", name: "vm-3", url: "tcp://10.0.0.6:2376", tls: {} })).toBeUndefined();
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+
+            await instance.createEnvironment({ type: "docker", name: "vm-3", url: "tcp://10.0.0.6:2376", tls: { insecure: true } });
+
+            const form: FormData = instance.auth.axiosInstance.post.mock.calls[0]![1];
+            expect(formFields(form)).toMatchObject({ TLS: "true", TLSSkipVerify: "true", TLSSkipClientVerify: "true" });
+        });
+
+        it("should register a Portainer Agent with TLS", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 9 } });
+
+            await instance.createEnvironment({ type: "agent", name: "agent-1", url: "10.0.0.7:9001" });
+
+            const form: FormData = instance.auth.axiosInstance.post.mock.calls[0]![1];
+            expect(formFields(form)).toEqual({
+                Name: "agent-1",
+                EndpointCreationType: "2",
+                URL: "10.0.0.7:9001",
+                TLS: "true",
+                TLSSkipVerify: "true",
+                TLSSkipClientVerify: "true"
+            });
+        });
+
+        it("should register an Edge Agent against the client's Portainer URL and return its key", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: { Id: 10, EdgeKey: "ZWRnZS1rZXk=" } });
+
+            const result = await instance.createEnvironment({ type: "edge", name: "store-42", checkinIntervalSeconds: 30 });
+
+            expect(result?.EdgeKey).toBe("ZWRnZS1rZXk=");
+            const form: FormData = instance.auth.axiosInstance.post.mock.calls[0]![1];
+            expect(formFields(form)).toEqual({
+                Name: "store-42",
+                EndpointCreationType: "4",
+                URL: "https://portainer.example.com",
+                EdgeCheckinInterval: "30"
+            });
+        });
+
+        it("should reject missing URLs and half client certificates without calling the API", async () => {
+            expect(await instance.createEnvironment({ type: "agent", name: "agent-1" } as any)).toBeUndefined();
+            expect(await instance.createEnvironment({ type: "docker", name: "vm", url: "tcp://h:2376", tls: { cert: "CERT" } })).toBeUndefined();
+            expect(await instance.createEnvironment({ type: "kubernetes", name: "k8s", url: "h" } as any)).toBeUndefined();
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it("should throw a ValidationError in strict mode", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.createEnvironment({ type: "docker", name: "", url: "tcp://h:2375" })).rejects.toBeInstanceOf(ValidationError);
+        });
+
+        it("should send the form as multipart through an axios instance that defaults to JSON", async () => {
+            const adapter = vi.fn(async (config: any) => ({ data: { Id: 11 }, status: 200, statusText: "OK", headers: {}, config }));
+            instance.auth.axiosInstance = axios.create({ headers: { "Content-Type": "application/json" }, adapter }) as any;
+
+            await instance.createEnvironment({ type: "agent", name: "agent-2", url: "10.0.0.8:9001" });
+
+            const config = adapter.mock.calls[0]![0];
+            expect(config.data).toBeInstanceOf(FormData);
+            expect(config.headers["Content-Type"]).toContain("multipart/form-data");
+        });
+    });
+
+    describe("updateEnvironment()", () => {
+        it("should only send the changed fields", async () => {
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: { Id: 7, Name: "vm-1-renamed" } });
+
+            const result = await instance.updateEnvironment(7, { name: "vm-1-renamed", tagIds: [2] });
+
+            expect(result?.Name).toBe("vm-1-renamed");
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/endpoints/7", { Name: "vm-1-renamed", TagIDs: [2] }, {});
+        });
+
+        it("should map URL, public URL and group", async () => {
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: { Id: 7 } });
+
+            await instance.updateEnvironment(7, { url: "tcp://10.0.0.9:2375", publicUrl: "10.0.0.9", groupId: 3 });
+
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith(
+                "/api/endpoints/7",
+                { URL: "tcp://10.0.0.9:2375", PublicURL: "10.0.0.9", GroupID: 3 },
+                {}
+            );
+        });
+
+        it("should reject invalid environment IDs", async () => {
+            expect(await instance.updateEnvironment(0, { name: "x" })).toBeUndefined();
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("deleteEnvironment()", () => {
+        it("should delete the environment", async () => {
+            instance.auth.axiosInstance.delete.mockResolvedValue({});
+
+            expect(await instance.deleteEnvironment(7)).toBe(true);
+            expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith("/api/endpoints/7", {});
+        });
+
+        it("should return false when the API call fails", async () => {
+            instance.auth.axiosInstance.delete.mockRejectedValue(new Error("API Error"));
+
+            expect(await instance.deleteEnvironment(7)).toBe(false);
+        });
+    });
+
+    describe("getEdgeKey()", () => {
+        it("should return the edge key of the client's environment", async () => {
+            instance.ensureEnvId.mockResolvedValue(10);
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Id: 10, EdgeKey: "ZWRnZS1rZXk=" } });
+
+            expect(await instance.getEdgeKey()).toBe("ZWRnZS1rZXk=");
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/10", {});
+        });
+
+        it("should fail for environments that are not Edge environments", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Id: 7 } });
+
+            await expect(instance.getEdgeKey(7)).rejects.toBeInstanceOf(NotFoundError);
+        });
+
+        it("should throw an AuthError in strict mode when not authenticated", async () => {
+            instance.auth.strict = true;
+            instance.auth.isValidated = false;
+
+            await expect(instance.getEdgeKey(7)).rejects.toBeInstanceOf(AuthError);
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("snapshotEnvironment()", () => {
+        it("should refresh the snapshot of the given environment", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({});
+
+            expect(await instance.snapshotEnvironment(7)).toBe(true);
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/endpoints/7/snapshot", null, {});
+        });
+
+        it("should refresh the snapshots of all environments", async () => {
+            instance.auth.axiosInstance.post.mockResolvedValue({});
+
+            expect(await instance.snapshotEnvironments()).toBe(true);
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/endpoints/snapshot", null, {});
+        });
+
+        it("should not call the API when not authenticated", async () => {
+            instance.auth.isValidated = false;
+
+            expect(await instance.snapshotEnvironment(7)).toBe(false);
+            expect(await instance.snapshotEnvironments()).toBe(false);
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+        });
+    });
+});
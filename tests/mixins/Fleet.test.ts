@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AxiosError, AxiosHeaders } from "axios";
+import { FleetMixin } from "../../src/mixins/FleetMixin.ts";
+import { AbortError, EnvironmentUnavailableError, NotFoundError, ValidationError } from "../../src/errors.ts";
+
+const environments = [
+    { Id: 1, Name: "local", Status: 1 },
+    { Id: 2, Name: "edge-1", Status: 2 },
+    { Id: 3, Name: "vm-1", Status: 1 }
+];
+
+class MockBase {
+    auth = {
+        axiosInstance: {
+            get: vi.fn()
+        },
+        isValidated: true,
+        strict: false,
+        ensureValidated: vi.fn(async () => this.auth.isValidated)
+    };
+    getEnvironments = vi.fn(async () => environments);
+    findEnvironments = vi.fn();
+}
+
+const FleetClass = FleetMixin(MockBase as any);
+
+const httpError = (status: number | null) => {
+    const config = { url: "/api/endpoints", method: "get", headers: new AxiosHeaders() };
+    return new AxiosError("Request failed", undefined, config, {}, status === null ? undefined : { status, statusText: "", data: {}, headers: {}, config });
+};
+
+const envOf = (url: string) => Number(url.split("/")[3]);
+
+describe("Fleet Mixin Tests", () => {
+    let instance: InstanceType<typeof FleetClass>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        instance = new FleetClass();
+    });
+
+    describe("getFleetContainers()", () => {
+        it("should tag containers with their environment and report down environments", async () => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) => ({ data: [{ Id: `c${envOf(url)}`, Image: "nginx:latest" }] }));
+
+            const result = await instance.getFleetContainers(false);
+
+            expect(result.results).toEqual([
+                { Id: "c1", Image: "nginx:latest", environmentId: 1, environmentName: "local" },
+                { Id: "c3", Image: "nginx:latest", environmentId: 3, environmentName: "vm-1" }
+            ]);
+            expect(result.unavailable).toHaveLength(1);
+            expect(result.unavailable[0]).toMatchObject({ environmentId: 2, environmentName: "edge-1" });
+            expect(result.unavailable[0].error).toBeInstanceOf(EnvironmentUnavailableError);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/1/docker/containers/json", { params: { all: false } });
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalledWith("/api/endpoints/2/docker/containers/json", expect.anything());
+        });
+
+        it("should report failing environments without failing the call, even in strict mode", async () => {
+            instance.auth.strict = true;
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) => {
+                if (envOf(url) === 3) {
+                    throw httpError(null);
+                }
+                return { data: [{ Id: "c1" }] };
+            });
+
+            const result = await instance.getFleetContainers(true);
+
+            expect(result.results.map((c: { Id: string }) => c.Id)).toEqual(["c1"]);
+            expect(result.unavailable.map((f: { environmentId: number }) => f.environmentId)).toEqual([2, 3]);
+            expect(result.unavailable[1].error.message).toContain("Failed to fetch containers in environment 3");
+        });
+
+        it("should query only the given environment IDs", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: [] });
+
+            await instance.getFleetContainers(true, { environments: [3] });
+
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledTimes(1);
+            expect(instance.auth.axiosInstance.get.mock.calls[0]![0]).toBe("/api/endpoints/3/docker/containers/json");
+        });
+
+        it("should report requested IDs that match no environment", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: [] });
+
+            const result = await instance.getFleetContainers(true, { environments: [3, 9] });
+
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledTimes(1);
+            expect(result.unavailable).toHaveLength(1);
+            expect(result.unavailable[0]).toMatchObject({ environmentId: 9, environmentName: "" });
+            expect(result.unavailable[0].error).toBeInstanceOf(NotFoundError);
+        });
+
+        it("should query the environments matching a filter", async () => {
+            instance.findEnvironments.mockResolvedValue([environments[2]]);
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: [] });
+
+            await instance.getFleetContainers(true, { environments: { tag: "prod" } });
+
+            expect(instance.findEnvironments).toHaveBeenCalledWith({ tag: "prod" }, {});
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not query more environments at once than the concurrency allows", async () => {
+            instance.getEnvironments.mockResolvedValue(Array.from({ length: 6 }, (_, i) => ({ Id: i + 1, Name: `env-${i + 1}`, Status: 1 })));
+            let running = 0;
+            let peak = 0;
+            instance.auth.axiosInstance.get.mockImplementation(async () => {
+                peak = Math.max(peak, ++running);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                running--;
+                return { data: [{ Id: "c" }] };
+            });
+
+            const result = await instance.getFleetContainers(true, { concurrency: 2 });
+
+            expect(peak).toBe(2);
+            expect(result.results).toHaveLength(6);
+        });
+
+        it("should keep environment order whatever order the answers arrive in", async () => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) => {
+                await new Promise(resolve => setTimeout(resolve, envOf(url) === 1 ? 10 : 0));
+                return { data: [{ Id: `c${envOf(url)}` }] };
+            });
+
+            const result = await instance.getFleetContainers(true);
+
+            expect(result.results.map((c: { Id: string }) => c.Id)).toEqual(["c1", "c3"]);
+        });
+
+        it("should throw when cancelled", async () => {
+            const controller = new AbortController();
+            controller.abort();
+            instance.auth.axiosInstance.get.mockRejectedValue(controller.signal.reason);
+
+            await expect(instance.getFleetContainers(true, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+        });
+
+        it("should validate its arguments", async () => {
+            instance.auth.strict = true;
+
+            await expect(instance.getFleetContainers("yes" as any)).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.getFleetContainers(true, { concurrency: 0 })).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.getFleetContainers(true, { environments: [1, -2] })).rejects.toBeInstanceOf(ValidationError);
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+
+        it("should return undefined when the environments cannot be fetched", async () => {
+            instance.getEnvironments.mockResolvedValue(undefined);
+
+            expect(await instance.getFleetContainers(true)).toBeUndefined();
+        });
+
+        it("should return undefined when not authenticated", async () => {
+            instance.auth.isValidated = false;
+
+            expect(await instance.getFleetContainers(true)).toBeUndefined();
+            expect(instance.getEnvironments).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getFleetImages()", () => {
+        it("should fetch the images of every environment that is up", async () => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) => ({ data: [{ Id: `sha256:${envOf(url)}`, RepoTags: ["nginx:latest"] }] }));
+
+            const result = await instance.getFleetImages();
+
+            expect(result.results.map((i: { environmentId: number }) => i.environmentId)).toEqual([1, 3]);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/3/docker/images/json", {});
+        });
+    });
+
+    describe("getFleetContainerDetails()", () => {
+        it("should return the container from the environments that have it", async () => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) => {
+                if (envOf(url) === 1) {
+                    throw httpError(404);
+                }
+                return { data: { Id: "abc", Name: "/web" } };
+            });
+
+            const result = await instance.getFleetContainerDetails("web");
+
+            expect(result.results).toEqual([{ Id: "abc", Name: "/web", environmentId: 3, environmentName: "vm-1" }]);
+            expect(result.unavailable.map((f: { environmentId: number }) => f.environmentId)).toEqual([2]);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/3/docker/containers/web/json", {});
+        });
+
+        it("should reject an empty identifier", async () => {
+            expect(await instance.getFleetContainerDetails("")).toBeUndefined();
+            expect(instance.getEnvironments).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GitStacksMixin } from "../../src/mixins/GitStacksMixin.ts";
+import { NotFoundError, ValidationError } from "../../src/errors.ts";
+
+class MockBase {
+    auth = {
+        axiosInstance: {
+            put: vi.fn()
+        },
+        strict: false,
+        PortainerUrl: "https://portainer.example.com"
+    };
+    getStack = vi.fn();
+}
+
+const GitStacksClass = GitStacksMixin(MockBase as any);
+
+const gitStack = (overrides: Record<string, unknown> = {}) => ({
+    Id: 4,
+    Name: "web",
+    EndpointId: 1,
+    Env: [{ name: "MODE", value: "prod" }],
+    GitConfig: {
+        URL: "https://git.example.com/ops/web.git",
+        ReferenceName: "refs/heads/main",
+        ConfigFilePath: "docker-compose.yml",
+        ConfigHash: "abc123",
+        Authentication: null
+    },
+    AutoUpdate: { Interval: "", Webhook: "5d1c2f1e-0000-4000-8000-000000000000", ForceUpdate: false, ForcePullImage: false },
+    ...overrides
+});
+
+describe("Git Stacks Mixin Tests", () => {
+    let instance: InstanceType<typeof GitStacksClass>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        instance = new GitStacksClass();
+    });
+
+    describe("redeployGitStack()", () => {
+        it("should pull and redeploy keeping the reference and variables", async () => {
+            instance.getStack.mockResolvedValue(gitStack());
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: gitStack({ GitConfig: { ConfigHash: "def456" } }) });
+
+            const result = await instance.redeployGitStack(4);
+
+            expect(result?.GitConfig?.ConfigHash).toBe("def456");
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/stacks/4/git/redeploy?endpointId=1", {
+                RepositoryReferenceName: "refs/heads/main",
+                RepositoryAuthentication: false,
+                Env: [{ name: "MODE", value: "prod" }],
+                Prune: false,
+                PullImage: true
+            }, {});
+        });
+
+        it("should redeploy in the stack's own environment", async () => {
+            instance.getStack.mockResolvedValue(gitStack({ EndpointId: 3 }));
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: gitStack({ EndpointId: 3 }) });
+
+            await instance.redeployGitStack(4);
+
+            expect(instance.auth.axiosInstance.put.mock.calls[0]![0]).toBe("/api/stacks/4/git/redeploy?endpointId=3");
+        });
+
+        it("should switch reference and pass new settings", async () => {
+            instance.getStack.mockResolvedValue(gitStack());
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: gitStack() });
+
+            await instance.redeployGitStack(4, {
+                reference: "refs/tags/v2.0.0",
+                credentials: { username: "ci", password: "token" },
+                env: [],
+                prune: true,
+                pullImage: false
+            }, 3);
+
+            const [url, payload] = instance.auth.axiosInstance.put.mock.calls[0]!;
+            expect(url).toBe("/api/stacks/4/git/redeploy?endpointId=3");
+            expect(payload).toEqual({
+                RepositoryReferenceName: "refs/tags/v2.0.0",
+                RepositoryAuthentication: true,
+                RepositoryUsername: "ci",
+                RepositoryPassword: "token",
+                Env: [],
+                Prune: true,
+                PullImage: false
+            });
+        });
+
+        it("should keep using the credentials saved with the stack", async () => {
+            instance.getStack.mockResolvedValue(gitStack({
+                GitConfig: { ...gitStack().GitConfig, Authentication: { Username: "ci", Password: "", GitCredentialID: 2 } }
+            }));
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: gitStack() });
+
+            await instance.redeployGitStack(4);
+
+            expect(instance.auth.axiosInstance.put.mock.calls[0]![1]).toMatchObject({
+                RepositoryAuthentication: true,
+                RepositoryUsername: "ci",
+                RepositoryGitCredentialID: 2
+            });
+        });
+
+        it("should refuse stacks that are not deployed from Git", async () => {
+            instance.auth.strict = true;
+            instance.getStack.mockResolvedValue({ Id: 4, Name: "web", EndpointId: 1 });
+
+            await expect(instance.redeployGitStack(4)).rejects.toBeInstanceOf(ValidationError);
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+
+        it("should return undefined on API errors", async () => {
+            instance.getStack.mockResolvedValue(gitStack());
+            instance.auth.axiosInstance.put.mockRejectedValue(new Error("authentication required"));
+
+            expect(await instance.redeployGitStack(4)).toBeUndefined();
+        });
+
+        it("should reject invalid arguments", async () => {
+            expect(await instance.redeployGitStack(0)).toBeUndefined();
+            expect(await instance.redeployGitStack(4, { credentials: { gitCredentialId: -1 } })).toBeUndefined();
+            expect(instance.getStack).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getDeployedCommit()", () => {
+        it("should return the deployed commit", async () => {
+            instance.getStack.mockResolvedValue(gitStack());
+
+            expect(await instance.getDeployedCommit(4)).toBe("abc123");
+            expect(instance.getStack).toHaveBeenCalledWith(4, {});
+        });
+
+        it("should return undefined for stacks that are not deployed from Git", async () => {
+            instance.getStack.mockResolvedValue({ Id: 4, Name: "web", EndpointId: 1 });
+
+            expect(await instance.getDeployedCommit(4)).toBeUndefined();
+        });
+    });
+
+    describe("getStackWebhookUrl()", () => {
+        it("should build the webhook URL", async () => {
+            instance.getStack.mockResolvedValue(gitStack());
+
+            expect(await instance.getStackWebhookUrl(4)).toBe("https://portainer.example.com/api/stacks/webhooks/5d1c2f1e-0000-4000-8000-000000000000");
+        });
+
+        it("should fail when the stack has no webhook", async () => {
+            instance.auth.strict = true;
+            instance.getStack.mockResolvedValue(gitStack({ AutoUpdate: null }));
+
+            await expect(instance.getStackWebhookUrl(4)).rejects.toBeInstanceOf(NotFoundError);
+        });
+    });
+});
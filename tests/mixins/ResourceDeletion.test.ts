@@ -33,6 +33,17 @@ describe("Resource Deletion Mixin Tests", () => {
             expect(result).toBe(false); // No container found, so returns false
         });
 
+        it("should look the container up in the given environment", async () => {
+            instance.getContainers.mockResolvedValue([{ Id: "abc123", Names: ["/test"], State: "exited" }]);
+            instance.auth.axiosInstance.delete.mockResolvedValue({});
+
+            const result = await instance.cleanupExistingContainer("test", 3);
+
+            expect(result).toBe(true);
+            expect(instance.getContainers).toHaveBeenCalledWith(true, 3, {});
+            expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith("/api/endpoints/3/docker/containers/abc123", {});
+        });
+
         it("should reject invalid containerName types", async () => {
             const result1 = await instance.cleanupExistingContainer(null as any);
             const result2 = await instance.cleanupExistingContainer(undefined as any);
@@ -99,7 +110,9 @@ describe("Resource Deletion Mixin Tests", () => {
 
             expect(result).toBe(true);
             expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith(
-                "/api/endpoints/1/docker/containers/abc123/stop"
+                "/api/endpoints/1/docker/containers/abc123/stop",
+                null,
+                {}
             );
         });
 
@@ -138,7 +151,8 @@ describe("Resource Deletion Mixin Tests", () => {
 
             expect(result).toBe(true);
             expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith(
-                "/api/endpoints/1/docker/containers/abc123"
+                "/api/endpoints/1/docker/containers/abc123",
+                {}
             );
         });
 
@@ -256,7 +270,8 @@ describe("Resource Deletion Mixin Tests", () => {
             await instance.deleteStack(123, 1);
 
             expect(instance.auth.axiosInstance.delete).toHaveBeenCalledWith(
-                "/api/stacks/123?endpointId=1"
+                "/api/stacks/123?endpointId=1",
+                {}
             );
         });
 
@@ -1,12 +1,15 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CanceledError } from "axios";
 import { ResourceFetchingMixin } from "../../src/mixins/ResourceFetchingMixin.ts";
+import { AbortError, NotFoundError, TimeoutError, ValidationError } from "../../src/errors.ts";
 
 class MockBase {
     auth = {
         axiosInstance: {
             get: vi.fn()
         },
-        isValidated: true
+        isValidated: true,
+        ensureValidated: vi.fn(async () => this.auth.isValidated)
     };
     ensureEnvId = vi.fn();
 }
@@ -43,10 +46,99 @@ describe("Resource Fetching Mixin Tests", () => {
 
             const result = await instance.getStacks();
 
-            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/stacks");
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/stacks", {});
             expect(result).toEqual([{ Id: 1, Name: "Test Stack" }]);
         });
+        it("should only return the environment's stacks on a scoped view", async () => {
+            instance.scoped = true;
+            instance.ensureEnvId.mockResolvedValue(2);
+            instance.auth.axiosInstance.get.mockResolvedValue({
+                data: [{ Id: 1, Name: "web", EndpointId: 1 }, { Id: 2, Name: "web", EndpointId: 2 }]
+            });
+
+            const result = await instance.getStacks();
+
+            expect(result).toEqual([{ Id: 2, Name: "web", EndpointId: 2 }]);
+        });
+    });
+
+    describe("getStack()", () => {
+        it("should fetch a single stack", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Id: 4, Name: "web", EndpointId: 1 } });
+
+            const result = await instance.getStack(4);
+
+            expect(result).toEqual({ Id: 4, Name: "web", EndpointId: 1 });
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/stacks/4", {});
+        });
+
+        it("should reject an invalid stack ID", async () => {
+            const result = await instance.getStack(-1);
+
+            expect(result).toBeUndefined();
+            expect(instance.auth.axiosInstance.get).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getStackContainers() and getStackServices()", () => {
+        const container = (id: string, labels: Record<string, string>, state = "running") => ({ Id: id, Names: [`/${id}`], Image: "nginx", Labels: labels, State: state, Status: "" });
+        const compose = (service: string) => ({ "com.docker.compose.project": "web", "com.docker.compose.service": service });
+        const containers = [
+            container("api-1", compose("api")),
+            container("api-2", compose("api"), "exited"),
+            container("db-1", compose("db")),
+            container("other-1", { "com.docker.compose.project": "other", "com.docker.compose.service": "api" }),
+            container("plain", {})
+        ];
+
+        beforeEach(() => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) => {
+                if (url === "/api/stacks") {
+                    return { data: [{ Id: 4, Name: "Web", EndpointId: 2, Type: 2 }] };
+                }
+                if (url === "/api/stacks/4") {
+                    return { data: { Id: 4, Name: "Web", EndpointId: 2, Type: 2 } };
+                }
+                return { data: containers };
+            });
+        });
+
+        it("should return the containers of a stack from its environment", async () => {
+            const result = await instance.getStackContainers(4);
+
+            expect(result).toEqual([containers[0], containers[1], containers[2]]);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/2/docker/containers/json", { params: { all: true } });
+        });
+
+        it("should group the containers by service with state counts", async () => {
+            const result = await instance.getStackServices("Web");
+
+            expect(result).toEqual([
+                { name: "api", containers: [containers[0], containers[1]], states: { running: 1, exited: 1 } },
+                { name: "db", containers: [containers[2]], states: { running: 1 } }
+            ]);
+        });
+
+        it("should map Swarm tasks to their services", async () => {
+            instance.auth.axiosInstance.get.mockImplementation(async (url: string) => url === "/api/stacks/5"
+                ? { data: { Id: 5, Name: "web", EndpointId: 1, Type: 1 } }
+                : { data: [container("web_api.1.x", { "com.docker.stack.namespace": "web", "com.docker.swarm.service.name": "web_api" })] });
+
+            const result = await instance.getStackServices(5);
+
+            expect(result).toMatchObject([{ name: "api", states: { running: 1 } }]);
+        });
+
+        it("should fail for unknown or ambiguous stack names", async () => {
+            (instance.auth as any).strict = true;
+
+            await expect(instance.getStackContainers("missing")).rejects.toBeInstanceOf(NotFoundError);
+
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: [{ Id: 4, Name: "web", EndpointId: 1 }, { Id: 7, Name: "web", EndpointId: 2 }] });
+            await expect(instance.getStackServices("web")).rejects.toBeInstanceOf(ValidationError);
+        });
     });
+
     describe("getContainers()", () => {
         it("should accept undefined for optional environmentId parameter", async () => {
             instance.ensureEnvId.mockResolvedValue(1);
@@ -140,7 +232,7 @@ describe("Resource Fetching Mixin Tests", () => {
 
             const result = await instance.getStatus();
 
-            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/system/status");
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/system/status", {});
             expect(result).toEqual(mockStatus);
         });
     });
@@ -299,7 +391,8 @@ describe("Resource Fetching Mixin Tests", () => {
             const result = await instance.getImages(1);
 
             expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith(
-                "/api/endpoints/1/docker/images/json"
+                "/api/endpoints/1/docker/images/json",
+                {}
             );
             expect(result).toEqual(mockImages);
         });
@@ -312,4 +405,56 @@ describe("Resource Fetching Mixin Tests", () => {
             expect(result).toBeUndefined();
         });
     });
-});
\ No newline at end of file
+
+    describe("cancellation", () => {
+        const canceled = (signal: AbortSignal) => new CanceledError(undefined, { signal } as any);
+
+        it("should pass the signal to axios", async () => {
+            const controller = new AbortController();
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: [] });
+
+            await instance.getStacks({ signal: controller.signal });
+
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/stacks", { signal: controller.signal });
+        });
+
+        it("should pass a deadline signal to axios for timeoutMs", async () => {
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: [] });
+
+            await instance.getContainers(true, 1, { timeoutMs: 1000 });
+
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith(
+                "/api/endpoints/1/docker/containers/json",
+                { signal: expect.any(AbortSignal), params: { all: true } }
+            );
+        });
+
+        it("should reject with an AbortError outside strict mode", async () => {
+            const controller = new AbortController();
+            controller.abort();
+            instance.auth.axiosInstance.get.mockRejectedValue(canceled(controller.signal));
+
+            await expect(instance.getStacks({ signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+        });
+
+        it("should reject with a TimeoutError when timeoutMs passes", async () => {
+            instance.auth.axiosInstance.get.mockImplementation((_url: string, config: { signal: AbortSignal }) =>
+                new Promise((_resolve, reject) => {
+                    config.signal.addEventListener("abort", () => reject(canceled(config.signal)));
+                })
+            );
+
+            await expect(instance.getImages(1, { timeoutMs: 10 })).rejects.toBeInstanceOf(TimeoutError);
+        });
+
+        it("should not swallow an abort while looking up a container by ID", async () => {
+            const controller = new AbortController();
+            controller.abort();
+            instance.auth.axiosInstance.get
+                .mockResolvedValueOnce({ data: [{ Id: "abc123", Names: ["/test"], State: "running" }] })
+                .mockRejectedValueOnce(canceled(controller.signal));
+
+            await expect(instance.getContainerDetails("test", 1, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+        });
+    });
+});
@@ -1,11 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { StackControlsMixin } from "../../src/mixins/StackControlsMixin.ts";
+import { MemoryStackHistoryStore } from "../../src/history.ts";
 import { PortainerAuth } from "../../src/auth.ts";
+import { AbortError, EnvironmentUnavailableError, NotFoundError, PortainerError, TimeoutError, ValidationError } from "../../src/errors.ts";
 
 class MockBase {
     auth = {
         axiosInstance: {
-            post: vi.fn()
+            get: vi.fn(),
+            post: vi.fn(),
+            put: vi.fn()
         }
     };
     ensureEnvId = vi.fn();
@@ -30,7 +34,7 @@ describe("Stack Controls Mixin Tests", () => {
             
             expect(instance.ensureEnvId).toHaveBeenCalled();
             expect(result).toBe(true);
-            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/start?endpointId=1");
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/start?endpointId=1", null, {});
         });
 
         it("should handle undefined environment IDs gracefully", async () => {
@@ -83,7 +87,7 @@ describe("Stack Controls Mixin Tests", () => {
             const result = await instance.startStack(123, 1);
             
             expect(result).toBe(true);
-            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/start?endpointId=1");
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/start?endpointId=1", null, {});
         });
     });
 
@@ -96,7 +100,7 @@ describe("Stack Controls Mixin Tests", () => {
             
             expect(instance.ensureEnvId).toHaveBeenCalled();
             expect(result).toBe(true);
-            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/stop?endpointId=1");
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/stop?endpointId=1", null, {});
         });
 
         it("should handle undefined environment IDs gracefully", async () => {
@@ -149,7 +153,425 @@ describe("Stack Controls Mixin Tests", () => {
             const result = await instance.stopStack(123, 1);
             
             expect(result).toBe(true);
-            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/stop?endpointId=1");
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/stop?endpointId=1", null, {});
         });
     });
-});
\ No newline at end of file
+
+    describe("updateStack()", () => {
+        beforeEach(() => {
+            (instance as any).getStack = vi.fn().mockResolvedValue({ Id: 123, Name: "web", EndpointId: 1, Env: [{ name: "MODE", value: "prod" }, { name: "TOKEN", value: "a" }] });
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: { Id: 123, Name: "web", EndpointId: 1 } });
+        });
+
+        it("should keep the environment variables and return the updated stack", async () => {
+            const result = await instance.updateStack(123, "services: {}", 1);
+
+            expect(result).toEqual({ Id: 123, Name: "web", EndpointId: 1 });
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/stacks/123?endpointId=1", {
+                StackFileContent: "services: {}",
+                Env: [{ name: "MODE", value: "prod" }, { name: "TOKEN", value: "a" }],
+                Prune: false,
+                PullImage: true,
+                RepullImageAndRedeploy: false
+            }, {});
+        });
+
+        it("should pass prune and re-pull settings and merge variables", async () => {
+            await instance.updateStack(123, "services: {}", 1, { prune: true, pullImage: false, repullAndRedeploy: true, env: { merge: { TOKEN: "b", NEW: "c" } } });
+
+            expect(instance.auth.axiosInstance.put.mock.calls[0][1]).toEqual({
+                StackFileContent: "services: {}",
+                Env: [{ name: "MODE", value: "prod" }, { name: "TOKEN", value: "b" }, { name: "NEW", value: "c" }],
+                Prune: true,
+                PullImage: false,
+                RepullImageAndRedeploy: true
+            });
+        });
+
+        it("should replace variables without fetching the stack", async () => {
+            await instance.updateStack(123, "services: {}", 1, { env: { replace: { MODE: "dev" } } });
+
+            expect((instance as any).getStack).not.toHaveBeenCalled();
+            expect(instance.auth.axiosInstance.put.mock.calls[0][1].Env).toEqual([{ name: "MODE", value: "dev" }]);
+        });
+
+        it("should take a boolean as pullImage", async () => {
+            await instance.updateStack(123, "services: {}", 1, false);
+
+            expect(instance.auth.axiosInstance.put.mock.calls[0][1].PullImage).toBe(false);
+        });
+
+        it("should reject invalid env settings", async () => {
+            (instance.auth as any).strict = true;
+
+            await expect(instance.updateStack(123, "services: {}", 1, { env: "drop" as any })).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.updateStack(123, "services: {}", 1, { env: { merge: { "A B": "x" } } })).rejects.toBeInstanceOf(ValidationError);
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+
+        it("should return undefined when the update fails", async () => {
+            instance.auth.axiosInstance.put.mockRejectedValue(new Error("API Error"));
+
+            expect(await instance.updateStack(123, "services: {}", 1)).toBeUndefined();
+        });
+    });
+
+    describe("redeployStack()", () => {
+        const container = (id: string, imageId: string, state = "running") => ({ Id: id, Image: "acme/api:latest", ImageID: imageId, State: state });
+
+        beforeEach(() => {
+            (instance as any).getStack = vi.fn().mockResolvedValue({ Id: 123, Name: "web", EndpointId: 1, Type: 2, Env: [{ name: "MODE", value: "prod" }] });
+            (instance as any).getStackFileContent = vi.fn().mockResolvedValue("services: {}");
+            (instance as any).getStackServices = vi.fn()
+                .mockResolvedValueOnce([
+                    { name: "api", containers: [container("a1", "sha256:old")], states: { running: 1 } },
+                    { name: "db", containers: [container("d1", "sha256:db")], states: { running: 1 } }
+                ])
+                .mockResolvedValue([
+                    { name: "api", containers: [container("a2", "sha256:new")], states: { running: 1 } },
+                    { name: "db", containers: [container("d1", "sha256:db")], states: { running: 1 } }
+                ]);
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: { Id: 123, Name: "web", EndpointId: 1 } });
+        });
+
+        it("should resubmit the stack file with freshly pulled images and report changed services", async () => {
+            const result = await instance.redeployStack(123, 1);
+
+            expect(result).toEqual({ stack: { Id: 123, Name: "web", EndpointId: 1 }, changed: ["api"], unchanged: ["db"] });
+            expect(instance.auth.axiosInstance.post).not.toHaveBeenCalled();
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/stacks/123?endpointId=1", {
+                StackFileContent: "services: {}",
+                Env: [{ name: "MODE", value: "prod" }],
+                Prune: false,
+                PullImage: true,
+                RepullImageAndRedeploy: false
+            }, {});
+        });
+
+        it("should force recreation when asked", async () => {
+            await instance.redeployStack(123, 1, { force: true });
+
+            expect(instance.auth.axiosInstance.put.mock.calls[0][1].RepullImageAndRedeploy).toBe(true);
+        });
+
+        it("should wait until every service runs on the image its tag now points to", async () => {
+            (instance as any).getStackServices = vi.fn()
+                .mockResolvedValueOnce([{ name: "api", containers: [container("a1", "sha256:old")], states: { running: 1 } }])
+                .mockResolvedValueOnce([{ name: "api", containers: [container("a1", "sha256:old"), container("a2", "sha256:new", "created")], states: {} }])
+                .mockResolvedValue([{ name: "api", containers: [container("a2", "sha256:new")], states: { running: 1 } }]);
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Id: "sha256:new" } });
+
+            const result = await instance.redeployStack(123, 1, { wait: true, waitTimeoutMs: 1000, intervalMs: 5 });
+
+            expect(result?.changed).toEqual(["api"]);
+            expect((instance as any).getStackServices).toHaveBeenCalledTimes(4);
+            expect(instance.auth.axiosInstance.get).toHaveBeenCalledWith("/api/endpoints/1/docker/images/acme%2Fapi%3Alatest/json", expect.anything());
+        });
+
+        it("should name the services still on their old image when the wait times out", async () => {
+            (instance.auth as any).strict = true;
+            (instance as any).getStackServices = vi.fn().mockResolvedValue([{ name: "api", containers: [container("a1", "sha256:old")], states: { running: 1 } }]);
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Id: "sha256:new" } });
+
+            const result = instance.redeployStack(123, 1, { wait: true, waitTimeoutMs: 30, intervalMs: 5 });
+
+            await expect(result).rejects.toBeInstanceOf(TimeoutError);
+            await expect(result).rejects.toThrow("still waiting for services api");
+        });
+
+        it("should refuse Git-backed stacks", async () => {
+            (instance as any).getStack = vi.fn().mockResolvedValue({ Id: 123, Name: "web", EndpointId: 1, GitConfig: { URL: "https://git.example.com/web.git" } });
+
+            expect(await instance.redeployStack(123, 1)).toBeUndefined();
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+
+        it("should fail for a stack without a stack file", async () => {
+            (instance as any).getStackFileContent = vi.fn().mockResolvedValue(undefined);
+
+            expect(await instance.redeployStack(123, 1)).toBeUndefined();
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("stack history", () => {
+        let current: { composeContent: string; env: Array<{ name: string; value: string }> };
+
+        beforeEach(() => {
+            (instance.auth as any).history = new MemoryStackHistoryStore();
+            current = { composeContent: "services: { api: { image: 'acme/api:1' } }", env: [{ name: "MODE", value: "prod" }] };
+            (instance as any).getStack = vi.fn(async () => ({ Id: 123, Name: "web", EndpointId: 1, Env: current.env }));
+            (instance as any).getStackFileContent = vi.fn(async () => current.composeContent);
+            instance.auth.axiosInstance.put.mockImplementation(async (_url: string, body: any) => {
+                current = { composeContent: body.StackFileContent, env: body.Env };
+                return { data: { Id: 123, Name: "web", EndpointId: 1 } };
+            });
+        });
+
+        it("should save the previous file and variables before every update", async () => {
+            await instance.updateStack(123, "services: { api: { image: 'acme/api:2' } }", 1, { env: { replace: { MODE: "dev" } } });
+            await instance.updateStack(123, "services: { api: { image: 'acme/api:3' } }", 1);
+
+            const history = await instance.getStackHistory(123);
+
+            expect(history).toEqual([
+                { stackId: 123, version: 1, composeContent: "services: { api: { image: 'acme/api:1' } }", env: { MODE: "prod" }, savedAt: expect.any(Number) },
+                { stackId: 123, version: 2, composeContent: "services: { api: { image: 'acme/api:2' } }", env: { MODE: "dev" }, savedAt: expect.any(Number) }
+            ]);
+        });
+
+        it("should not save an unchanged state twice", async () => {
+            await instance.updateStack(123, current.composeContent, 1);
+            await instance.updateStack(123, current.composeContent, 1);
+
+            expect(await instance.getStackHistory(123)).toHaveLength(1);
+        });
+
+        it("should roll back to the state before the last update", async () => {
+            await instance.updateStack(123, "services: { api: { image: 'acme/api:2' } }", 1, { env: { merge: { DEBUG: "1" } } });
+
+            const result = await instance.rollbackStack(123);
+
+            expect(result).toEqual({ Id: 123, Name: "web", EndpointId: 1 });
+            expect(instance.auth.axiosInstance.put).toHaveBeenLastCalledWith("/api/stacks/123?endpointId=1", {
+                StackFileContent: "services: { api: { image: 'acme/api:1' } }",
+                Env: [{ name: "MODE", value: "prod" }],
+                Prune: false,
+                PullImage: false,
+                RepullImageAndRedeploy: false
+            }, {});
+            expect((await instance.getStackHistory(123))?.at(-1)?.env).toEqual({ MODE: "prod", DEBUG: "1" });
+        });
+
+        it("should roll back to a given version", async () => {
+            await instance.updateStack(123, "services: { api: { image: 'acme/api:2' } }", 1);
+            await instance.updateStack(123, "services: { api: { image: 'acme/api:3' } }", 1);
+
+            await instance.rollbackStack(123, 2);
+
+            expect(current.composeContent).toBe("services: { api: { image: 'acme/api:2' } }");
+        });
+
+        it("should fail for unknown versions or without a history store", async () => {
+            (instance.auth as any).strict = true;
+
+            await expect(instance.rollbackStack(123)).rejects.toBeInstanceOf(NotFoundError);
+            await expect(instance.rollbackStack(123, 0)).rejects.toBeInstanceOf(ValidationError);
+
+            (instance.auth as any).history = null;
+            await expect(instance.getStackHistory(123)).rejects.toBeInstanceOf(ValidationError);
+        });
+
+        it("should fail the update when the version cannot be saved", async () => {
+            (instance.auth as any).history = { list: vi.fn().mockResolvedValue([]), add: vi.fn().mockRejectedValue(new Error("disk full")) };
+
+            expect(await instance.updateStack(123, "services: {}", 1)).toBeUndefined();
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+
+        it("should roll back automatically when the services do not come up healthy", async () => {
+            (instance.auth as any).strict = true;
+            (instance as any).getStackServices = vi.fn().mockResolvedValue([
+                { name: "api", containers: [{ Id: "a1", Image: "acme/api:2", ImageID: "sha256:2", State: "running", Status: "Up 3 seconds (unhealthy)" }], states: { running: 1 } }
+            ]);
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Id: "sha256:2" } });
+
+            const result = instance.updateStack(123, "services: { api: { image: 'acme/api:2' } }", 1, { rollbackOnFailure: true, waitTimeoutMs: 30, intervalMs: 5 });
+
+            await expect(result).rejects.toThrow("Stack 123 failed verification and was rolled back");
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledTimes(2);
+            expect(current.composeContent).toBe("services: { api: { image: 'acme/api:1' } }");
+        });
+
+        it("should not roll back when the services come up healthy", async () => {
+            (instance as any).getStackServices = vi.fn().mockResolvedValue([
+                { name: "api", containers: [{ Id: "a1", Image: "acme/api:2", ImageID: "sha256:2", State: "running", Status: "Up 3 seconds (healthy)" }], states: { running: 1 } }
+            ]);
+            instance.auth.axiosInstance.get.mockResolvedValue({ data: { Id: "sha256:2" } });
+
+            const result = await instance.updateStack(123, "services: { api: { image: 'acme/api:2' } }", 1, { rollbackOnFailure: true, waitTimeoutMs: 1000, intervalMs: 5 });
+
+            expect(result).toEqual({ Id: 123, Name: "web", EndpointId: 1 });
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("getStackStatus()", () => {
+        it("should report whether the stack is running", async () => {
+            (instance as any).getStack = vi.fn()
+                .mockResolvedValueOnce({ Id: 123, Name: "web", Status: 1 })
+                .mockResolvedValueOnce({ Id: 123, Name: "web", Status: 2 });
+
+            expect(await instance.getStackStatus(123)).toBe("active");
+            expect(await instance.getStackStatus(123)).toBe("inactive");
+            expect((instance as any).getStack).toHaveBeenCalledWith(123, {});
+        });
+
+        it("should fail on an unknown status", async () => {
+            (instance.auth as any).strict = true;
+            (instance as any).getStack = vi.fn().mockResolvedValue({ Id: 123, Name: "web", Status: 7 });
+
+            await expect(instance.getStackStatus(123)).rejects.toBeInstanceOf(PortainerError);
+        });
+    });
+
+    describe("waitForStackStatus()", () => {
+        it("should resolve once the stack has the status", async () => {
+            (instance as any).getStack = vi.fn()
+                .mockResolvedValueOnce({ Id: 123, Name: "web", Status: 2 })
+                .mockResolvedValueOnce({ Id: 123, Name: "web", Status: 1 });
+
+            expect(await instance.waitForStackStatus(123, "active", { timeoutMs: 1000, intervalMs: 5 })).toBe(true);
+            expect((instance as any).getStack).toHaveBeenCalledTimes(2);
+        });
+
+        it("should name the current status when it times out", async () => {
+            (instance.auth as any).strict = true;
+            (instance as any).getStack = vi.fn().mockResolvedValue({ Id: 123, Name: "web", Status: 1 });
+
+            const wait = instance.waitForStackStatus(123, "inactive", { timeoutMs: 30, intervalMs: 5 });
+
+            await expect(wait).rejects.toBeInstanceOf(TimeoutError);
+            await expect(wait).rejects.toThrow("Stack 123 did not become inactive within 30ms (still active)");
+        });
+
+        it("should stop when the stack cannot be fetched", async () => {
+            (instance as any).getStack = vi.fn().mockResolvedValue(undefined);
+
+            expect(await instance.waitForStackStatus(123, "active", { timeoutMs: 1000, intervalMs: 5 })).toBe(false);
+            expect((instance as any).getStack).toHaveBeenCalledTimes(1);
+        });
+
+        it("should reject an invalid status", async () => {
+            (instance.auth as any).strict = true;
+
+            await expect(instance.waitForStackStatus(123, "running" as any)).rejects.toBeInstanceOf(ValidationError);
+        });
+
+        it("should stop when the caller aborts", async () => {
+            (instance as any).getStack = vi.fn().mockResolvedValue({ Id: 123, Name: "web", Status: 2 });
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 20);
+
+            await expect(instance.waitForStackStatus(123, "active", { timeoutMs: 5000, intervalMs: 5, signal: controller.signal }))
+                .rejects.toBeInstanceOf(AbortError);
+        });
+    });
+
+    describe("stack environment variables", () => {
+        const stack = (overrides: Record<string, unknown> = {}) => ({
+            Id: 123,
+            Name: "web",
+            EndpointId: 2,
+            Env: [{ name: "MODE", value: "prod" }, { name: "DB_PASSWORD", value: "old" }],
+            ...overrides
+        });
+
+        beforeEach(() => {
+            (instance as any).getStack = vi.fn().mockResolvedValue(stack());
+            (instance as any).getStackFileContent = vi.fn().mockResolvedValue("services: {}");
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: {} });
+        });
+
+        it("should return the variables by name", async () => {
+            expect(await instance.getStackEnv(123)).toEqual({ MODE: "prod", DB_PASSWORD: "old" });
+        });
+
+        it("should replace all variables and keep the compose file", async () => {
+            expect(await instance.setStackEnv(123, { MODE: "staging" })).toBe(true);
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledWith("/api/stacks/123?endpointId=2", {
+                StackFileContent: "services: {}",
+                Env: [{ name: "MODE", value: "staging" }],
+                Prune: false,
+                PullImage: false,
+                RepullImageAndRedeploy: false
+            }, {});
+        });
+
+        it("should set and unset variables, keeping the others", async () => {
+            expect(await instance.patchStackEnv(123, { set: { DB_PASSWORD: "new", TOKEN: "t" }, unset: ["MODE"] })).toBe(true);
+            expect(instance.auth.axiosInstance.put.mock.calls[0][1].Env).toEqual([
+                { name: "DB_PASSWORD", value: "new" },
+                { name: "TOKEN", value: "t" }
+            ]);
+        });
+
+        it("should refuse Git-backed stacks", async () => {
+            (instance.auth as any).strict = true;
+            (instance as any).getStack = vi.fn().mockResolvedValue(stack({ GitConfig: { URL: "https://git.example.com/web.git" } }));
+
+            await expect(instance.patchStackEnv(123, { set: { MODE: "dev" } })).rejects.toThrow("use redeployGitStack() with env instead");
+            expect(instance.auth.axiosInstance.put).not.toHaveBeenCalled();
+        });
+
+        it("should reject invalid variables", async () => {
+            (instance.auth as any).strict = true;
+
+            await expect(instance.setStackEnv(123, { "BAD=NAME": "x" })).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.setStackEnv(123, { PORT: 80 } as any)).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.patchStackEnv(123, {})).rejects.toBeInstanceOf(ValidationError);
+            await expect(instance.patchStackEnv(123, { unset: "MODE" } as any)).rejects.toBeInstanceOf(ValidationError);
+            expect((instance as any).getStack).not.toHaveBeenCalled();
+        });
+
+        it("should return false when the update fails", async () => {
+            instance.auth.axiosInstance.put.mockRejectedValue(new Error("API Error"));
+
+            expect(await instance.patchStackEnv(123, { unset: ["MODE"] })).toBe(false);
+        });
+    });
+
+    describe("cancellation", () => {
+        it("should pass the signal to axios", async () => {
+            const controller = new AbortController();
+            instance.auth.axiosInstance.post.mockResolvedValue({ data: {} });
+
+            await instance.startStack(123, 1, { signal: controller.signal });
+
+            expect(instance.auth.axiosInstance.post).toHaveBeenCalledWith("/api/stacks/123/start?endpointId=1", null, { signal: controller.signal });
+        });
+
+        it("should abort redeployStack while it waits for the new images", async () => {
+            const controller = new AbortController();
+            (instance as any).getStack = vi.fn().mockResolvedValue({ Id: 123, Name: "web", EndpointId: 1 });
+            (instance as any).getStackFileContent = vi.fn().mockResolvedValue("services: {}");
+            (instance as any).getStackServices = vi.fn().mockResolvedValue([{ name: "api", containers: [], states: {} }]);
+            instance.auth.axiosInstance.put.mockResolvedValue({ data: { Id: 123 } });
+
+            const result = instance.redeployStack(123, 1, { signal: controller.signal, wait: true, intervalMs: 5 });
+            setTimeout(() => controller.abort(), 20);
+
+            await expect(result).rejects.toBeInstanceOf(AbortError);
+            expect(instance.auth.axiosInstance.put).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("strict mode", () => {
+        beforeEach(() => {
+            (instance.auth as any).strict = true;
+        });
+
+        it("should throw a ValidationError for invalid stack IDs", async () => {
+            await expect(instance.startStack(-1)).rejects.toBeInstanceOf(ValidationError);
+        });
+
+        it("should throw an EnvironmentUnavailableError when no environment is available", async () => {
+            instance.ensureEnvId.mockResolvedValue(null);
+
+            await expect(instance.stopStack(123)).rejects.toBeInstanceOf(EnvironmentUnavailableError);
+        });
+
+        it("should throw a NotFoundError carrying the status and endpoint when Portainer returns 404", async () => {
+            const { AxiosError } = await import("axios");
+            const error = new AxiosError("Request failed with status code 404", "ERR_BAD_REQUEST",
+                { url: "/api/stacks/999/start?endpointId=1", method: "post" } as any, {},
+                { status: 404, data: { message: "Stack not found" } } as any);
+            instance.auth.axiosInstance.post.mockRejectedValue(error);
+
+            const result = instance.startStack(999, 1);
+
+            await expect(result).rejects.toBeInstanceOf(NotFoundError);
+            await expect(result).rejects.toMatchObject({ status: 404, endpoint: "/api/stacks/999/start?endpointId=1" });
+        });
+    });
+});
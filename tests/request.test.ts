@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { delay, requestConfig, withDeadline } from "../src/request.ts";
+
+describe("Request Options Tests", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe("withDeadline()", () => {
+        it("should return empty options when nothing is set", () => {
+            expect(withDeadline()).toEqual({});
+            expect(withDeadline({})).toEqual({});
+        });
+
+        it("should pass the caller's signal through", () => {
+            const controller = new AbortController();
+
+            expect(withDeadline({ signal: controller.signal }).signal).toBe(controller.signal);
+        });
+
+        it("should abort with a TimeoutError once timeoutMs passes", async () => {
+            const { signal } = withDeadline({ timeoutMs: 5 });
+
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(signal?.aborted).toBe(true);
+            expect(signal?.reason.name).toBe("TimeoutError");
+        });
+
+        it("should abort when either the signal or the deadline fires", () => {
+            const controller = new AbortController();
+            const { signal } = withDeadline({ signal: controller.signal, timeoutMs: 60000 });
+
+            controller.abort();
+
+            expect(signal?.aborted).toBe(true);
+            expect(signal?.reason.name).toBe("AbortError");
+        });
+
+        it("should keep the priority", () => {
+            expect(withDeadline({ priority: "background" })).toEqual({ priority: "background" });
+            expect(withDeadline({ priority: "interactive", timeoutMs: 60000 }).priority).toBe("interactive");
+        });
+    });
+
+    describe("requestConfig()", () => {
+        it("should only set the signal when there is one", () => {
+            const controller = new AbortController();
+
+            expect(requestConfig()).toEqual({});
+            expect(requestConfig({ signal: controller.signal })).toEqual({ signal: controller.signal });
+        });
+
+        it("should pass the priority to the scheduler", () => {
+            expect(requestConfig({ priority: "background" })).toEqual({ priority: "background" });
+        });
+    });
+
+    describe("delay()", () => {
+        it("should resolve after the given time", async () => {
+            vi.useFakeTimers();
+            const promise = delay(1000);
+
+            vi.advanceTimersByTime(1000);
+
+            await expect(promise).resolves.toBeUndefined();
+        });
+
+        it("should reject as soon as the signal aborts", async () => {
+            const controller = new AbortController();
+            const promise = delay(60000, controller.signal);
+
+            controller.abort();
+
+            await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+        });
+
+        it("should reject immediately for an aborted signal", async () => {
+            await expect(delay(60000, AbortSignal.abort())).rejects.toMatchObject({ name: "AbortError" });
+        });
+    });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { RetryPolicy, CircuitBreaker, getRetryOptionsFromEnv } from "../src/retry.ts";
+import { AbortError, EnvironmentUnavailableError } from "../src/errors.ts";
+
+const requestConfig = (props: Record<string, unknown> = {}): any => ({ url: "/api/endpoints/1/docker/containers/json", method: "get", headers: {}, ...props });
+const responseError = (status: number, config = requestConfig(), headers: Record<string, string> = {}): any =>
+    ({ config, request: {}, response: { status, headers, data: {} }, message: `Request failed with status code ${status}` });
+const networkError = (code: string, config = requestConfig()): any => ({ config, request: {}, code, message: code });
+
+describe("Retry Tests", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+        delete process.env.PORTAINER_RETRY_MAX_ATTEMPTS;
+    });
+
+    describe("RetryPolicy", () => {
+        it("should retry a 502 for GET requests", () => {
+            const policy = new RetryPolicy({ baseDelayMs: 100 });
+
+            const delay = policy.getRetryDelay(responseError(502));
+
+            expect(delay).toBeGreaterThanOrEqual(50);
+            expect(delay).toBeLessThanOrEqual(100);
+        });
+
+        it("should retry connection failures", () => {
+            expect(new RetryPolicy().getRetryDelay(networkError("ECONNRESET"))).not.toBeNull();
+        });
+
+        it("should not retry certificate errors", () => {
+            expect(new RetryPolicy().getRetryDelay(networkError("DEPTH_ZERO_SELF_SIGNED_CERT"))).toBeNull();
+        });
+
+        it("should not retry statuses outside retryOnStatus", () => {
+            const policy = new RetryPolicy();
+
+            expect(policy.getRetryDelay(responseError(404))).toBeNull();
+            expect(policy.getRetryDelay(responseError(500))).toBeNull();
+        });
+
+        it("should honor a custom retryOnStatus", () => {
+            expect(new RetryPolicy({ retryOnStatus: [500] }).getRetryDelay(responseError(500))).not.toBeNull();
+        });
+
+        it("should stop after maxAttempts", () => {
+            const policy = new RetryPolicy({ maxAttempts: 3 });
+            const error = responseError(503);
+
+            expect(policy.getRetryDelay(error)).not.toBeNull();
+            expect(policy.getRetryDelay(error)).not.toBeNull();
+            expect(policy.getRetryDelay(error)).toBeNull();
+        });
+
+        it("should back off exponentially", () => {
+            vi.spyOn(Math, "random").mockReturnValue(1);
+            const policy = new RetryPolicy({ maxAttempts: 5, baseDelayMs: 100 });
+            const error = responseError(503);
+
+            expect(policy.getRetryDelay(error)).toBe(100);
+            expect(policy.getRetryDelay(error)).toBe(200);
+            expect(policy.getRetryDelay(error)).toBe(400);
+        });
+
+        it("should cap delays at maxDelayMs", () => {
+            vi.spyOn(Math, "random").mockReturnValue(1);
+            const policy = new RetryPolicy({ maxAttempts: 10, baseDelayMs: 1000, maxDelayMs: 1500 });
+            const error = responseError(503);
+
+            policy.getRetryDelay(error);
+
+            expect(policy.getRetryDelay(error)).toBe(1500);
+        });
+
+        it("should honor Retry-After", () => {
+            const policy = new RetryPolicy();
+
+            expect(policy.getRetryDelay(responseError(429, requestConfig(), { "retry-after": "2" }))).toBe(2000);
+        });
+
+        it("should not retry POST requests by default", () => {
+            expect(new RetryPolicy().getRetryDelay(responseError(502, requestConfig({ method: "post" })))).toBeNull();
+        });
+
+        it("should retry POST requests when the client opts in", () => {
+            const policy = new RetryPolicy({ retryNonIdempotent: true });
+
+            expect(policy.getRetryDelay(responseError(502, requestConfig({ method: "post" })))).not.toBeNull();
+        });
+
+        it("should retry POST requests when the request opts in", () => {
+            const config = requestConfig({ method: "post", retry: { retryNonIdempotent: true } });
+
+            expect(new RetryPolicy().getRetryDelay(responseError(502, config))).not.toBeNull();
+        });
+
+        it("should not retry requests with retry disabled", () => {
+            expect(new RetryPolicy().getRetryDelay(responseError(502, requestConfig({ retry: false })))).toBeNull();
+        });
+    });
+
+    describe("CircuitBreaker", () => {
+        it("should open after failureThreshold consecutive failures", () => {
+            const breaker = new CircuitBreaker({ failureThreshold: 2 });
+            const config = requestConfig();
+
+            breaker.record(config, responseError(502, config));
+            expect(() => breaker.check(config)).not.toThrow();
+
+            breaker.record(config, networkError("ECONNREFUSED", config));
+            expect(() => breaker.check(config)).toThrow(EnvironmentUnavailableError);
+            expect(breaker.isOpen(1)).toBe(true);
+        });
+
+        it("should keep circuits per environment", () => {
+            const breaker = new CircuitBreaker({ failureThreshold: 1 });
+            const config = requestConfig();
+
+            breaker.record(config, responseError(503, config));
+
+            expect(breaker.isOpen(1)).toBe(true);
+            expect(breaker.isOpen(2)).toBe(false);
+            expect(breaker.isOpen()).toBe(false);
+            expect(() => breaker.check(requestConfig({ url: "/api/endpoints/2/docker/info" }))).not.toThrow();
+            expect(() => breaker.check(requestConfig({ url: "/api/stacks" }))).not.toThrow();
+        });
+
+        it("should not count client errors as failures", () => {
+            const breaker = new CircuitBreaker({ failureThreshold: 1 });
+            const config = requestConfig();
+
+            breaker.record(config, responseError(404, config));
+
+            expect(breaker.isOpen(1)).toBe(false);
+        });
+
+        it("should reset the failure count on success", () => {
+            const breaker = new CircuitBreaker({ failureThreshold: 2 });
+            const config = requestConfig();
+
+            breaker.record(config, responseError(502, config));
+            breaker.record(config);
+            breaker.record(config, responseError(502, config));
+
+            expect(breaker.isOpen(1)).toBe(false);
+        });
+
+        it("should let requests through again after resetTimeoutMs", () => {
+            vi.useFakeTimers();
+            const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+            const config = requestConfig();
+
+            breaker.record(config, responseError(502, config));
+            expect(breaker.isOpen(1)).toBe(true);
+
+            vi.advanceTimersByTime(1000);
+
+            expect(breaker.isOpen(1)).toBe(false);
+            expect(() => breaker.check(config)).not.toThrow();
+        });
+
+        it("should let only one probe through while half-open", () => {
+            vi.useFakeTimers();
+            const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+            const probe = requestConfig();
+            const other = requestConfig();
+
+            breaker.record(probe, responseError(502, probe));
+            vi.advanceTimersByTime(1000);
+
+            expect(() => breaker.check(probe)).not.toThrow();
+            expect(() => breaker.check(other)).toThrow(EnvironmentUnavailableError);
+            expect(breaker.isOpen(1)).toBe(true);
+
+            breaker.record(probe);
+
+            expect(breaker.isOpen(1)).toBe(false);
+            expect(() => breaker.check(other)).not.toThrow();
+        });
+
+        it("should take another probe when the probe is cancelled or never reports back", () => {
+            vi.useFakeTimers();
+            const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+            const first = requestConfig();
+            const second = requestConfig();
+            const third = requestConfig();
+
+            breaker.record(first, responseError(502, first));
+            vi.advanceTimersByTime(1000);
+            breaker.check(first);
+            breaker.record(first, new AbortError("Request aborted") as any);
+
+            expect(() => breaker.check(second)).not.toThrow();
+            expect(() => breaker.check(third)).toThrow(EnvironmentUnavailableError);
+
+            vi.advanceTimersByTime(1000);
+
+            expect(() => breaker.check(third)).not.toThrow();
+        });
+
+        it("should re-open immediately when the trial request fails", () => {
+            vi.useFakeTimers();
+            const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+            const config = requestConfig();
+
+            for (let i = 0; i < 3; i++) {
+                breaker.record(config, responseError(502, config));
+            }
+            vi.advanceTimersByTime(1000);
+            breaker.record(config, responseError(502, config));
+
+            expect(breaker.isOpen(1)).toBe(true);
+        });
+    });
+
+    describe("getRetryOptionsFromEnv()", () => {
+        it("should return undefined when not configured", () => {
+            expect(getRetryOptionsFromEnv()).toBeUndefined();
+        });
+
+        it("should read PORTAINER_RETRY_MAX_ATTEMPTS", () => {
+            process.env.PORTAINER_RETRY_MAX_ATTEMPTS = "5";
+
+            expect(getRetryOptionsFromEnv()).toEqual({ maxAttempts: 5 });
+        });
+    });
+});
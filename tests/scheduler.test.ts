@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { RequestScheduler, getSchedulerOptionsFromEnv } from "../src/scheduler.ts";
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe("Scheduler Tests", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        delete process.env.PORTAINER_MAX_CONCURRENT_REQUESTS;
+        delete process.env.PORTAINER_REQUESTS_PER_SECOND;
+    });
+
+    describe("RequestScheduler", () => {
+        it("should limit the requests in flight", async () => {
+            const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+            const started: number[] = [];
+
+            [1, 2, 3].forEach(id => scheduler.acquire("normal").then(() => started.push(id)));
+            await flush();
+
+            expect(started).toEqual([1, 2]);
+            expect(scheduler.active).toBe(2);
+            expect(scheduler.pending).toBe(1);
+
+            scheduler.release();
+            await flush();
+
+            expect(started).toEqual([1, 2, 3]);
+            expect(scheduler.pending).toBe(0);
+        });
+
+        it("should start queued interactive requests before normal and background ones", async () => {
+            const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+            const started: string[] = [];
+
+            await scheduler.acquire("normal");
+            scheduler.acquire("background").then(() => started.push("background"));
+            scheduler.acquire("normal").then(() => started.push("normal"));
+            scheduler.acquire("interactive").then(() => started.push("interactive"));
+
+            for (let i = 0; i < 3; i++) {
+                scheduler.release();
+                await flush();
+            }
+
+            expect(started).toEqual(["interactive", "normal", "background"]);
+        });
+
+        it("should cap the request rate", async () => {
+            vi.useFakeTimers();
+            const scheduler = new RequestScheduler({ maxConcurrent: 10, requestsPerSecond: 2 });
+            let started = 0;
+
+            for (let i = 0; i < 4; i++) {
+                scheduler.acquire("normal").then(() => started++);
+            }
+            await vi.advanceTimersByTimeAsync(0);
+            expect(started).toBe(2);
+
+            await vi.advanceTimersByTimeAsync(500);
+            expect(started).toBe(3);
+
+            await vi.advanceTimersByTimeAsync(500);
+            expect(started).toBe(4);
+        });
+
+        it("should drop a queued request when its signal aborts", async () => {
+            const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+            const controller = new AbortController();
+
+            await scheduler.acquire("normal");
+            const queued = scheduler.acquire("normal", controller.signal);
+            controller.abort();
+
+            await expect(queued).rejects.toMatchObject({ name: "AbortError" });
+            expect(scheduler.pending).toBe(0);
+        });
+
+        it("should reject right away when the signal already aborted", async () => {
+            const scheduler = new RequestScheduler();
+
+            await expect(scheduler.acquire("normal", AbortSignal.abort())).rejects.toMatchObject({ name: "AbortError" });
+            expect(scheduler.active).toBe(0);
+        });
+
+        it("should put exec, logs and attach requests in the interactive lane", () => {
+            expect(RequestScheduler.getPriority("/api/endpoints/1/docker/containers/abc/exec")).toBe("interactive");
+            expect(RequestScheduler.getPriority("/api/endpoints/1/docker/exec/123/start")).toBe("interactive");
+            expect(RequestScheduler.getPriority("/api/endpoints/1/docker/containers/abc/logs?tail=100")).toBe("interactive");
+            expect(RequestScheduler.getPriority("/api/endpoints/1/docker/containers/json")).toBe("normal");
+            expect(RequestScheduler.getPriority("/api/endpoints/1/docker/containers/abc/exec", "background")).toBe("background");
+        });
+
+        it("should tell streams from other requests", () => {
+            expect(RequestScheduler.isStreaming("/api/endpoints/1/docker/containers/abc/attach?stream=1")).toBe(true);
+            expect(RequestScheduler.isStreaming("/api/endpoints/1/docker/containers/abc/logs?follow=true")).toBe(true);
+            expect(RequestScheduler.isStreaming("/api/endpoints/1/docker/containers/abc/logs", { follow: 1 })).toBe(true);
+            expect(RequestScheduler.isStreaming("/api/endpoints/1/docker/events", undefined, "stream")).toBe(true);
+            expect(RequestScheduler.isStreaming("/api/endpoints/1/docker/containers/abc/logs?tail=100")).toBe(false);
+            expect(RequestScheduler.isStreaming("/api/stacks")).toBe(false);
+        });
+    });
+
+    describe("getSchedulerOptionsFromEnv()", () => {
+        it("should return undefined when nothing is set", () => {
+            expect(getSchedulerOptionsFromEnv()).toBeUndefined();
+        });
+
+        it("should read the limits", () => {
+            process.env.PORTAINER_MAX_CONCURRENT_REQUESTS = "4";
+            process.env.PORTAINER_REQUESTS_PER_SECOND = "20";
+
+            expect(getSchedulerOptionsFromEnv()).toEqual({ maxConcurrent: 4, requestsPerSecond: 20 });
+        });
+    });
+});
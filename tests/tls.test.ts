@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import https from "https";
+import { EventEmitter } from "events";
+import { createHttpsAgent, getTlsOptionsFromEnv } from "../src/tls.ts";
+
+vi.mock("fs", () => ({
+    default: {
+        readFileSync: vi.fn((path: string) => Buffer.from(`contents of ${path}`))
+    }
+}));
+
+const FINGERPRINT = "16:6E:98:D7:BE:99:F3:9C:59:A6:E1:3F:87:0A:D2:EA:08:3A:26:54:C5:C8:16:A8:20:9A:3C:DD:9D:D7:4E:D1";
+
+describe("TLS Tests", () => {
+    describe("createHttpsAgent()", () => {
+        it("should return undefined when no TLS options are given", () => {
+            expect(createHttpsAgent()).toBeUndefined();
+        });
+
+        it("should validate certificates by default", () => {
+            const agent = createHttpsAgent({});
+
+            expect(agent).toBeInstanceOf(https.Agent);
+            expect(agent!.options.rejectUnauthorized).toBe(true);
+        });
+
+        it("should skip validation only when insecure is set", () => {
+            const agent = createHttpsAgent({ insecure: true });
+
+            expect(agent!.options.rejectUnauthorized).toBe(false);
+        });
+
+        it("should pass the CA bundle and client certificate to the agent", () => {
+            const agent = createHttpsAgent({ ca: "ca-pem", cert: "cert-pem", key: "key-pem", passphrase: "secret" });
+
+            expect(agent!.options.ca).toBe("ca-pem");
+            expect(agent!.options.cert).toBe("cert-pem");
+            expect(agent!.options.key).toBe("key-pem");
+            expect(agent!.options.passphrase).toBe("secret");
+        });
+
+        describe("fingerprint pinning", () => {
+            const connectWithCertificate = (fingerprint: string | undefined, pinned: string | string[]) => {
+                const socket: any = new EventEmitter();
+                socket.getPeerCertificate = () => ({ fingerprint256: fingerprint });
+                socket.destroy = vi.fn();
+                vi.spyOn(https.Agent.prototype, "createConnection").mockReturnValue(socket);
+
+                const agent = createHttpsAgent({ fingerprint: pinned })!;
+                agent.createConnection({});
+                socket.emit("secureConnect");
+                return socket;
+            };
+
+            afterEach(() => {
+                vi.restoreAllMocks();
+            });
+
+            it("should not cache TLS sessions when pinning", () => {
+                const agent = createHttpsAgent({ fingerprint: FINGERPRINT });
+
+                expect(agent!.options.maxCachedSessions).toBe(0);
+            });
+
+            it("should keep connections whose certificate matches the pin", () => {
+                const socket = connectWithCertificate(FINGERPRINT, FINGERPRINT);
+
+                expect(socket.destroy).not.toHaveBeenCalled();
+            });
+
+            it("should accept pins without separators and in lower case", () => {
+                const socket = connectWithCertificate(FINGERPRINT, FINGERPRINT.replace(/:/g, "").toLowerCase());
+
+                expect(socket.destroy).not.toHaveBeenCalled();
+            });
+
+            it("should accept any of several pinned fingerprints", () => {
+                const socket = connectWithCertificate(FINGERPRINT, ["AA:BB", FINGERPRINT]);
+
+                expect(socket.destroy).not.toHaveBeenCalled();
+            });
+
+            it("should destroy connections whose certificate does not match", () => {
+                const socket = connectWithCertificate("AA:BB:CC", FINGERPRINT);
+
+                expect(socket.destroy).toHaveBeenCalledWith(expect.objectContaining({
+                    message: expect.stringContaining("does not match the pinned fingerprint")
+                }));
+            });
+
+            it("should destroy connections without a peer certificate", () => {
+                const socket = connectWithCertificate(undefined, FINGERPRINT);
+
+                expect(socket.destroy).toHaveBeenCalled();
+            });
+        });
+    });
+
+    describe("getTlsOptionsFromEnv()", () => {
+        let originalEnv: NodeJS.ProcessEnv;
+
+        beforeEach(() => {
+            originalEnv = { ...process.env };
+            delete process.env.PORTAINER_CA_FILE;
+            delete process.env.PORTAINER_CLIENT_CERT_FILE;
+            delete process.env.PORTAINER_CLIENT_KEY_FILE;
+            delete process.env.PORTAINER_CLIENT_KEY_PASSPHRASE;
+            delete process.env.PORTAINER_TLS_INSECURE;
+            delete process.env.PORTAINER_CERT_FINGERPRINT;
+        });
+
+        afterEach(() => {
+            process.env = originalEnv;
+        });
+
+        it("should return undefined when no TLS variables are set", () => {
+            expect(getTlsOptionsFromEnv()).toBeUndefined();
+        });
+
+        it("should ignore NODE_ENV", () => {
+            process.env.NODE_ENV = "development";
+
+            expect(getTlsOptionsFromEnv()).toBeUndefined();
+        });
+
+        it("should read certificate files from the configured paths", () => {
+            process.env.PORTAINER_CA_FILE = "/certs/ca.pem";
+            process.env.PORTAINER_CLIENT_CERT_FILE = "/certs/client.pem";
+            process.env.PORTAINER_CLIENT_KEY_FILE = "/certs/client-key.pem";
+
+            const options = getTlsOptionsFromEnv();
+
+            expect(options?.ca?.toString()).toBe("contents of /certs/ca.pem");
+            expect(options?.cert?.toString()).toBe("contents of /certs/client.pem");
+            expect(options?.key?.toString()).toBe("contents of /certs/client-key.pem");
+        });
+
+        it("should only enable insecure mode for the exact value 'true'", () => {
+            process.env.PORTAINER_TLS_INSECURE = "1";
+            expect(getTlsOptionsFromEnv()).toBeUndefined();
+
+            process.env.PORTAINER_TLS_INSECURE = "true";
+            expect(getTlsOptionsFromEnv()).toEqual({ insecure: true });
+        });
+
+        it("should split comma-separated fingerprints", () => {
+            process.env.PORTAINER_CERT_FINGERPRINT = "AA:BB, CC:DD";
+
+            expect(getTlsOptionsFromEnv()).toEqual({ fingerprint: ["AA:BB", "CC:DD"] });
+        });
+    });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import * as utils from "../src/utils.ts";
 import { PortainerApi } from "../src/api.ts";
+import { AbortError, TimeoutError } from "../src/errors.ts";
+import type { PortainerEnvironment, PortainerStack } from "../src/types.ts";
 
 // Mock the PortainerApi
 vi.mock("../src/api", () => {
@@ -19,6 +21,10 @@ vi.mock("../src/api", () => {
     };
 });
 
+const mockStack = (Id: number, Name: string, EndpointId: number): PortainerStack => ({
+    Id, Name, EndpointId, Type: 2, Status: 1, Env: [], CreationDate: 0, CreatedBy: "admin", UpdateDate: 0, UpdatedBy: ""
+});
+
 describe("Utils Functions Tests", () => {
     beforeEach(() => {
         vi.clearAllMocks();
@@ -34,7 +40,7 @@ describe("Utils Functions Tests", () => {
             const mockEnvironments = [
                 { Id: 1, Name: "env1" },
                 { Id: 2, Name: "env2" }
-            ];
+            ] as PortainerEnvironment[];
             vi.mocked(PortainerApi.instance.getEnvironments).mockResolvedValue(mockEnvironments);
 
             const result = await utils.getFirstEnvironmentId();
@@ -43,6 +49,18 @@ describe("Utils Functions Tests", () => {
             expect(PortainerApi.instance.getEnvironments).toHaveBeenCalled();
         });
 
+        it("should prefer the first environment that is up", async () => {
+            const mockEnvironments = [
+                { Id: 1, Name: "env1", Status: 2 },
+                { Id: 2, Name: "env2", Status: 1 }
+            ] as PortainerEnvironment[];
+            vi.mocked(PortainerApi.instance.getEnvironments).mockResolvedValue(mockEnvironments);
+
+            const result = await utils.getFirstEnvironmentId();
+
+            expect(result).toBe(2);
+        });
+
         it("should return null when no environments exist", async () => {
             vi.mocked(PortainerApi.instance.getEnvironments).mockResolvedValue([]);
 
@@ -185,8 +203,8 @@ describe("Utils Functions Tests", () => {
         describe("Stack Search", () => {
             it("should find stack by name", async () => {
                 const mockStacks = [
-                    { Id: 1, Name: "test-stack", EndpointId: 1 },
-                    { Id: 2, Name: "other-stack", EndpointId: 1 }
+                    mockStack(1, "test-stack", 1),
+                    mockStack(2, "other-stack", 1)
                 ];
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue(mockStacks);
 
@@ -197,7 +215,7 @@ describe("Utils Functions Tests", () => {
 
             it("should return null when stack is not found", async () => {
                 const mockStacks = [
-                    { Id: 1, Name: "test-stack", EndpointId: 1 }
+                    mockStack(1, "test-stack", 1)
                 ];
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue(mockStacks);
 
@@ -262,9 +280,9 @@ describe("Utils Functions Tests", () => {
         describe("Stack Search", () => {
             it("should find stack by id and environment", async () => {
                 const mockStacks = [
-                    { Id: 1, Name: "test-stack", EndpointId: 1 },
-                    { Id: 2, Name: "other-stack", EndpointId: 1 },
-                    { Id: 1, Name: "test-stack", EndpointId: 2 }
+                    mockStack(1, "test-stack", 1),
+                    mockStack(2, "other-stack", 1),
+                    mockStack(1, "test-stack", 2)
                 ];
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue(mockStacks);
 
@@ -275,7 +293,7 @@ describe("Utils Functions Tests", () => {
 
             it("should return null when stack with matching id but different environment exists", async () => {
                 const mockStacks = [
-                    { Id: 1, Name: "test-stack", EndpointId: 2 }
+                    mockStack(1, "test-stack", 2)
                 ];
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue(mockStacks);
 
@@ -286,7 +304,7 @@ describe("Utils Functions Tests", () => {
 
             it("should return null when stack is not found", async () => {
                 const mockStacks = [
-                    { Id: 1, Name: "test-stack", EndpointId: 1 }
+                    mockStack(1, "test-stack", 1)
                 ];
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue(mockStacks);
 
@@ -329,7 +347,7 @@ describe("Utils Functions Tests", () => {
 
             it("should handle missing timeoutMs parameter", async () => {
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue([
-                    { Id: 1, Name: "test-stack", EndpointId: 1 }
+                    mockStack(1, "test-stack", 1)
                 ]);
 
                 const result = await utils.verifyStackCreation("test-stack", undefined as any);
@@ -339,7 +357,7 @@ describe("Utils Functions Tests", () => {
 
             it("should handle null timeoutMs parameter", async () => {
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue([
-                    { Id: 1, Name: "test-stack", EndpointId: 1 }
+                    mockStack(1, "test-stack", 1)
                 ]);
 
                 const result = await utils.verifyStackCreation("test-stack", null as any);
@@ -349,7 +367,7 @@ describe("Utils Functions Tests", () => {
 
             it("should handle invalid timeoutMs types", async () => {
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue([
-                    { Id: 1, Name: "test-stack", EndpointId: 1 }
+                    mockStack(1, "test-stack", 1)
                 ]);
 
                 const result1 = await utils.verifyStackCreation("test-stack", "invalid" as any);
@@ -365,7 +383,7 @@ describe("Utils Functions Tests", () => {
         describe("Stack Verification", () => {
             it("should return true when stack is found immediately", async () => {
                 vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue([
-                    { Id: 1, Name: "test-stack", EndpointId: 1 }
+                    mockStack(1, "test-stack", 1)
                 ]);
 
                 const result = await utils.verifyStackCreation("test-stack", 5000);
@@ -377,7 +395,7 @@ describe("Utils Functions Tests", () => {
                 vi.mocked(PortainerApi.instance.getStacks)
                     .mockResolvedValueOnce([])
                     .mockResolvedValueOnce([])
-                    .mockResolvedValueOnce([{ Id: 1, Name: "test-stack", EndpointId: 1 }]);
+                    .mockResolvedValueOnce([mockStack(1, "test-stack", 1)]);
 
                 const promise = utils.verifyStackCreation("test-stack", 5000);
                 
@@ -403,7 +421,7 @@ describe("Utils Functions Tests", () => {
             it("should handle errors during verification and continue retrying", async () => {
                 vi.mocked(PortainerApi.instance.getStacks)
                     .mockRejectedValueOnce(new Error("API Error"))
-                    .mockResolvedValueOnce([{ Id: 1, Name: "test-stack", EndpointId: 1 }]);
+                    .mockResolvedValueOnce([mockStack(1, "test-stack", 1)]);
 
                 const promise = utils.verifyStackCreation("test-stack", 5000);
                 
@@ -413,6 +431,29 @@ describe("Utils Functions Tests", () => {
 
                 expect(result).toBe(true);
             });
+
+            it("should pass the signal to getStacks", async () => {
+                const controller = new AbortController();
+                vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue([{ Id: 1, Name: "test-stack", EndpointId: 1 }] as any);
+
+                await utils.verifyStackCreation("test-stack", 5000, PortainerApi.instance, { signal: controller.signal });
+
+                expect(PortainerApi.instance.getStacks).toHaveBeenCalledWith({ signal: controller.signal });
+            });
+
+            it("should stop polling with an AbortError when the signal aborts", async () => {
+                const controller = new AbortController();
+                vi.mocked(PortainerApi.instance.getStacks).mockResolvedValue([]);
+
+                const promise = utils.verifyStackCreation("test-stack", 60000, PortainerApi.instance, { signal: controller.signal });
+                const assertion = expect(promise).rejects.toBeInstanceOf(AbortError);
+
+                await vi.advanceTimersByTimeAsync(500);
+                controller.abort();
+
+                await assertion;
+                expect(PortainerApi.instance.getStacks).toHaveBeenCalledTimes(1);
+            });
         });
     });
 
@@ -557,6 +598,18 @@ describe("Utils Functions Tests", () => {
 
                 expect(result).toBe(true);
             });
+
+            it("should stop polling with a TimeoutError when the deadline passes", async () => {
+                const client = { getContainerDetails: vi.fn().mockResolvedValue(undefined) };
+
+                const promise = utils.verifyContainerCreation("test-container", 60000, client, { timeoutMs: 1500 });
+                const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+                await vi.advanceTimersByTimeAsync(1500);
+
+                await assertion;
+                expect(client.getContainerDetails).toHaveBeenCalledWith("test-container", undefined, { signal: expect.any(AbortSignal) });
+            });
         });
     });
 });